@@ -0,0 +1,140 @@
+/**
+ * RecipeSnap service worker
+ *
+ * - Precaches the app shell: index.html plus the hashed scripts and styles it references,
+ *   so the app opens offline. Vite fingerprints /assets/ files, so they never go stale.
+ * - Serves navigations network-first with the cached shell as the offline fallback.
+ * - Keeps recently viewed recipe images for offline use.
+ * - Opens the right page when a "recipe ready" notification is clicked.
+ *
+ * API calls (Supabase, the AI gateway) are not cached here; saved recipes are kept in
+ * IndexedDB by the app itself (src/utils/offlineStore.ts).
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `recipesnap-shell-${CACHE_VERSION}`;
+const IMAGE_CACHE = `recipesnap-images-${CACHE_VERSION}`;
+const MAX_CACHED_IMAGES = 150;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/favicon.ico', '/placeholder.svg'];
+
+/**
+ * Reads the script and stylesheet URLs a built index.html loads
+ */
+const getShellAssets = (html) =>
+  Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1]);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_URLS);
+
+    const index = await cache.match('/index.html');
+    if (index) {
+      await cache.addAll(getShellAssets(await index.text()));
+    }
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys
+        .filter((key) => key.startsWith('recipesnap-') && key !== SHELL_CACHE && key !== IMAGE_CACHE)
+        .map((key) => caches.delete(key))
+    );
+    await self.clients.claim();
+  })());
+});
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+/**
+ * Network first; the cached shell answers when offline so client-side routes still load
+ */
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    const cached = await caches.match('/index.html');
+    return cached || Response.error();
+  }
+};
+
+/**
+ * Cache first for fingerprinted build assets
+ */
+const handleAsset = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+/**
+ * Stale-while-revalidate for images, so saved recipes show their photos offline
+ */
+const handleImage = async (request) => {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(request);
+
+  const network = fetch(request)
+    .then(async (response) => {
+      // Opaque cross-origin responses are kept too; they can still be displayed
+      if (response.ok || response.type === 'opaque') {
+        await cache.put(request, response.clone());
+        await trimCache(IMAGE_CACHE, MAX_CACHED_IMAGES);
+      }
+      return response;
+    })
+    .catch(() => cached || Response.error());
+
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin && (url.pathname.startsWith('/assets/') || SHELL_URLS.includes(url.pathname))) {
+    event.respondWith(handleAsset(request));
+  } else if (request.destination === 'image') {
+    event.respondWith(handleImage(request));
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const target = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+    if (existing) {
+      await existing.focus();
+      return existing.navigate(target);
+    }
+    return self.clients.openWindow(target);
+  })());
+});
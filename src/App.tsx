@@ -4,18 +4,42 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import SavedRecipes from "./pages/SavedRecipes";
+import ShoppingList from "./pages/ShoppingList";
+import Planner from "./pages/Planner";
+import Discover from "./pages/Discover";
+import Search from "./pages/Search";
+import RecipeDetail from "./pages/RecipeDetail";
+import ImportRecipe from "./pages/ImportRecipe";
+import DietaryProfile from "./pages/DietaryProfile";
 import NotFound from "./pages/NotFound";
+import { useOfflineQueue } from "./hooks/useOfflineQueue";
 
 const queryClient = new QueryClient();
 
+// Analyzes photos taken offline; lives inside the router so its notices can link to the recipe box
+const OfflineQueue = () => {
+  useOfflineQueue();
+  return null;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
       <BrowserRouter>
+        <OfflineQueue />
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/discover" element={<Discover />} />
+          <Route path="/search" element={<Search />} />
+          <Route path="/recipe/:id" element={<RecipeDetail />} />
+          <Route path="/import" element={<ImportRecipe />} />
+          <Route path="/saved" element={<SavedRecipes />} />
+          <Route path="/shopping-list" element={<ShoppingList />} />
+          <Route path="/planner" element={<Planner />} />
+          <Route path="/profile" element={<DietaryProfile />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
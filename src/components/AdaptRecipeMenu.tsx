@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Wand2, X } from 'lucide-react';
+import Button from './Button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ADAPTATION_PRESETS, getCustomAdaptationLabel } from '@/utils/recipeAdaptation';
+
+interface AdaptRecipeMenuProps {
+  onAdapt: (instruction: string, label: string) => void;
+  isAdapting?: boolean;
+}
+
+/**
+ * "Adapt" button with the preset adaptations and a free-text option
+ */
+const AdaptRecipeMenu: React.FC<AdaptRecipeMenuProps> = ({ onAdapt, isAdapting = false }) => {
+  const [isCustomOpen, setIsCustomOpen] = useState(false);
+  const [customText, setCustomText] = useState('');
+
+  const submitCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = customText.trim();
+    if (!text) return;
+    onAdapt(text, getCustomAdaptationLabel(text));
+    setCustomText('');
+    setIsCustomOpen(false);
+  };
+
+  if (isCustomOpen) {
+    return (
+      <form onSubmit={submitCustom} className="flex items-center gap-2 w-full sm:w-auto">
+        <Input
+          value={customText}
+          onChange={(e) => setCustomText(e.target.value)}
+          placeholder="e.g. no mushrooms, use an air fryer"
+          className="rounded-full sm:w-72"
+          aria-label="How should the recipe change?"
+          autoFocus
+        />
+        <Button type="submit" icon={<Wand2 size={18} />} disabled={!customText.trim()}>
+          Adapt
+        </Button>
+        <button
+          type="button"
+          onClick={() => setIsCustomOpen(false)}
+          className="h-8 w-8 flex-shrink-0 rounded-full hover:bg-secondary flex items-center justify-center transition-colors"
+          aria-label="Cancel"
+        >
+          <X size={16} />
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={isAdapting}>
+        <Button icon={<Wand2 size={18} />} variant="outline" isLoading={isAdapting}>
+          {isAdapting ? 'Adapting…' : 'Adapt'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="center" className="w-56">
+        <DropdownMenuLabel>Make it…</DropdownMenuLabel>
+        {ADAPTATION_PRESETS.map(preset => (
+          <DropdownMenuItem key={preset.id} onSelect={() => onAdapt(preset.instruction, preset.label)}>
+            {preset.label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => setIsCustomOpen(true)}>
+          Something else…
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default AdaptRecipeMenu;
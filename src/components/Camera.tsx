@@ -1,130 +1,499 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { cn } from '@/lib/utils';
 import Button from './Button';
-import { Camera, X, Image as ImageIcon, Upload } from 'lucide-react';
+import { Camera, X, Image as ImageIcon, Upload, Plus, Sparkles, Crop, Check, SwitchCamera, Flashlight, FlashlightOff, Grid3x3, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { FoodPhoto, MAX_FOOD_PHOTOS, PHOTO_ANGLE_LABELS, PhotoAngle } from '@/utils/api';
+import { ImageValidationError, prepareImageFile } from '@/utils/imageService';
+import { CropRect, preprocessImage } from '@/utils/imagePreprocess';
+import { useFrameQuality } from '@/hooks/useFrameQuality';
+import { FrameQualityIssue } from '@/utils/frameQuality';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 interface CameraProps {
-  onCapture: (imageSrc: string) => void;
+  onCapture: (photos: FoodPhoto[]) => void;
   onClose?: () => void;
+  showAngles?: boolean; // Suggest and label dish angles; off for fridge and pantry shots
   className?: string;
 }
 
-const CameraComponent: React.FC<CameraProps> = ({ 
-  onCapture, 
+// Order in which angles are suggested for each new shot
+const ANGLE_ORDER: PhotoAngle[] = ['top-down', 'side', 'cross-section', 'menu'];
+
+const getNextAngle = (shots: FoodPhoto[]): PhotoAngle | undefined =>
+  ANGLE_ORDER.find(angle => !shots.some(shot => shot.angle === angle));
+
+/**
+ * 'thirds' helps compose side and cross-section shots; 'top-down' centers a plate for overhead shots
+ */
+type FramingOverlay = 'thirds' | 'top-down' | 'none';
+
+const OVERLAY_ORDER: FramingOverlay[] = ['thirds', 'top-down', 'none'];
+
+const OVERLAY_LABELS: Record<FramingOverlay, string> = {
+  thirds: 'Rule of thirds',
+  'top-down': 'Top-down',
+  none: 'No grid'
+};
+
+// Torch and zoom are not in the standard TypeScript DOM types yet
+interface ZoomRange {
+  min: number;
+  max: number;
+  step?: number;
+}
+
+interface CameraTrackCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: ZoomRange;
+}
+
+const QUALITY_HINTS: Record<FrameQualityIssue, string> = {
+  'too-dark': 'Too dark. Move to better light',
+  'too-blurry': 'Too blurry. Hold steady or move back a little'
+};
+
+const getDistance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+// Drags smaller than this (as a fraction of the photo) are treated as a tap and clear the crop
+const MIN_CROP_SIZE = 0.05;
+
+const CameraComponent: React.FC<CameraProps> = ({
+  onCapture,
   onClose,
-  className 
+  showAngles = true,
+  className
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
   const [isCameraSupported, setIsCameraSupported] = useState(true);
-  const [imageSrc, setImageSrc] = useState<string | null>(null);
-  const [isImageSelected, setIsImageSelected] = useState(false);
-  
+  const [shots, setShots] = useState<FoodPhoto[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isCropping, setIsCropping] = useState(false);
+  const [cropRect, setCropRect] = useState<CropRect | null>(null);
+  const cropStartRef = useRef<{ x: number; y: number } | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null); // null: the default back camera
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  const [hasTorch, setHasTorch] = useState(false);
+  const [isTorchOn, setIsTorchOn] = useState(false);
+  const [zoomRange, setZoomRange] = useState<ZoomRange | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [overlay, setOverlay] = useState<FramingOverlay>('thirds');
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+  const qualityIssue = useFrameQuality(videoRef, isStreaming && !isReviewing);
+
   useEffect(() => {
+    if (isReviewing) return;
+    let isCancelled = false;
+
+    const startCamera = async () => {
+      try {
+        const constraints = {
+          video: {
+            ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'environment' }),
+            aspectRatio: 4/3,
+            width: { ideal: 1920 },
+            height: { ideal: 1440 }
+          }
+        };
+
+        const stream = await navigator.mediaDevices.getUserMedia(constraints);
+        // The user switched cameras or closed the view while this one was starting
+        if (isCancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          setIsStreaming(true);
+        }
+
+        const [track] = stream.getVideoTracks();
+        readTrackCapabilities(track);
+
+        // Device labels are only available once camera permission has been granted
+        const allDevices = await navigator.mediaDevices.enumerateDevices();
+        if (!isCancelled) {
+          setDevices(allDevices.filter(device => device.kind === 'videoinput'));
+        }
+      } catch (err) {
+        console.error("Error accessing camera:", err);
+        if (deviceId) {
+          // That camera may have been unplugged; go back to the default one
+          toast.error('Could not open that camera.');
+          setDeviceId(null);
+        } else {
+          setIsCameraSupported(false);
+        }
+      }
+    };
+
     startCamera();
     return () => {
+      isCancelled = true;
       stopCamera();
     };
-  }, []);
-  
-  const startCamera = async () => {
+  }, [isReviewing, deviceId]);
+
+  const readTrackCapabilities = (track?: MediaStreamTrack) => {
+    const capabilities = (track?.getCapabilities?.() ?? {}) as CameraTrackCapabilities;
+    const settings = track?.getSettings();
+
+    setActiveDeviceId(settings?.deviceId ?? null);
+    setHasTorch(Boolean(capabilities.torch));
+    setIsTorchOn(false);
+    setZoomRange(capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min ? capabilities.zoom : null);
+    setZoom((settings as { zoom?: number } | undefined)?.zoom ?? capabilities.zoom?.min ?? 1);
+  };
+
+  const stopCamera = () => {
+    // The video element may already be unmounted, so stop the tracks through the stream itself
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+    setIsStreaming(false);
+    pointersRef.current.clear();
+    pinchRef.current = null;
+  };
+
+  const applyTrackConstraint = async (constraint: { torch?: boolean; zoom?: number }) => {
+    const [track] = streamRef.current?.getVideoTracks() ?? [];
+    if (!track) return;
+    await track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] });
+  };
+
+  const toggleTorch = async () => {
     try {
-      const constraints = { 
-        video: { 
-          facingMode: 'environment',
-          aspectRatio: 4/3,
-          width: { ideal: 1920 },
-          height: { ideal: 1440 }
-        } 
-      };
-      
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        setIsStreaming(true);
-      }
+      await applyTrackConstraint({ torch: !isTorchOn });
+      setIsTorchOn(!isTorchOn);
     } catch (err) {
-      console.error("Error accessing camera:", err);
-      setIsCameraSupported(false);
+      console.error("Error switching the torch:", err);
+      toast.error('Could not switch the flash.');
     }
   };
-  
-  const stopCamera = () => {
-    if (videoRef.current && videoRef.current.srcObject) {
-      const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
-      tracks.forEach(track => track.stop());
-      videoRef.current.srcObject = null;
-      setIsStreaming(false);
+
+  const switchCamera = () => {
+    if (devices.length < 2) return;
+    const currentIndex = devices.findIndex(device => device.deviceId === activeDeviceId);
+    setDeviceId(devices[(currentIndex + 1) % devices.length].deviceId);
+  };
+
+  const getDeviceLabel = (device: MediaDeviceInfo, index: number) =>
+    device.label || `Camera ${index + 1}`;
+
+  const cycleOverlay = () => {
+    setOverlay(OVERLAY_ORDER[(OVERLAY_ORDER.indexOf(overlay) + 1) % OVERLAY_ORDER.length]);
+  };
+
+  const handlePreviewPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!zoomRange) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointersRef.current.size === 2) {
+      const [a, b] = Array.from(pointersRef.current.values());
+      pinchRef.current = { distance: getDistance(a, b), zoom };
+    }
+  };
+
+  const handlePreviewPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!zoomRange || !pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const pinch = pinchRef.current;
+    if (!pinch || pointersRef.current.size !== 2) return;
+    const [a, b] = Array.from(pointersRef.current.values());
+    const nextZoom = Math.min(zoomRange.max, Math.max(zoomRange.min, pinch.zoom * getDistance(a, b) / pinch.distance));
+    setZoom(nextZoom);
+    applyTrackConstraint({ zoom: nextZoom }).catch(err => {
+      console.error("Error zooming:", err);
+    });
+  };
+
+  const handlePreviewPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) {
+      pinchRef.current = null;
     }
   };
-  
-  const captureImage = () => {
+
+  const addShots = (sources: string[]) => {
+    const next = [...shots];
+    sources.slice(0, MAX_FOOD_PHOTOS - shots.length).forEach(src => {
+      next.push({ src, angle: showAngles ? getNextAngle(next) : undefined });
+    });
+    setShots(next);
+    setSelectedIndex(next.length - 1);
+    setIsReviewing(true);
+  };
+
+  const captureImage = async () => {
     if (videoRef.current && isStreaming) {
       const canvas = document.createElement('canvas');
       canvas.width = videoRef.current.videoWidth;
       canvas.height = videoRef.current.videoHeight;
-      
+
       const context = canvas.getContext('2d');
       if (context) {
         context.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.95);
-        setImageSrc(dataUrl);
-        setIsImageSelected(true);
+        setIsPreparing(true);
+        try {
+          const { dataUrl } = await preprocessImage(canvas.toDataURL('image/jpeg', 0.95));
+          addShots([dataUrl]);
+        } catch (err) {
+          console.error("Error processing captured image:", err);
+          toast.error('Could not process that shot. Please try again.');
+        } finally {
+          setIsPreparing(false);
+        }
       }
     }
   };
-  
-  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const result = event.target?.result as string;
-        setImageSrc(result);
-        setIsImageSelected(true);
-      };
-      reader.readAsDataURL(file);
+
+  const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsPreparing(true);
+    try {
+      const sources = await Promise.all(
+        files.slice(0, MAX_FOOD_PHOTOS - shots.length).map(file => prepareImageFile(file))
+      );
+      addShots(sources.filter(Boolean));
+    } catch (err) {
+      console.error("Error reading image:", err);
+      toast.error(err instanceof ImageValidationError ? err.message : 'Could not read that image. Please try another.');
+    } finally {
+      setIsPreparing(false);
     }
   };
-  
-  const useImage = () => {
-    if (imageSrc) {
-      onCapture(imageSrc);
+
+  const getCropPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - bounds.top) / bounds.height))
+    };
+  };
+
+  const handleCropStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getCropPoint(e);
+    cropStartRef.current = point;
+    setCropRect({ ...point, width: 0, height: 0 });
+  };
+
+  const handleCropMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = cropStartRef.current;
+    if (!start) return;
+    const point = getCropPoint(e);
+    setCropRect({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  const handleCropEnd = () => {
+    cropStartRef.current = null;
+    if (cropRect && (cropRect.width < MIN_CROP_SIZE || cropRect.height < MIN_CROP_SIZE)) {
+      setCropRect(null);
     }
   };
-  
-  const resetCamera = () => {
-    setImageSrc(null);
-    setIsImageSelected(false);
-    startCamera();
+
+  const cancelCrop = () => {
+    cropStartRef.current = null;
+    setCropRect(null);
+    setIsCropping(false);
+  };
+
+  const applyCrop = async () => {
+    const shot = shots[selectedIndex];
+    if (!shot || !cropRect) return;
+
+    setIsPreparing(true);
+    try {
+      const { dataUrl } = await preprocessImage(shot.src, { crop: cropRect });
+      setShots(shots.map((s, i) => (i === selectedIndex ? { ...s, src: dataUrl } : s)));
+      cancelCrop();
+    } catch (err) {
+      console.error("Error cropping image:", err);
+      toast.error('Could not crop this photo. Please try again.');
+    } finally {
+      setIsPreparing(false);
+    }
   };
-  
+
+  const setShotAngle = (index: number, angle: PhotoAngle) => {
+    setShots(shots.map((shot, i) => {
+      if (i === index) return { ...shot, angle };
+      // Each angle belongs to one shot at a time
+      return shot.angle === angle ? { ...shot, angle: undefined } : shot;
+    }));
+  };
+
+  const removeShot = (index: number) => {
+    const next = shots.filter((_, i) => i !== index);
+    setShots(next);
+    setSelectedIndex(Math.max(0, Math.min(selectedIndex, next.length - 1)));
+    if (next.length === 0) {
+      setIsReviewing(false);
+    }
+  };
+
+  const analyzePhotos = () => {
+    if (shots.length > 0) {
+      onCapture(shots);
+    }
+  };
+
+  const addAnotherShot = () => {
+    setIsReviewing(false);
+  };
+
+  const remainingShots = MAX_FOOD_PHOTOS - shots.length;
+  const nextAngle = getNextAngle(shots);
+  const selectedShot = shots[selectedIndex];
+
   return (
     <div className={cn("relative flex flex-col w-full h-full", className)}>
-      {!isImageSelected ? (
+      {!isReviewing ? (
         <>
           {isCameraSupported ? (
-            <div className="relative flex-1 bg-black overflow-hidden rounded-2xl">
-              <video 
-                ref={videoRef} 
-                autoPlay 
+            <div
+              className={cn("relative flex-1 bg-black overflow-hidden rounded-2xl", zoomRange && "touch-none")}
+              onPointerDown={handlePreviewPointerDown}
+              onPointerMove={handlePreviewPointerMove}
+              onPointerUp={handlePreviewPointerUp}
+              onPointerCancel={handlePreviewPointerUp}
+            >
+              <video
+                ref={videoRef}
+                autoPlay
                 playsInline
                 className="absolute inset-0 w-full h-full object-cover"
               />
-              
+
+              {overlay === 'thirds' && (
+                <div className="absolute inset-0 pointer-events-none">
+                  <div className="absolute inset-y-0 left-1/3 w-px bg-white/40" />
+                  <div className="absolute inset-y-0 left-2/3 w-px bg-white/40" />
+                  <div className="absolute inset-x-0 top-1/3 h-px bg-white/40" />
+                  <div className="absolute inset-x-0 top-2/3 h-px bg-white/40" />
+                </div>
+              )}
+
+              {overlay === 'top-down' && (
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                  <div className="relative h-3/4 aspect-square rounded-full border-2 border-dashed border-white/60">
+                    <div className="absolute left-1/2 top-1/2 w-6 h-px -translate-x-1/2 bg-white/60" />
+                    <div className="absolute left-1/2 top-1/2 h-6 w-px -translate-y-1/2 bg-white/60" />
+                  </div>
+                </div>
+              )}
+
+              {qualityIssue && (
+                <div className="absolute top-16 inset-x-0 z-10 flex justify-center pointer-events-none">
+                  <span className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-500/90 rounded-full text-sm text-white">
+                    <AlertTriangle size={14} />
+                    {QUALITY_HINTS[qualityIssue]}{qualityIssue === 'too-dark' && hasTorch && ' or turn on the flash'}
+                  </span>
+                </div>
+              )}
+
+              <div className="absolute top-16 right-4 z-10 flex flex-col gap-2">
+                {devices.length > 1 && (
+                  <button
+                    onClick={switchCamera}
+                    className="p-2 bg-background/70 backdrop-blur-sm rounded-full text-foreground"
+                    aria-label="Switch camera"
+                  >
+                    <SwitchCamera size={20} />
+                  </button>
+                )}
+                {hasTorch && (
+                  <button
+                    onClick={toggleTorch}
+                    className={cn(
+                      "p-2 backdrop-blur-sm rounded-full",
+                      isTorchOn ? "bg-primary text-primary-foreground" : "bg-background/70 text-foreground"
+                    )}
+                    aria-label={isTorchOn ? "Turn flash off" : "Turn flash on"}
+                  >
+                    {isTorchOn ? <Flashlight size={20} /> : <FlashlightOff size={20} />}
+                  </button>
+                )}
+                <button
+                  onClick={cycleOverlay}
+                  className={cn(
+                    "p-2 backdrop-blur-sm rounded-full",
+                    overlay === 'none' ? "bg-background/70 text-foreground" : "bg-primary text-primary-foreground"
+                  )}
+                  aria-label={`Framing guide: ${OVERLAY_LABELS[overlay]}`}
+                  title={OVERLAY_LABELS[overlay]}
+                >
+                  <Grid3x3 size={20} />
+                </button>
+              </div>
+
+              {devices.length > 2 && (
+                <div className="absolute bottom-14 left-4 z-10 w-44">
+                  <Select value={activeDeviceId ?? undefined} onValueChange={setDeviceId}>
+                    <SelectTrigger className="h-8 bg-background/70 backdrop-blur-sm text-xs" aria-label="Camera">
+                      <SelectValue placeholder="Camera" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {devices.map((device, index) => (
+                        <SelectItem key={device.deviceId} value={device.deviceId}>
+                          {getDeviceLabel(device, index)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {zoomRange && zoom > zoomRange.min && (
+                <span className="absolute bottom-14 right-4 z-10 px-2 py-1 bg-background/70 backdrop-blur-sm rounded-full text-xs text-foreground pointer-events-none">
+                  {zoom.toFixed(1)}x
+                </span>
+              )}
+
               {onClose && (
-                <button 
+                <button
                   onClick={onClose}
                   className="absolute top-4 right-4 z-10 p-2 bg-background/70 backdrop-blur-sm rounded-full text-foreground"
                 >
                   <X size={20} />
                 </button>
               )}
-              
-              <div className="absolute inset-0 grid items-center pointer-events-none">
-                <div className="border-2 border-white/50 m-8 aspect-square rounded-lg"></div>
-              </div>
+
+              {shots.length > 0 && (
+                <button
+                  onClick={() => setIsReviewing(true)}
+                  className="absolute top-4 left-4 z-10 px-3 py-1.5 bg-background/70 backdrop-blur-sm rounded-full text-sm text-foreground"
+                >
+                  {shots.length} of {MAX_FOOD_PHOTOS} taken · Review
+                </button>
+              )}
+
+              {showAngles && nextAngle && (
+                <div className="absolute bottom-4 inset-x-0 z-10 flex justify-center pointer-events-none">
+                  <span className="px-3 py-1.5 bg-background/70 backdrop-blur-sm rounded-full text-sm text-foreground">
+                    Next: {PHOTO_ANGLE_LABELS[nextAngle]} shot
+                  </span>
+                </div>
+              )}
             </div>
           ) : (
             <div className="flex-1 flex flex-col items-center justify-center p-6 bg-muted/30 rounded-2xl">
@@ -132,38 +501,40 @@ const CameraComponent: React.FC<CameraProps> = ({
                 <div className="mb-4 mx-auto w-16 h-16 flex items-center justify-center rounded-full bg-muted">
                   <Upload size={28} className="text-muted-foreground" />
                 </div>
-                <h3 className="text-lg mb-2">Upload Your Food Photo</h3>
+                <h3 className="text-lg mb-2">Upload Your Food Photos</h3>
                 <p className="text-sm text-muted-foreground mb-6">
-                  Camera access is not available. Please upload an image from your gallery instead.
+                  Camera access is not available. Please upload up to {remainingShots} image{remainingShots === 1 ? '' : 's'} from your gallery instead.
                 </p>
               </div>
             </div>
           )}
-          
+
           <div className="flex justify-center gap-4 py-6">
             <label htmlFor="image-upload" className="flex-1 max-w-36">
-              <Button 
+              <Button
                 variant="primary"
                 size="lg"
                 icon={<ImageIcon size={18} />}
+                isLoading={isPreparing}
                 className="cursor-pointer w-full"
               >
                 Gallery
               </Button>
-              <input 
-                id="image-upload" 
-                type="file" 
-                accept="image/*" 
+              <input
+                id="image-upload"
+                type="file"
+                accept="image/*,.heic,.heif"
+                multiple
                 onChange={handleFileInput}
                 className="hidden"
               />
             </label>
-            
+
             {isCameraSupported && (
               <Button
                 size="lg"
                 onClick={captureImage}
-                disabled={!isStreaming}
+                disabled={!isStreaming || isPreparing}
                 icon={<Camera size={18} />}
                 className="flex-1 max-w-36"
               >
@@ -175,33 +546,153 @@ const CameraComponent: React.FC<CameraProps> = ({
       ) : (
         <>
           <div className="relative flex-1 bg-black overflow-hidden rounded-2xl">
-            {imageSrc && (
-              <img 
-                src={imageSrc} 
-                alt="Captured" 
+            {isCropping && selectedShot ? (
+              <div className="absolute inset-0 flex items-center justify-center p-4">
+                <div
+                  className="relative touch-none select-none cursor-crosshair"
+                  onPointerDown={handleCropStart}
+                  onPointerMove={handleCropMove}
+                  onPointerUp={handleCropEnd}
+                  onPointerCancel={handleCropEnd}
+                >
+                  <img
+                    src={selectedShot.src}
+                    alt="Drag to select the area to keep"
+                    draggable={false}
+                    className="block max-w-full max-h-[60vh]"
+                  />
+                  {cropRect && (
+                    <div
+                      className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] pointer-events-none"
+                      style={{
+                        left: `${cropRect.x * 100}%`,
+                        top: `${cropRect.y * 100}%`,
+                        width: `${cropRect.width * 100}%`,
+                        height: `${cropRect.height * 100}%`
+                      }}
+                    />
+                  )}
+                </div>
+                {!cropRect && (
+                  <span className="absolute top-4 inset-x-0 mx-auto w-fit px-3 py-1.5 bg-background/70 backdrop-blur-sm rounded-full text-sm text-foreground pointer-events-none">
+                    Drag over the part of the photo to keep
+                  </span>
+                )}
+              </div>
+            ) : selectedShot && (
+              <img
+                src={selectedShot.src}
+                alt={selectedShot.angle ? `${PHOTO_ANGLE_LABELS[selectedShot.angle]} shot` : "Captured"}
                 className="absolute inset-0 w-full h-full object-contain"
               />
             )}
+
+            {!isCropping && selectedShot && (
+              <button
+                onClick={() => setIsCropping(true)}
+                className="absolute top-4 right-4 z-10 flex items-center gap-1.5 px-3 py-1.5 bg-background/70 backdrop-blur-sm rounded-full text-sm text-foreground"
+              >
+                <Crop size={14} />
+                Crop
+              </button>
+            )}
+
+            {showAngles && !isCropping && selectedShot && (
+              <div className="absolute bottom-4 inset-x-0 z-10 flex flex-wrap justify-center gap-2 px-4">
+                {ANGLE_ORDER.map(angle => (
+                  <button
+                    key={angle}
+                    onClick={() => setShotAngle(selectedIndex, angle)}
+                    className={cn(
+                      "px-3 py-1.5 rounded-full text-sm backdrop-blur-sm transition-colors",
+                      selectedShot.angle === angle
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-background/70 text-foreground hover:bg-background/90"
+                    )}
+                  >
+                    {PHOTO_ANGLE_LABELS[angle]}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
-          
-          <div className="flex justify-center gap-4 py-6">
-            <Button 
-              variant="outline"
-              size="lg"
-              onClick={resetCamera}
-              className="flex-1 max-w-36"
-            >
-              Retake
-            </Button>
-            
-            <Button
-              size="lg"
-              onClick={useImage}
-              className="flex-1 max-w-36"
-            >
-              Use Photo
-            </Button>
-          </div>
+
+          {isCropping ? (
+            <div className="flex justify-center gap-4 py-6">
+              <Button
+                variant="outline"
+                size="lg"
+                onClick={cancelCrop}
+                className="flex-1 max-w-48"
+              >
+                Cancel
+              </Button>
+              <Button
+                size="lg"
+                onClick={applyCrop}
+                disabled={!cropRect}
+                isLoading={isPreparing}
+                icon={<Check size={18} />}
+                className="flex-1 max-w-48"
+              >
+                Apply Crop
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="flex justify-center gap-3 pt-4 overflow-x-auto">
+                {shots.map((shot, index) => (
+                  <div key={index} className="relative flex-shrink-0">
+                    <button
+                      onClick={() => setSelectedIndex(index)}
+                      className={cn(
+                        "block w-16 h-16 rounded-lg overflow-hidden border-2",
+                        index === selectedIndex ? "border-primary" : "border-transparent"
+                      )}
+                      aria-label={`View photo ${index + 1}`}
+                    >
+                      <img src={shot.src} alt="" className="w-full h-full object-cover" />
+                    </button>
+                    <button
+                      onClick={() => removeShot(index)}
+                      className="absolute -top-2 -right-2 p-0.5 bg-background border rounded-full text-foreground"
+                      aria-label={`Remove photo ${index + 1}`}
+                    >
+                      <X size={14} />
+                    </button>
+                    {showAngles && (
+                      <span className="block text-[10px] text-center text-muted-foreground mt-1 w-16 truncate">
+                        {shot.angle ? PHOTO_ANGLE_LABELS[shot.angle] : 'Other'}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-center gap-4 py-6">
+                {remainingShots > 0 && (
+                  <Button
+                    variant="outline"
+                    size="lg"
+                    onClick={addAnotherShot}
+                    icon={<Plus size={18} />}
+                    className="flex-1 max-w-48"
+                  >
+                    Add Another Shot
+                  </Button>
+                )}
+
+                <Button
+                  size="lg"
+                  onClick={analyzePhotos}
+                  icon={<Sparkles size={18} />}
+                  className="flex-1 max-w-48"
+                >
+                  {shots.length > 1 ? `Analyze ${shots.length} Photos` : 'Use Photo'}
+                </Button>
+              </div>
+            </>
+          )}
         </>
       )}
     </div>
@@ -3,6 +3,8 @@ import { X, Send, MessageSquare, Paperclip, Image as ImageIcon } from 'lucide-re
 import { cn } from '@/lib/utils';
 import Button from './Button';
 import { sendMessageToExpert } from '@/utils/expertChatService'; // Import the actual service
+import { ImageValidationError, prepareImageFile } from '@/utils/imageService';
+import { toast } from 'sonner';
 
 // Define the structure for chat messages
 interface ChatMessage {
@@ -189,11 +191,12 @@ const CulinaryExpertChat: React.FC<CulinaryExpertChatProps> = ({ isOpen, onClose
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setUploadedImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+      // Converts HEIC and other formats to a JPEG the vision model accepts
+      prepareImageFile(file)
+        .then(setUploadedImage)
+        .catch(error => {
+          toast.error(error instanceof ImageValidationError ? error.message : 'Could not read that image.');
+        });
     }
      // Reset file input value to allow re-uploading the same file
      if(event.target) event.target.value = '';
@@ -214,7 +217,7 @@ const CulinaryExpertChat: React.FC<CulinaryExpertChatProps> = ({ isOpen, onClose
         type="file"
         ref={fileInputRef}
         onChange={handleImageUpload}
-        accept="image/*"
+        accept="image/*,.heic,.heif"
         className="hidden"
       />
 
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ChefHat, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import Button from './Button';
+import { Input } from '@/components/ui/input';
+import type { DishCandidate } from '@/utils/api';
+
+interface DishCandidatesProps {
+  candidates: DishCandidate[];
+  photo?: string | null;
+  onChoose: (dishName: string) => void;
+  onStartOver: () => void;
+  className?: string;
+}
+
+/**
+ * Lets the user confirm which dish is in the photo, or name it themselves,
+ * before the full recipe is written
+ */
+const DishCandidates: React.FC<DishCandidatesProps> = ({
+  candidates,
+  photo,
+  onChoose,
+  onStartOver,
+  className
+}) => {
+  const [override, setOverride] = useState('');
+
+  const handleOverride = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (override.trim()) {
+      onChoose(override.trim());
+    }
+  };
+
+  return (
+    <div className={cn("max-w-screen-sm mx-auto w-full px-4 py-8", className)}>
+      <div className="flex items-center gap-4 mb-6">
+        {photo && (
+          <img
+            src={photo}
+            alt="Your dish"
+            className="w-20 h-20 rounded-xl object-cover flex-shrink-0"
+          />
+        )}
+        <div>
+          <h2 className="text-2xl font-display">Which dish is this?</h2>
+          <p className="text-sm text-muted-foreground">
+            Pick the closest match and we'll write the full recipe for it.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3 mb-8">
+        {candidates.map((candidate, index) => {
+          const percent = Math.round(candidate.confidence * 100);
+          return (
+            <button
+              key={`${candidate.name}-${index}`}
+              onClick={() => onChoose(candidate.name)}
+              className={cn(
+                "w-full text-left p-4 rounded-xl border bg-card transition-colors hover:border-primary hover:bg-primary/5",
+                index === 0 && "border-primary/50"
+              )}
+            >
+              <div className="flex items-center justify-between gap-4 mb-2">
+                <span className="font-medium">{candidate.name}</span>
+                <span className="text-sm text-muted-foreground flex-shrink-0">{percent}% match</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden mb-3">
+                <div className="h-full bg-primary rounded-full" style={{ width: `${percent}%` }}></div>
+              </div>
+              {candidate.components.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {candidate.components.map(component => (
+                    <span key={component} className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+                      {component}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleOverride} className="mb-6">
+        <label htmlFor="dish-override" className="block text-sm font-medium mb-2">
+          None of these? It's actually…
+        </label>
+        <div className="flex gap-2">
+          <Input
+            id="dish-override"
+            value={override}
+            onChange={(e) => setOverride(e.target.value)}
+            placeholder="e.g. Shakshuka with feta"
+          />
+          <Button type="submit" icon={<ChefHat size={18} />} disabled={!override.trim()}>
+            Get Recipe
+          </Button>
+        </div>
+      </form>
+
+      <Button variant="ghost" icon={<RotateCcw size={18} />} onClick={onStartOver}>
+        Start Over
+      </Button>
+    </div>
+  );
+};
+
+export default DishCandidates;
@@ -58,6 +58,69 @@ const Header: React.FC<HeaderProps> = ({
           >
             Home
           </Link>
+          <Link
+            to="/discover"
+            className={cn(
+              "text-sm font-medium transition-colors hover:text-primary",
+              location.pathname === '/discover' ? 'text-primary' : 'text-muted-foreground'
+            )}
+          >
+            Discover
+          </Link>
+          <Link
+            to="/search"
+            className={cn(
+              "text-sm font-medium transition-colors hover:text-primary",
+              location.pathname === '/search' ? 'text-primary' : 'text-muted-foreground'
+            )}
+          >
+            Search
+          </Link>
+          <Link
+            to="/saved"
+            className={cn(
+              "text-sm font-medium transition-colors hover:text-primary",
+              location.pathname === '/saved' ? 'text-primary' : 'text-muted-foreground'
+            )}
+          >
+            Saved
+          </Link>
+          <Link
+            to="/planner"
+            className={cn(
+              "text-sm font-medium transition-colors hover:text-primary",
+              location.pathname === '/planner' ? 'text-primary' : 'text-muted-foreground'
+            )}
+          >
+            Planner
+          </Link>
+          <Link
+            to="/shopping-list"
+            className={cn(
+              "text-sm font-medium transition-colors hover:text-primary",
+              location.pathname === '/shopping-list' ? 'text-primary' : 'text-muted-foreground'
+            )}
+          >
+            Shopping
+          </Link>
+          <Link
+            to="/import"
+            className={cn(
+              "text-sm font-medium transition-colors hover:text-primary",
+              location.pathname === '/import' ? 'text-primary' : 'text-muted-foreground'
+            )}
+          >
+            Import
+          </Link>
+          <Link
+            to="/profile"
+            className={cn(
+              "text-sm font-medium transition-colors hover:text-primary",
+              location.pathname === '/profile' ? 'text-primary' : 'text-muted-foreground'
+            )}
+          >
+            Diet
+          </Link>
           {rightAction && <div className="ml-4">{rightAction}</div>}
         </nav>
       </div>
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Repeat, Sparkles } from 'lucide-react';
+import Button from './Button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { Recipe } from './RecipeCard';
+import { findSubstitutions, Substitution } from '@/utils/substitutions';
+
+interface IngredientSwapProps {
+  /** The ingredient line as written in the recipe (not scaled or converted) */
+  line: string;
+  recipe: Pick<Recipe, 'title' | 'ingredients' | 'servings'>;
+  onApply: (substitution: Substitution) => void;
+}
+
+/**
+ * Swap button for an ingredient row, with substitution suggestions in a popover
+ */
+const IngredientSwap: React.FC<IngredientSwapProps> = ({ line, recipe, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<Substitution[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasError, setHasError] = useState(false);
+
+  const loadSuggestions = async () => {
+    setIsLoading(true);
+    setHasError(false);
+    try {
+      setSuggestions(await findSubstitutions(line, recipe));
+    } catch (error) {
+      console.error('Error finding substitutions:', error);
+      setHasError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open && suggestions === null && !isLoading) {
+      loadSuggestions();
+    }
+  };
+
+  const apply = (substitution: Substitution) => {
+    onApply(substitution);
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          className="ml-2 flex-shrink-0 h-7 w-7 rounded-full text-muted-foreground hover:text-foreground hover:bg-secondary flex items-center justify-center transition-colors"
+          aria-label={`Substitutes for ${line}`}
+        >
+          <Repeat size={14} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b border-border/50">
+          <p className="text-xs text-muted-foreground">Substitutes for</p>
+          <p className="text-sm font-medium">{line}</p>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center gap-2 px-4 py-6 text-sm text-muted-foreground">
+              <span className="inline-block h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+              Looking for substitutes…
+            </div>
+          ) : hasError ? (
+            <div className="px-4 py-4 text-sm text-muted-foreground">
+              <p className="mb-3">Could not load substitutes.</p>
+              <Button size="sm" variant="outline" onClick={loadSuggestions}>Try again</Button>
+            </div>
+          ) : suggestions && suggestions.length === 0 ? (
+            <p className="px-4 py-4 text-sm text-muted-foreground">
+              {navigator.onLine ? 'No good substitutes for this one.' : 'No saved substitutes for this one. Connect to the internet to ask the chef.'}
+            </p>
+          ) : (
+            suggestions?.map((substitution, index) => (
+              <div key={index} className="px-4 py-3 border-b border-border/30 last:border-b-0">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="font-medium text-sm">{substitution.replacement}</p>
+                    <p className="text-xs text-muted-foreground mt-0.5">{substitution.ratio}</p>
+                  </div>
+                  <Button size="sm" onClick={() => apply(substitution)} className="flex-shrink-0">
+                    Use
+                  </Button>
+                </div>
+                <dl className="mt-2 space-y-1 text-xs">
+                  <div className="flex gap-1.5">
+                    <dt className="text-muted-foreground">Texture:</dt>
+                    <dd>{substitution.texture}</dd>
+                  </div>
+                  <div className="flex gap-1.5">
+                    <dt className="text-muted-foreground">Flavor:</dt>
+                    <dd>{substitution.flavor}</dd>
+                  </div>
+                </dl>
+                {substitution.macroDelta === null && (
+                  <p className="mt-1 text-xs text-muted-foreground">Nutrition can't be recalculated for this amount.</p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {suggestions?.some(substitution => substitution.source === 'model') && (
+          <p className="flex items-center gap-1.5 px-4 py-2 border-t border-border/50 text-xs text-muted-foreground">
+            <Sparkles size={12} />
+            Suggested by AI. Check the amounts before baking.
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default IngredientSwap;
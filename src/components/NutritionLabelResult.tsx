@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, PlusCircle, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import Button from './Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getSavedRecipes, saveRecipe } from '@/lib/savedRecipes';
+import type { Recipe } from '@/types/recipe';
+import type { NutritionLabel } from '@/utils/api';
+import { addProductToRecipe, formatProductIngredient } from '@/utils/nutrition';
+import { getNutritionFactsRows } from '@/utils/recipePrint';
+
+interface NutritionLabelResultProps {
+  label: NutritionLabel;
+  photo?: string | null;
+  onStartOver: () => void;
+  className?: string;
+}
+
+/**
+ * A scanned nutrition label, with the option to add the product to a saved recipe
+ */
+const NutritionLabelResult: React.FC<NutritionLabelResultProps> = ({
+  label,
+  photo,
+  onStartOver,
+  className
+}) => {
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [isLoadingRecipes, setIsLoadingRecipes] = useState(true);
+  const [recipeId, setRecipeId] = useState('');
+  const [productServings, setProductServings] = useState('1');
+  const [isAdding, setIsAdding] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    getSavedRecipes().then(savedRecipes => {
+      setRecipes(savedRecipes);
+      setIsLoadingRecipes(false);
+    });
+  }, []);
+
+  const nutritionRows = getNutritionFactsRows(label.macros);
+  const amount = Number(productServings);
+  const isAmountValid = Number.isFinite(amount) && amount > 0;
+  const selectedRecipe = recipes.find(recipe => recipe.id === recipeId);
+
+  const handleAdd = async () => {
+    if (!selectedRecipe || !isAmountValid) return;
+
+    setIsAdding(true);
+    const updated = addProductToRecipe(selectedRecipe, label, amount);
+    const succeeded = await saveRecipe({ ...updated, macros: updated.macros || undefined });
+    setIsAdding(false);
+
+    if (!succeeded) {
+      toast.error('Could not update the recipe. Please try again.');
+      return;
+    }
+
+    toast.success(`Added ${label.productName} to "${selectedRecipe.title}"`);
+    navigate('/saved');
+  };
+
+  return (
+    <div className={cn("max-w-screen-md mx-auto w-full px-4 py-8", className)}>
+      <div className="flex items-center gap-4 mb-6">
+        {photo && (
+          <img
+            src={photo}
+            alt="Scanned label"
+            className="w-20 h-20 rounded-xl object-cover flex-shrink-0"
+          />
+        )}
+        <div>
+          <h2 className="text-2xl font-display">{label.productName}</h2>
+          <p className="text-sm text-muted-foreground">
+            Serving size {label.servingSize}
+            {label.servingsPerContainer && ` · ${label.servingsPerContainer} servings per container`}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 mb-8">
+        <section className="border-2 border-foreground p-3 rounded-sm">
+          <h3 className="text-2xl font-bold leading-tight">Nutrition Facts</h3>
+          <p className="text-xs border-b-8 border-foreground pb-1">Serving size {label.servingSize}</p>
+          <div className="flex justify-between items-end border-b-4 border-foreground py-1">
+            <span className="text-lg font-bold">Calories</span>
+            <span className="text-2xl font-bold">{Math.round(label.macros.calories || 0)}</span>
+          </div>
+          {nutritionRows.map(row => (
+            <div key={row.label} className="flex justify-between border-t border-foreground/40 text-xs py-0.5">
+              <span className={row.indent ? "pl-4" : ""}>
+                <span className={row.indent ? "" : "font-bold"}>{row.label}</span> {row.amount}
+              </span>
+              {row.dailyValue !== null && <span className="font-bold">{row.dailyValue}%</span>}
+            </div>
+          ))}
+        </section>
+
+        <div className="space-y-4">
+          <section>
+            <h3 className="text-sm font-medium mb-2">Allergens</h3>
+            {label.allergens.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {label.allergens.map(allergen => (
+                  <span key={allergen} className="flex items-center gap-1 text-xs px-2.5 py-1 rounded-full bg-destructive/10 text-destructive">
+                    <AlertTriangle size={12} />
+                    {allergen}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No allergens listed on the label.</p>
+            )}
+          </section>
+
+          {label.ingredients.length > 0 && (
+            <section>
+              <h3 className="text-sm font-medium mb-2">Ingredients</h3>
+              <p className="text-sm text-muted-foreground">{label.ingredients.join(', ')}</p>
+            </section>
+          )}
+        </div>
+      </div>
+
+      <section className="p-4 rounded-xl bg-muted/40 mb-6">
+        <h3 className="text-lg font-display mb-1">Add to a recipe</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          Adds the product as an ingredient and includes its label nutrition in the recipe's macros.
+        </p>
+
+        {!isLoadingRecipes && recipes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Save a recipe to your recipe box first, then you can add this product to it.</p>
+        ) : (
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+            <div className="flex-1">
+              <Label htmlFor="label-recipe" className="text-xs">Recipe</Label>
+              <Select value={recipeId} onValueChange={setRecipeId} disabled={isLoadingRecipes}>
+                <SelectTrigger id="label-recipe">
+                  <SelectValue placeholder={isLoadingRecipes ? 'Loading your recipes…' : 'Choose a saved recipe'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {recipes.map(recipe => (
+                    <SelectItem key={recipe.id} value={recipe.id}>{recipe.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="sm:w-32">
+              <Label htmlFor="label-servings" className="text-xs">Servings of product</Label>
+              <Input
+                id="label-servings"
+                type="number"
+                min={0.25}
+                step={0.25}
+                value={productServings}
+                onChange={(e) => setProductServings(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleAdd}
+              icon={<PlusCircle size={18} />}
+              isLoading={isAdding}
+              disabled={!selectedRecipe || !isAmountValid}
+            >
+              Add to Recipe
+            </Button>
+          </div>
+        )}
+
+        {selectedRecipe && isAmountValid && (
+          <p className="text-xs text-muted-foreground mt-3">
+            Adds "{formatProductIngredient(label, amount)}"
+            {selectedRecipe.macros
+              ? `, about ${Math.round((label.macros.calories || 0) * amount / (selectedRecipe.servings || 1))} kcal per recipe serving.`
+              : '. This recipe has no nutrition data, so its macros stay empty.'}
+          </p>
+        )}
+      </section>
+
+      <Button variant="ghost" icon={<RotateCcw size={18} />} onClick={onStartOver}>
+        Scan Another
+      </Button>
+    </div>
+  );
+};
+
+export default NutritionLabelResult;
@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, ChefHat, RotateCcw, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import Button from './Button';
+import RecipeCard from './RecipeCard';
+import type { Recipe } from './RecipeCard';
+import type { ApiResponse } from '@/utils/api';
+
+interface PantryModeProps {
+  photo?: string | null;
+  ingredients: string[];
+  recipes: ApiResponse['recipe'][] | null;
+  isFindingRecipes: boolean;
+  error?: string | null;
+  onIngredientsChange: (ingredients: string[]) => void;
+  onFindRecipes: () => void;
+  onStartOver: () => void;
+  className?: string;
+}
+
+const toCardRecipe = (recipe: ApiResponse['recipe'], index: number, batchId: string): Recipe => ({
+  id: `pantry-${batchId}-${index}`,
+  title: recipe.title,
+  description: recipe.description,
+  ingredients: recipe.ingredients,
+  instructions: recipe.instructions,
+  cookTime: recipe.cookTime || '30 mins',
+  servings: recipe.servings || 4,
+  imageUrl: 'https://via.placeholder.com/400',
+  tags: recipe.tags,
+  macros: recipe.macros,
+});
+
+/**
+ * "What can I cook?" results: the ingredients spotted in the photo, which the user can correct,
+ * and recipe ideas built around them
+ */
+const PantryMode: React.FC<PantryModeProps> = ({
+  photo,
+  ingredients,
+  recipes,
+  isFindingRecipes,
+  error,
+  onIngredientsChange,
+  onFindRecipes,
+  onStartOver,
+  className
+}) => {
+  const [ingredientInput, setIngredientInput] = useState('');
+
+  // Stable ids per batch, so saving a suggestion doesn't collide with an earlier batch
+  const cards = useMemo(() => {
+    const batchId = Date.now().toString(36);
+    return (recipes || []).map((recipe, index) => toCardRecipe(recipe, index, batchId));
+  }, [recipes]);
+
+  const addIngredients = (value: string) => {
+    const added = value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+    if (added.length === 0) return;
+    onIngredientsChange([...ingredients, ...added.filter(item => !ingredients.includes(item))]);
+    setIngredientInput('');
+  };
+
+  const handleIngredientKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addIngredients(ingredientInput);
+    } else if (e.key === 'Backspace' && ingredientInput === '' && ingredients.length > 0) {
+      onIngredientsChange(ingredients.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className={cn("max-w-screen-xl mx-auto w-full px-4 py-8", className)}>
+      <div className="flex items-center gap-4 mb-6">
+        {photo && (
+          <img
+            src={photo}
+            alt="Your fridge or pantry"
+            className="w-20 h-20 rounded-xl object-cover flex-shrink-0"
+          />
+        )}
+        <div>
+          <h2 className="text-2xl font-display">What can I cook?</h2>
+          <p className="text-sm text-muted-foreground">
+            Here's what we spotted. Remove anything that's wrong and add what the photo missed.
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-screen-md mb-6">
+        <div className="flex flex-wrap items-center gap-2 rounded-md border border-input bg-background px-3 py-2">
+          {ingredients.map(item => (
+            <span key={item} className="flex items-center gap-1 text-sm bg-secondary/30 rounded-full pl-3 pr-1 py-0.5">
+              {item}
+              <button
+                onClick={() => onIngredientsChange(ingredients.filter(other => other !== item))}
+                className="p-0.5 rounded-full hover:bg-secondary/60"
+                aria-label={`Remove ${item}`}
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          <input
+            value={ingredientInput}
+            onChange={(e) => setIngredientInput(e.target.value)}
+            onKeyDown={handleIngredientKeyDown}
+            onBlur={() => addIngredients(ingredientInput)}
+            placeholder={ingredients.length === 0 ? 'Add ingredients, e.g. eggs, spinach, feta' : 'Add another…'}
+            className="flex-1 min-w-[160px] bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            aria-label="Ingredients you have"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Press Enter or comma after each ingredient. Basics like salt, oil and flour are assumed.
+        </p>
+      </div>
+
+      {error && (
+        <div className="max-w-screen-md mb-6 p-4 bg-destructive/10 border border-destructive/30 rounded-lg flex items-center text-destructive">
+          <AlertCircle size={20} className="mr-3 flex-shrink-0" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4 mb-10">
+        <Button
+          onClick={onFindRecipes}
+          icon={<ChefHat size={18} />}
+          isLoading={isFindingRecipes}
+          disabled={ingredients.length === 0}
+        >
+          {recipes ? 'Suggest Different Recipes' : 'Find Recipes'}
+        </Button>
+        <Button variant="ghost" icon={<RotateCcw size={18} />} onClick={onStartOver} disabled={isFindingRecipes}>
+          Start Over
+        </Button>
+      </div>
+
+      {cards.length > 0 && (
+        <>
+          <h3 className="text-xl font-display mb-4">Recipe ideas</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {cards.map(recipe => (
+              <RecipeCard key={recipe.id} recipe={recipe} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PantryMode;
@@ -1,11 +1,31 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react'; // Added useMemo
-import { Clock, Users, BookOpen, Bookmark, BookmarkCheck, MessageCircle, Send, X, Info, Repeat, Paperclip, Image as ImageIcon } from 'lucide-react'; // Added icons
+import { Clock, Users, BookOpen, Bookmark, BookmarkCheck, MessageCircle, Send, X, Info, AlertTriangle, Repeat, Paperclip, Image as ImageIcon, Minus, Plus, ShoppingCart, Link2, Share2, Printer, FileDown, FileJson, Wand2 } from 'lucide-react'; // Added icons
+import { useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import Button from './Button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"; // Added Tooltip
 import { Switch } from "@/components/ui/switch"; // Added Switch
 import { Label } from "@/components/ui/label"; // Added Label
 import { sendMessageToChef } from '@/utils/chatService';
+import { isRecipeSaved, removeSavedRecipe, saveRecipe } from '@/lib/savedRecipes';
+import { toast } from 'sonner';
+import { formatIngredient, parseIngredient, scaleIngredient } from '@/utils/ingredientParser';
+import { convertIngredient, convertTemperatures, UNIT_SYSTEM_LABELS, UnitSystem } from '@/utils/unitConversion';
+import { useSettings } from '@/hooks/useSettings';
+import { addRecipesToShoppingList } from '@/utils/shoppingList';
+import { calculateDailyValuePercent, calculateMacroDistribution, scaleMacros } from '@/utils/nutrition';
+import { getRecipeFileName, PrintableRecipe } from '@/utils/recipePrint';
+import { recipeToJsonLd } from '@/utils/recipeJsonLd';
+import { exportRecipePdf } from '@/utils/recipePdf';
+import RecipePrintView from './RecipePrintView';
+import { ImageValidationError, prepareImageFile } from '@/utils/imageService';
+import { findDietaryConflicts } from '@/utils/dietaryProfile';
+import { adaptRecipe } from '@/utils/api';
+import { createRecipeVariant } from '@/utils/recipeAdaptation';
+import { applySubstitution, Substitution } from '@/utils/substitutions';
+import AdaptRecipeMenu from './AdaptRecipeMenu';
+import IngredientSwap from './IngredientSwap';
+import RecipeVariantDiff from './RecipeVariantDiff';
 
 // Define the structure for chat messages
 interface ChatMessage {
@@ -109,18 +129,32 @@ export interface Recipe {
   instructions: string[];
   tags?: string[];
   macros?: MacroNutrients;
+  parentRecipeId?: string; // Set on adapted versions, e.g. a vegan version of another recipe
+  variantLabel?: string; // What the version was adapted for, e.g. "Vegan"
 }
 
 interface RecipeCardProps {
   recipe: Recipe;
   className?: string;
   isFullView?: boolean;
+  onSaveChange?: (isSaved: boolean) => void; // Called when the recipe passed in (not an adapted version) is saved or removed
+  onOpen?: () => void; // Called when the compact card is opened into the full view
+  onClose?: () => void; // Called when the full view is closed
+  shareUrl?: string; // Permalink for the recipe; enables the copy link and share actions
+  onPublish?: () => Promise<void>; // Stores a recipe that has no permalink yet
+  analysisNote?: string; // How confident the photo analysis was, shown above the tabs
 }
 
 const RecipeCard: React.FC<RecipeCardProps> = ({
-  recipe,
+  recipe: cardRecipe,
   className,
-  isFullView = false
+  isFullView = false,
+  onSaveChange,
+  onOpen,
+  onClose,
+  shareUrl,
+  onPublish,
+  analysisNote
 }) => {
   const [isSaved, setIsSaved] = useState(false);
   const [activeTab, setActiveTab] = useState<'ingredients' | 'instructions' | 'nutrition'>('ingredients');
@@ -133,6 +167,19 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
   const [showFullView, setShowFullView] = useState(isFullView);
   const [showTotalNutrition, setShowTotalNutrition] = useState(false); // State for total nutrition view
   const [uploadedImage, setUploadedImage] = useState<string | null>(null); // State for uploaded image preview
+  const [servings, setServings] = useState(cardRecipe.servings || 1); // Servings the card is scaled to
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [variant, setVariant] = useState<Recipe | null>(null); // Adapted version, e.g. vegan
+  const [showVariant, setShowVariant] = useState(false);
+  const [isAdapting, setIsAdapting] = useState(false);
+  const { settings, updateSettings } = useSettings();
+  const { unitSystem } = settings;
+  const navigate = useNavigate();
+
+  // Everything below shows the adapted version while it is selected
+  const recipe = variant && showVariant ? variant : cardRecipe;
 
   // --- Refs ---
   const chatContainerRef = useRef<HTMLDivElement>(null);
@@ -159,6 +206,31 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
   }, [showFullView]); // Re-run effect when showFullView changes
   // -----------------------------------------
 
+  // --- Effect to load saved state from the recipe box ---
+  useEffect(() => {
+    let cancelled = false;
+    isRecipeSaved(recipe.id).then(saved => {
+      if (!cancelled) setIsSaved(saved);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [recipe.id]);
+  // -------------------------------------------------------
+
+  // --- Effect to drop an adapted version when a different recipe is passed in ---
+  useEffect(() => {
+    setVariant(null);
+    setShowVariant(false);
+  }, [cardRecipe.id]);
+  // -------------------------------------------------------------------------------
+
+  // --- Effect to reset scaling when a different recipe is shown ---
+  useEffect(() => {
+    setServings(recipe.servings || 1);
+  }, [recipe.id, recipe.servings]);
+  // ------------------------------------------------------------------
+
   // --- Effect to auto-scroll chat ---
   useEffect(() => {
     if (chatContainerRef.current) {
@@ -168,14 +240,53 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
   }, [chatMessages]); // Dependency array includes chatMessages
   // -----------------------------------
 
-  const toggleSave = (e?: React.MouseEvent) => {
+  const toggleSave = async (e?: React.MouseEvent) => {
     if (e) {
       e.stopPropagation();
     }
-    setIsSaved(!isSaved);
+    const nextSaved = !isSaved;
+    setIsSaved(nextSaved); // Optimistic update, reverted below if the write fails
+
+    const succeeded = nextSaved ? await saveRecipe(recipe) : await removeSavedRecipe(recipe.id);
+    if (!succeeded) {
+      setIsSaved(!nextSaved);
+      toast.error(nextSaved ? 'Could not save this recipe. Please try again.' : 'Could not remove this recipe. Please try again.');
+      return;
+    }
 
-    // In a real app, you would save this to local storage or a database
-    console.log(isSaved ? 'Recipe unsaved' : 'Recipe saved');
+    toast.success(nextSaved ? 'Recipe saved to your recipe box' : 'Recipe removed from your recipe box');
+    if (recipe === cardRecipe) {
+      onSaveChange?.(nextSaved);
+    }
+  };
+
+  // Adapts the recipe as shown, so adaptations can be stacked (e.g. vegan, then gluten-free)
+  const handleAdapt = async (instruction: string, label: string) => {
+    setIsAdapting(true);
+    try {
+      const adapted = await adaptRecipe(recipe, instruction);
+      setVariant(createRecipeVariant(recipe, adapted, label));
+      setShowVariant(true);
+      setActiveTab('ingredients');
+    } catch (error) {
+      console.error('Error adapting recipe:', error);
+      toast.error('Could not adapt this recipe. Please try again.');
+    } finally {
+      setIsAdapting(false);
+    }
+  };
+
+  // A swap also becomes an adapted version, so it can be compared, undone or saved the same way
+  const handleSwap = (index: number, substitution: Substitution) => {
+    const swapped = applySubstitution(recipe, index, substitution);
+    setVariant(createRecipeVariant(recipe, { ...recipe, ...swapped }, 'Customized'));
+    setShowVariant(true);
+    toast.success(`Swapped in ${substitution.replacement.toLowerCase()}`);
+  };
+
+  const discardVariant = () => {
+    setVariant(null);
+    setShowVariant(false);
   };
 
   const toggleChat = () => {
@@ -198,11 +309,12 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setUploadedImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+      // Converts HEIC and other formats to a JPEG the vision model accepts
+      prepareImageFile(file)
+        .then(setUploadedImage)
+        .catch(error => {
+          toast.error(error instanceof ImageValidationError ? error.message : 'Could not read that image.');
+        });
     }
     // Reset file input value to allow re-uploading the same file
     if (event.target) event.target.value = '';
@@ -473,6 +585,123 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
     });
   }, [recipe.instructions]);
 
+  const addToShoppingList = () => {
+    addRecipesToShoppingList([recipe]);
+    toast.success('Added to your shopping list', {
+      action: { label: 'View', onClick: () => navigate('/shopping-list') },
+    });
+  };
+
+  // --- Sharing ---
+  const canWebShare = typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+  const copyLink = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      toast.success('Link copied to clipboard');
+    } catch (error) {
+      console.error('Error copying recipe link:', error);
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const shareRecipe = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.share({ title: recipe.title, text: recipe.description, url: shareUrl });
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; anything else falls back to copying
+      if ((error as DOMException)?.name !== 'AbortError') {
+        await copyLink();
+      }
+    }
+  };
+
+  const publishRecipe = async () => {
+    if (!onPublish) return;
+    setIsPublishing(true);
+    try {
+      await onPublish();
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+  // -----------------
+
+  // --- Servings Scaling & Unit Conversion ---
+  const MAX_SERVINGS = 50;
+  const scaleFactor = servings / (recipe.servings || 1);
+
+  const scaledIngredients = useMemo(
+    () => recipe.ingredients.map(ingredient => {
+      const parsed = parseIngredient(ingredient);
+      if (parsed.quantity === null) return ingredient;
+      const adjusted = convertIngredient(scaleIngredient(parsed, scaleFactor), unitSystem);
+      // Show the line as written unless scaling or conversion changed it
+      return adjusted === parsed ? ingredient : formatIngredient(adjusted);
+    }),
+    [recipe.ingredients, scaleFactor, unitSystem]
+  );
+
+  // Ingredient lines that break the user's allergies, diets or dislikes, by line index
+  const dietaryConflicts = useMemo(
+    () => findDietaryConflicts(recipe.ingredients, settings.dietaryProfile),
+    [recipe.ingredients, settings.dietaryProfile]
+  );
+  const conflictReasons = useMemo(
+    () => new Map(dietaryConflicts.map(conflict => [conflict.index, conflict.reasons])),
+    [dietaryConflicts]
+  );
+
+  const changeServings = (delta: number) => {
+    setServings(current => Math.min(MAX_SERVINGS, Math.max(1, current + delta)));
+  };
+  // -------------------------
+
+  // --- Print, PDF & JSON-LD Export ---
+  // Print and PDF use the recipe as currently shown: scaled servings, converted units, cleaned-up steps
+  const printableRecipe = useMemo<PrintableRecipe>(() => ({
+    title: recipe.title,
+    description: recipe.description,
+    imageUrl: recipe.imageUrl,
+    cookTime: recipe.cookTime,
+    servings,
+    tags: recipe.tags,
+    ingredients: scaledIngredients,
+    instructions: processedInstructions
+      .filter(instruction => !instruction.isError && !instruction.isNutritionalInfo)
+      .map(instruction => instruction.isHeader
+        ? instruction.originalText
+        : convertTemperatures(instruction.content, unitSystem)),
+    macros: recipe.macros,
+  }), [recipe, servings, scaledIngredients, processedInstructions, unitSystem]);
+
+  const exportPdf = async () => {
+    setIsExportingPdf(true);
+    try {
+      await exportRecipePdf(printableRecipe);
+    } catch (error) {
+      console.error('Error exporting recipe PDF:', error);
+      toast.error('Could not create the PDF. Please try again.');
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  // JSON-LD describes the recipe as written, not the scaled view
+  const downloadJsonLd = () => {
+    const jsonLd = recipeToJsonLd(recipe, shareUrl);
+    const blob = new Blob([JSON.stringify(jsonLd, null, 2)], { type: 'application/ld+json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getRecipeFileName(recipe.title, 'jsonld');
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  // ---------------------------
+
   // Counter for actual steps (excluding headers)
   // let stepCounter = 0; // This seems unused, commenting out for now
 
@@ -480,45 +709,12 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
   const nutritionData = useMemo(() => {
     if (!recipe.macros) return null;
 
-    const servings = recipe.servings || 1; // Default to 1 serving if not specified
     const macros = recipe.macros;
 
-    // Reference Daily Values (based on a 2000 kcal diet)
-    const dv = {
-      calories: 2000,
-      totalFat: 78, // g
-      saturatedFat: 20, // g
-      sodium: 2300, // mg
-      carbs: 275, // g
-      fiber: 28, // g
-      protein: 50, // g
-      // Sugar doesn't have an official DV, but we can track it
-    };
-
     const calculateNutrition = (multiplier: number) => {
-      const current = {
-        calories: (macros.calories || 0) * multiplier,
-        protein: (macros.protein || 0) * multiplier,
-        carbs: (macros.carbs || 0) * multiplier,
-        fat: (macros.fat || 0) * multiplier,
-        saturatedFat: (macros.saturatedFat !== undefined ? macros.saturatedFat : null) === null ? null : (macros.saturatedFat || 0) * multiplier,
-        fiber: (macros.fiber !== undefined ? macros.fiber : null) === null ? null : (macros.fiber || 0) * multiplier,
-        sugar: (macros.sugar !== undefined ? macros.sugar : null) === null ? null : (macros.sugar || 0) * multiplier,
-        sodium: (macros.sodium !== undefined ? macros.sodium : null) === null ? null : (macros.sodium || 0) * multiplier,
-        netCarbs: (macros.carbs || 0) * multiplier - ((macros.fiber || 0) * multiplier),
-      };
-
+      const current = scaleMacros(macros, multiplier);
       // Calculate %DV only for per-serving view
-      const dvPercent = multiplier === 1 ? {
-        calories: dv.calories ? Math.round((current.calories / dv.calories) * 100) : null,
-        totalFat: dv.totalFat ? Math.round((current.fat / dv.totalFat) * 100) : null,
-        saturatedFat: dv.saturatedFat && current.saturatedFat !== null ? Math.round((current.saturatedFat / dv.saturatedFat) * 100) : null,
-        sodium: dv.sodium && current.sodium !== null ? Math.round((current.sodium / dv.sodium) * 100) : null,
-        carbs: dv.carbs ? Math.round((current.carbs / dv.carbs) * 100) : null,
-        fiber: dv.fiber && current.fiber !== null ? Math.round((current.fiber / dv.fiber) * 100) : null,
-        protein: dv.protein ? Math.round((current.protein / dv.protein) * 100) : null,
-      } : null;
-
+      const dvPercent = multiplier === 1 ? calculateDailyValuePercent(current) : null;
       return { ...current, dvPercent };
     };
 
@@ -526,22 +722,11 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
     const totalRecipe = calculateNutrition(servings);
 
     // Macronutrient distribution calculation (based on per serving)
-    // Calculate calories from each macronutrient
-    const proteinCalories = perServing.protein * 4;
-    const carbsCalories = perServing.carbs * 4;
-    const fatCalories = perServing.fat * 9;
-    const totalMacroCalories = proteinCalories + carbsCalories + fatCalories;
-
-    const distribution = totalMacroCalories > 0 ? {
-      protein: Math.round((proteinCalories / totalMacroCalories) * 100),
-      carbs: Math.round((carbsCalories / totalMacroCalories) * 100),
-      fat: Math.round((fatCalories / totalMacroCalories) * 100),
-    } : { protein: 0, carbs: 0, fat: 0 };
-
+    const distribution = calculateMacroDistribution(perServing);
 
     return { perServing, totalRecipe, distribution, servings };
 
-  }, [recipe.macros, recipe.servings]);
+  }, [recipe.macros, servings]);
   // -----------------------------
 
 
@@ -554,7 +739,10 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
           "group cursor-pointer flex flex-col h-full overflow-hidden rounded-xl border bg-card transition-shadow hover:shadow-lg",
           className
         )}
-        onClick={() => setShowFullView(true)}
+        onClick={() => {
+          setShowFullView(true);
+          onOpen?.();
+        }}
       >
         {/* Explicit container for the image, no padding, handles top rounding if card is rounded */}
         <div className="overflow-hidden relative">
@@ -609,7 +797,10 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
       <div className="relative max-w-4xl mx-auto pb-12">
         {/* Close button */}
         <button
-          onClick={() => setShowFullView(false)}
+          onClick={() => {
+            setShowFullView(false);
+            onClose?.();
+          }}
           className="fixed top-4 right-4 z-50 h-8 w-8 rounded-full bg-background/50 backdrop-blur-sm hover:bg-background flex items-center justify-center transition-colors"
         >
           <X size={18} />
@@ -642,14 +833,55 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
 
                 <div className="bg-white/15 backdrop-blur-sm rounded-full px-3 py-1.5 flex items-center text-white text-xs">
                   <Users size={14} className="mr-1.5" />
-                  {recipe.servings} servings
+                  {servings} servings
                 </div>
+
+                {recipe.variantLabel && (
+                  <div className="bg-white/15 backdrop-blur-sm rounded-full px-3 py-1.5 flex items-center text-white text-xs">
+                    <Wand2 size={14} className="mr-1.5" />
+                    {recipe.variantLabel} version
+                  </div>
+                )}
               </div>
             </div>
           </div>
 
           {/* Content */}
           <div className="px-4 sm:px-6 py-6 flex-1 max-w-3xl mx-auto w-full">
+            {analysisNote && (
+              <div className="mb-6 p-3 bg-muted/50 rounded-lg flex items-start gap-2 text-sm text-muted-foreground">
+                <Info size={16} className="mt-0.5 flex-shrink-0" />
+                <p>{analysisNote}</p>
+              </div>
+            )}
+
+            {variant && (
+              <RecipeVariantDiff
+                original={cardRecipe}
+                variant={variant}
+                showingVariant={showVariant}
+                onShowVariant={setShowVariant}
+                isSaved={isSaved}
+                onSave={toggleSave}
+                onDiscard={discardVariant}
+              />
+            )}
+
+            {dietaryConflicts.length > 0 && (
+              <div className="mb-6 p-4 bg-destructive/10 border border-destructive/30 rounded-lg flex items-start gap-3 text-sm">
+                <AlertTriangle size={18} className="mt-0.5 flex-shrink-0 text-destructive" />
+                <div>
+                  <p className="font-medium text-destructive">
+                    {dietaryConflicts.length === 1 ? '1 ingredient conflicts' : `${dietaryConflicts.length} ingredients conflict`} with your dietary profile
+                  </p>
+                  <p className="text-muted-foreground mt-1">
+                    {Array.from(new Set(dietaryConflicts.flatMap(conflict => conflict.reasons))).join(' · ')}.
+                    {' '}They are highlighted in the ingredient list. <button onClick={() => navigate('/profile')} className="underline hover:text-foreground">Edit profile</button>
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* Tabs */}
             <div className="flex border-b mb-6">
               <button
@@ -708,14 +940,78 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
                       </div>
                     </div>
                   ) : (
+                    <>
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm text-muted-foreground">
+                          {servings === recipe.servings ? 'Original recipe' : `Scaled from ${recipe.servings} servings`}
+                        </span>
+                        <div className="flex rounded-full border border-border p-0.5" role="group" aria-label="Unit system">
+                          {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map(system => (
+                            <button
+                              key={system}
+                              onClick={() => updateSettings({ unitSystem: system })}
+                              aria-pressed={unitSystem === system}
+                              className={cn(
+                                "px-2.5 py-0.5 rounded-full text-xs font-medium transition-colors",
+                                unitSystem === system
+                                  ? "bg-primary text-primary-foreground"
+                                  : "text-muted-foreground hover:text-foreground"
+                              )}
+                            >
+                              {UNIT_SYSTEM_LABELS[system]}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => changeServings(-1)}
+                          disabled={servings <= 1}
+                          className="h-8 w-8 rounded-full border border-border flex items-center justify-center hover:bg-secondary transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                          aria-label="Decrease servings"
+                        >
+                          <Minus size={14} />
+                        </button>
+                        <span className="min-w-[5.5rem] text-center text-sm font-medium">
+                          {servings} {servings === 1 ? 'serving' : 'servings'}
+                        </span>
+                        <button
+                          onClick={() => changeServings(1)}
+                          disabled={servings >= MAX_SERVINGS}
+                          className="h-8 w-8 rounded-full border border-border flex items-center justify-center hover:bg-secondary transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                          aria-label="Increase servings"
+                        >
+                          <Plus size={14} />
+                        </button>
+                      </div>
+                    </div>
                     <ul className="space-y-3">
-                      {recipe.ingredients.map((ingredient, index) => (
-                        <li key={index} className="flex items-start">
-                          <span className="w-2 h-2 mt-2 rounded-full bg-primary flex-shrink-0" />
-                          <span className="ml-4 leading-relaxed">{ingredient}</span>
-                        </li>
-                      ))}
+                      {scaledIngredients.map((ingredient, index) => {
+                        const reasons = conflictReasons.get(index);
+                        return (
+                          <li
+                            key={index}
+                            className={cn("flex items-start", reasons && "-mx-2 px-2 py-1 rounded-md bg-destructive/10")}
+                          >
+                            <span className={cn("w-2 h-2 mt-2 rounded-full flex-shrink-0", reasons ? "bg-destructive" : "bg-primary")} />
+                            <span className="ml-4 flex-1 leading-relaxed">
+                              {ingredient}
+                              {reasons && (
+                                <span className="block text-xs text-destructive">{reasons.join(' · ')}</span>
+                              )}
+                            </span>
+                            <IngredientSwap
+                              key={recipe.ingredients[index]}
+                              line={recipe.ingredients[index]}
+                              recipe={recipe}
+                              onApply={substitution => handleSwap(index, substitution)}
+                            />
+                          </li>
+                        );
+                      })}
                     </ul>
+                    </>
                   )}
 
                   {/* Recipe metadata */}
@@ -724,7 +1020,7 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
                     <ul className="space-y-2">
                       <li className="flex items-start">
                         <span className="w-2 h-2 mt-2 rounded-full bg-primary/60 flex-shrink-0" />
-                        <span className="ml-4 leading-relaxed">Serving Size: {recipe.servings} portions</span>
+                        <span className="ml-4 leading-relaxed">Serving Size: {servings} portions</span>
                       </li>
                       <li className="flex items-start">
                         <span className="w-2 h-2 mt-2 rounded-full bg-primary/60 flex-shrink-0" />
@@ -790,7 +1086,7 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
                                   <span className="text-primary font-medium text-sm transition-colors">{displayNumber}</span>
                                 </div>
                                 <div className="flex-1 pt-1.5">
-                                  <p className="text-foreground leading-relaxed">{instruction.content}</p>
+                                  <p className="text-foreground leading-relaxed">{convertTemperatures(instruction.content, unitSystem)}</p>
                                 </div>
                               </div>
                             );
@@ -809,7 +1105,7 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
                         <h3 className="text-lg font-medium">Nutritional Information</h3>
                         <div className="flex items-center space-x-2">
                           <Label htmlFor="nutrition-toggle" className="text-xs text-muted-foreground">
-                            {showTotalNutrition ? `Total (${nutritionData?.servings || recipe.servings} Servings)` : 'Per Serving'}
+                            {showTotalNutrition ? `Total (${nutritionData?.servings || servings} Servings)` : 'Per Serving'}
                           </Label>
                           <Switch
                             id="nutrition-toggle"
@@ -821,8 +1117,8 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
                       </div>
                       <p className="text-sm text-muted-foreground mb-6">
                         {showTotalNutrition
-                          ? `Values represent the entire recipe (${nutritionData?.servings || recipe.servings} servings).`
-                          : `Values per serving. Recipe makes ${nutritionData?.servings || recipe.servings} servings.`}
+                          ? `Values represent the entire recipe (${nutritionData?.servings || servings} servings).`
+                          : `Values per serving. Recipe makes ${nutritionData?.servings || servings} servings.`}
                         {!showTotalNutrition && (
                           <Tooltip>
                             <TooltipTrigger asChild>
@@ -1023,7 +1319,7 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
             </div> {/* End of Tab Content container */}
 
             {/* Action buttons */}
-            <div className="mt-8 flex justify-center gap-4">
+            <div className="mt-8 flex flex-wrap justify-center gap-4">
               <Button
                 onClick={toggleSave}
                 icon={isSaved ? <BookmarkCheck size={18} /> : <Bookmark size={18} />}
@@ -1039,17 +1335,86 @@ const RecipeCard: React.FC<RecipeCardProps> = ({
               >
                 Chat with the Chef
               </Button>
+
+              <AdaptRecipeMenu onAdapt={handleAdapt} isAdapting={isAdapting} />
+
+              <Button
+                onClick={addToShoppingList}
+                icon={<ShoppingCart size={18} />}
+                variant="outline"
+              >
+                Add to Shopping List
+              </Button>
+
+              <Button
+                onClick={() => setIsPrinting(true)}
+                icon={<Printer size={18} />}
+                variant="outline"
+              >
+                Print
+              </Button>
+
+              <Button
+                onClick={exportPdf}
+                icon={<FileDown size={18} />}
+                variant="outline"
+                isLoading={isExportingPdf}
+              >
+                Export PDF
+              </Button>
+
+              <Button
+                onClick={downloadJsonLd}
+                icon={<FileJson size={18} />}
+                variant="outline"
+              >
+                Recipe Data (JSON-LD)
+              </Button>
+
+              {shareUrl ? (
+                <>
+                  <Button
+                    onClick={copyLink}
+                    icon={<Link2 size={18} />}
+                    variant="outline"
+                  >
+                    Copy Link
+                  </Button>
+                  {canWebShare && (
+                    <Button
+                      onClick={shareRecipe}
+                      icon={<Share2 size={18} />}
+                      variant="outline"
+                    >
+                      Share
+                    </Button>
+                  )}
+                </>
+              ) : onPublish && (
+                <Button
+                  onClick={publishRecipe}
+                  icon={<Share2 size={18} />}
+                  variant="outline"
+                  isLoading={isPublishing}
+                >
+                  Get Shareable Link
+                </Button>
+              )}
             </div>
           </div> {/* End Content Container */}
         </div> {/* End flex flex-col w-full animate-fade-in */}
       </div> {/* End relative max-w-4xl mx-auto pb-12 */}
 
+      {isPrinting && (
+        <RecipePrintView recipe={printableRecipe} onDone={() => setIsPrinting(false)} />
+      )}
+
       {/* Hidden file input for image uploads */}
       <input
         type="file"
         ref={fileInputRef}
         onChange={handleImageUpload}
-        accept="image/*"
+        accept="image/*,.heic,.heif"
         className="hidden"
       />
 
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { getNutritionFactsRows, PrintableRecipe, toSectionLines } from '@/utils/recipePrint';
+
+interface RecipePrintViewProps {
+  recipe: PrintableRecipe;
+  onDone: () => void; // Called once the print dialog closes
+}
+
+const IMAGE_WAIT_MS = 3000;
+
+const SectionList: React.FC<{ lines: string[]; numbered: boolean }> = ({ lines, numbered }) => (
+  <div className="space-y-2">
+    {toSectionLines(lines).map((line, index) =>
+      line.type === 'heading' ? (
+        <h3 key={index} className="font-semibold text-base mt-4 mb-1 break-after-avoid">
+          {line.text}
+        </h3>
+      ) : (
+        <div key={index} className="flex gap-3 break-inside-avoid">
+          <span className={numbered ? "w-6 flex-shrink-0 text-right font-semibold" : "w-3 flex-shrink-0"}>
+            {numbered ? `${line.number}.` : '•'}
+          </span>
+          <p className="leading-relaxed">{line.text}</p>
+        </div>
+      )
+    )}
+  </div>
+);
+
+/**
+ * Print-only layout of a recipe. Mounting it opens the browser's print dialog
+ * with just this view (see the print styles in index.css).
+ */
+const RecipePrintView: React.FC<RecipePrintViewProps> = ({ recipe, onDone }) => {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  useEffect(() => {
+    let cancelled = false;
+    document.body.classList.add('printing-recipe');
+
+    const handleAfterPrint = () => onDoneRef.current();
+    window.addEventListener('afterprint', handleAfterPrint);
+
+    // Give the photo a moment to load so it makes it onto the page
+    const image = imageRef.current;
+    const imageReady = !image || image.complete
+      ? Promise.resolve()
+      : new Promise<void>(resolve => {
+          image.addEventListener('load', () => resolve(), { once: true });
+          image.addEventListener('error', () => resolve(), { once: true });
+          setTimeout(resolve, IMAGE_WAIT_MS);
+        });
+
+    imageReady.then(() => {
+      if (!cancelled) window.print();
+    });
+
+    return () => {
+      cancelled = true;
+      document.body.classList.remove('printing-recipe');
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, []);
+
+  const nutritionRows = recipe.macros ? getNutritionFactsRows(recipe.macros) : [];
+
+  return createPortal(
+    <div className="recipe-print bg-white text-black font-sans text-sm">
+      <header className="mb-4">
+        <h1 className="text-3xl font-display mb-2">{recipe.title}</h1>
+        <p className="text-gray-700 mb-2">{recipe.description}</p>
+        <p className="text-xs text-gray-500">
+          Cook time: {recipe.cookTime} · Serves {recipe.servings}
+          {recipe.tags && recipe.tags.length > 0 && ` · ${recipe.tags.join(', ')}`}
+        </p>
+      </header>
+
+      {recipe.imageUrl && (
+        <img
+          ref={imageRef}
+          src={recipe.imageUrl}
+          alt={recipe.title}
+          className="w-full max-h-[90mm] object-cover rounded-lg mb-6 break-inside-avoid"
+        />
+      )}
+
+      <section className="mb-6">
+        <h2 className="text-xl font-display border-b border-gray-300 pb-1 mb-3 break-after-avoid">Ingredients</h2>
+        <SectionList lines={recipe.ingredients} numbered={false} />
+      </section>
+
+      <section className="mb-6">
+        <h2 className="text-xl font-display border-b border-gray-300 pb-1 mb-3 break-after-avoid">Instructions</h2>
+        <SectionList lines={recipe.instructions} numbered={true} />
+      </section>
+
+      {recipe.macros && (
+        <section className="w-[80mm] border-2 border-black p-2 break-inside-avoid">
+          <h2 className="text-2xl font-bold font-sans tracking-normal leading-tight">Nutrition Facts</h2>
+          <p className="text-xs border-b-8 border-black pb-1">{recipe.servings} servings per recipe</p>
+          <p className="text-xs font-bold mt-1">Amount per serving</p>
+          <div className="flex justify-between items-end border-b-4 border-black pb-1">
+            <span className="text-xl font-bold">Calories</span>
+            <span className="text-2xl font-bold">{Math.round(recipe.macros.calories || 0)}</span>
+          </div>
+          <p className="text-xs font-bold text-right py-0.5">% Daily Value*</p>
+          {nutritionRows.map(row => (
+            <div key={row.label} className="flex justify-between border-t border-black text-xs py-0.5">
+              <span className={row.indent ? "pl-4" : ""}>
+                <span className={row.indent ? "" : "font-bold"}>{row.label}</span> {row.amount}
+              </span>
+              {row.dailyValue !== null && <span className="font-bold">{row.dailyValue}%</span>}
+            </div>
+          ))}
+          <p className="text-[10px] leading-snug border-t-4 border-black pt-1 mt-0.5">
+            * The % Daily Value tells you how much a nutrient in a serving contributes to a daily diet.
+            2,000 calories a day is used for general nutrition advice.
+          </p>
+        </section>
+      )}
+    </div>,
+    document.body
+  );
+};
+
+export default RecipePrintView;
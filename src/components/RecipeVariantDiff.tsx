@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { Bookmark, BookmarkCheck, ChevronDown, Minus, Plus, Wand2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import Button from './Button';
+import type { Recipe } from './RecipeCard';
+import { compareMacros, diffLines, LineDiff } from '@/utils/recipeAdaptation';
+
+interface RecipeVariantDiffProps {
+  original: Recipe;
+  variant: Recipe;
+  /** Whether the card currently shows the variant rather than the original */
+  showingVariant: boolean;
+  onShowVariant: (show: boolean) => void;
+  /** Saved state of the variant; the save button is only offered while the variant is shown */
+  isSaved: boolean;
+  onSave: () => void;
+  onDiscard: () => void;
+}
+
+interface ChangedLinesProps {
+  title: string;
+  diff: LineDiff[];
+  /** Noun for the unchanged count, e.g. "ingredients" */
+  unit: string;
+}
+
+/**
+ * Lists only the added and removed lines of a diff, with a count of the rest
+ */
+const ChangedLines: React.FC<ChangedLinesProps> = ({ title, diff, unit }) => {
+  const changed = diff.filter(line => line.change !== 'unchanged');
+  const unchangedCount = diff.length - changed.length;
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-2">{title}</h4>
+      {changed.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes.</p>
+      ) : (
+        <ul className="space-y-1">
+          {changed.map((line, index) => (
+            <li
+              key={index}
+              className={cn(
+                "flex items-start gap-2 text-sm rounded-md px-2 py-1",
+                line.change === 'added'
+                  ? "bg-green-500/10 text-green-800 dark:text-green-300"
+                  : "bg-destructive/10 text-destructive line-through decoration-destructive/50"
+              )}
+            >
+              {line.change === 'added'
+                ? <Plus size={14} className="mt-0.5 flex-shrink-0" aria-label="Added" />
+                : <Minus size={14} className="mt-0.5 flex-shrink-0" aria-label="Removed" />}
+              <span>{line.text}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {unchangedCount > 0 && changed.length > 0 && (
+        <p className="text-xs text-muted-foreground mt-2">{unchangedCount} {unit} unchanged</p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Shows what an adaptation changed compared with the original recipe,
+ * and lets the user switch between the two or keep the new version
+ */
+const RecipeVariantDiff: React.FC<RecipeVariantDiffProps> = ({
+  original,
+  variant,
+  showingVariant,
+  onShowVariant,
+  isSaved,
+  onSave,
+  onDiscard
+}) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const ingredientDiff = useMemo(
+    () => diffLines(original.ingredients, variant.ingredients),
+    [original.ingredients, variant.ingredients]
+  );
+  const instructionDiff = useMemo(
+    () => diffLines(original.instructions, variant.instructions),
+    [original.instructions, variant.instructions]
+  );
+  const macroChanges = useMemo(
+    () => compareMacros(original.macros, variant.macros),
+    [original.macros, variant.macros]
+  );
+
+  return (
+    <div className="mb-6 rounded-lg border border-primary/30 bg-primary/5">
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4">
+        <div className="flex items-center gap-2">
+          <Wand2 size={18} className="text-primary flex-shrink-0" />
+          <div>
+            <p className="font-medium">{variant.variantLabel} version</p>
+            <p className="text-xs text-muted-foreground">Adapted from "{original.title}"</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-full border border-border p-0.5" role="group" aria-label="Recipe version">
+            {[false, true].map(isVariant => (
+              <button
+                key={String(isVariant)}
+                onClick={() => onShowVariant(isVariant)}
+                aria-pressed={showingVariant === isVariant}
+                className={cn(
+                  "px-2.5 py-0.5 rounded-full text-xs font-medium transition-colors",
+                  showingVariant === isVariant
+                    ? "bg-primary text-primary-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {isVariant ? 'Adapted' : 'Original'}
+              </button>
+            ))}
+          </div>
+          {showingVariant && (
+            <Button
+              size="sm"
+              onClick={onSave}
+              icon={isSaved ? <BookmarkCheck size={14} /> : <Bookmark size={14} />}
+              variant={isSaved ? 'secondary' : 'primary'}
+            >
+              {isSaved ? 'Version saved' : 'Save version'}
+            </Button>
+          )}
+          <button
+            onClick={onDiscard}
+            className="h-8 w-8 rounded-full hover:bg-secondary flex items-center justify-center transition-colors"
+            aria-label="Discard adapted version"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-2 border-t border-primary/20 text-sm text-muted-foreground hover:text-foreground"
+        aria-expanded={isExpanded}
+      >
+        What changed
+        <ChevronDown size={16} className={cn("transition-transform", isExpanded && "rotate-180")} />
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 space-y-5">
+          <ChangedLines title="Ingredients" diff={ingredientDiff} unit="ingredients" />
+          <ChangedLines title="Instructions" diff={instructionDiff} unit="steps" />
+
+          {macroChanges.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium mb-2">Nutrition per serving</h4>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {macroChanges.map(macro => {
+                  const delta = macro.before !== null && macro.after !== null ? macro.after - macro.before : null;
+                  return (
+                    <div key={macro.key} className="rounded-md bg-background/60 px-3 py-2">
+                      <p className="text-xs text-muted-foreground">{macro.label}</p>
+                      <p className="text-sm">
+                        <span className="text-muted-foreground">{macro.before ?? '–'}</span>
+                        {' → '}
+                        <span className="font-medium">{macro.after ?? '–'}</span>
+                        <span className="text-xs text-muted-foreground"> {macro.unit}</span>
+                      </p>
+                      {delta !== null && delta !== 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {delta > 0 ? '+' : ''}{delta} {macro.unit}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecipeVariantDiff;
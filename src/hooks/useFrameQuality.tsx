@@ -0,0 +1,58 @@
+import { RefObject, useEffect, useState } from 'react';
+import {
+  FRAME_SAMPLE_WIDTH,
+  FrameQualityIssue,
+  getFrameQualityIssue,
+  measureFrameQuality,
+} from '@/utils/frameQuality';
+
+const SAMPLE_INTERVAL_MS = 500;
+
+// A hint only appears after this many bad frames in a row, so it doesn't flicker while the camera refocuses
+const CONSECUTIVE_SAMPLES = 2;
+
+/**
+ * Samples a playing camera preview and reports whether the frame is too dark or too blurry
+ * @param videoRef The camera preview element
+ * @param enabled Whether the preview is live
+ */
+export function useFrameQuality(videoRef: RefObject<HTMLVideoElement>, enabled: boolean): FrameQualityIssue | null {
+  const [issue, setIssue] = useState<FrameQualityIssue | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setIssue(null);
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return;
+
+    let lastIssue: FrameQualityIssue | null = null;
+    let repeats = 0;
+
+    const sample = () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+      canvas.width = FRAME_SAMPLE_WIDTH;
+      canvas.height = Math.round(FRAME_SAMPLE_WIDTH * video.videoHeight / video.videoWidth);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const current = getFrameQualityIssue(measureFrameQuality(context.getImageData(0, 0, canvas.width, canvas.height)));
+      repeats = current === lastIssue ? repeats + 1 : 1;
+      lastIssue = current;
+      if (current === null || repeats >= CONSECUTIVE_SAMPLES) {
+        setIssue(current);
+      }
+    };
+
+    const interval = window.setInterval(sample, SAMPLE_INTERVAL_MS);
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [videoRef, enabled]);
+
+  return issue;
+}
@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { isOfflineStoreSupported } from '@/utils/offlineStore';
+import { processPhotoQueue } from '@/utils/offlineQueue';
+import { showNotification } from '@/utils/notifications';
+
+// navigator.onLine can stay true on a dead connection, so the queue is also retried on a timer
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Analyzes photos queued while offline whenever the app is online,
+ * and tells the user when each recipe is ready
+ */
+export function useOfflineQueue(): void {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!isOfflineStoreSupported()) return;
+
+    const processQueue = () => {
+      processPhotoQueue({
+        onRecipeReady: recipe => {
+          toast.success(`Your recipe for ${recipe.title} is ready`, {
+            description: 'It was analyzed after you came back online and saved to your recipe box.',
+            action: { label: 'View', onClick: () => navigate('/saved') }
+          });
+          showNotification('Recipe ready', `${recipe.title} is in your recipe box.`, '/saved');
+        },
+        onAnalysisFailed: () => {
+          toast.error('A photo taken offline could not be analyzed. Please try it again.');
+        }
+      });
+    };
+
+    processQueue();
+    window.addEventListener('online', processQueue);
+    const interval = window.setInterval(processQueue, RETRY_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('online', processQueue);
+      window.clearInterval(interval);
+    };
+  }, [navigate]);
+}
@@ -0,0 +1,81 @@
+import { useEffect } from 'react';
+
+interface PageMeta {
+  title?: string;
+  description?: string;
+  image?: string;
+  url?: string;
+  type?: string;
+  /** Structured data embedded as <script type="application/ld+json"> */
+  jsonLd?: object;
+}
+
+/**
+ * Sets a <meta> tag in the document head and returns a function that restores it
+ */
+const setMetaTag = (attribute: 'name' | 'property', key: string, content: string): (() => void) => {
+  let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  const previous = element?.getAttribute('content') ?? null;
+
+  if (!element) {
+    element = document.createElement('meta');
+    element.setAttribute(attribute, key);
+    document.head.appendChild(element);
+  }
+  element.setAttribute('content', content);
+
+  return () => {
+    if (previous === null) {
+      element.remove();
+    } else {
+      element.setAttribute('content', previous);
+    }
+  };
+};
+
+/**
+ * Sets the document title plus the description, Open Graph tags and JSON-LD while the page is mounted.
+ * Link previewers that don't run JavaScript only see the tags in index.html.
+ */
+export function usePageMeta({ title, description, image, url, type = 'website', jsonLd }: PageMeta): void {
+  const structuredData = jsonLd ? JSON.stringify(jsonLd) : null;
+
+  useEffect(() => {
+    if (!structuredData) return;
+
+    const script = document.createElement('script');
+    script.type = 'application/ld+json';
+    script.text = structuredData;
+    document.head.appendChild(script);
+    return () => script.remove();
+  }, [structuredData]);
+
+  useEffect(() => {
+    const restorers: Array<() => void> = [];
+    const previousTitle = document.title;
+
+    if (title) {
+      document.title = `${title} | RecipeSnap`;
+      restorers.push(setMetaTag('property', 'og:title', title));
+      restorers.push(setMetaTag('name', 'twitter:title', title));
+    }
+    if (description) {
+      restorers.push(setMetaTag('name', 'description', description));
+      restorers.push(setMetaTag('property', 'og:description', description));
+    }
+    // Inline photos (data: URLs) can't be fetched by link previews
+    if (image && !image.startsWith('data:')) {
+      restorers.push(setMetaTag('property', 'og:image', image));
+      restorers.push(setMetaTag('name', 'twitter:card', 'summary_large_image'));
+    }
+    if (url) {
+      restorers.push(setMetaTag('property', 'og:url', url));
+    }
+    restorers.push(setMetaTag('property', 'og:type', type));
+
+    return () => {
+      document.title = previousTitle;
+      restorers.reverse().forEach(restore => restore());
+    };
+  }, [title, description, image, url, type]);
+}
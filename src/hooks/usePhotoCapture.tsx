@@ -1,19 +1,54 @@
 import { useState, useCallback } from 'react';
-import { analyzeFood, ApiResponse } from '@/utils/api';
+import {
+  analyzeFood,
+  ApiResponse,
+  detectIngredients,
+  DishCandidate,
+  FoodPhoto,
+  identifyDish,
+  MAX_FOOD_PHOTOS,
+  NutritionLabel,
+  scanNutritionLabel,
+  suggestRecipesFromIngredients
+} from '@/utils/api';
+import { isXaiConnectionError } from '@/utils/xaiErrors';
+import { isOfflineStoreSupported } from '@/utils/offlineStore';
+import { queuePhotosForLater, shouldQueueOffline } from '@/utils/offlineQueue';
+import { requestNotificationPermission } from '@/utils/notifications';
+import { ImageValidationError, prepareImageFile, validateImage } from '@/utils/imageService';
+
+/**
+ * 'dish' photographs a finished dish, 'pantry' fridge shelves or pantry items,
+ * and 'label' the nutrition label of a packaged food
+ */
+export type CaptureMode = 'dish' | 'pantry' | 'label';
 
 interface UsePhotoCaptureReturn {
-  photo: string | null;
+  mode: CaptureMode;
+  photo: string | null; // First shot, used as the recipe image
+  photos: FoodPhoto[];
   isCapturingPhoto: boolean;
-  isProcessing: boolean;
-  startCapture: () => void;
+  isIdentifying: boolean; // First pass: dish candidates, or the visible ingredients in pantry mode
+  isProcessing: boolean; // Second pass: the full recipe, or recipe suggestions in pantry mode
+  candidates: DishCandidate[] | null; // Shown for the user to pick from before the recipe is written
+  detectedIngredients: string[] | null; // Pantry mode, editable before recipes are suggested
+  pantryRecipes: ApiResponse['recipe'][] | null;
+  nutritionLabel: NutritionLabel | null; // Label mode result
+  isQueued: boolean; // Taken offline and waiting to be analyzed once the connection returns
+  startCapture: (mode?: CaptureMode) => void;
   cancelCapture: () => void;
-  submitPhoto: (photoSrc: string) => void;
-  handleFileUpload: (file: File) => void;
+  submitPhoto: (photoSrc: string | FoodPhoto[]) => void;
+  handleFileUpload: (files: File | File[]) => void;
+  chooseDish: (dishName: string) => void;
+  updateIngredients: (ingredients: string[]) => void;
+  findRecipes: () => void;
   reset: () => void;
   error: string | null;
   recipeData: ApiResponse | null;
 }
 
+const CONNECTION_ERROR_MESSAGE = 'Connection to the recipe service failed. Please check your internet connection and try again.';
+
 /**
  * Helper function to clean any markdown formatting for validation purposes
  */
@@ -29,13 +64,21 @@ const cleanForValidation = (text: string): string => {
 };
 
 export function usePhotoCapture(): UsePhotoCaptureReturn {
-  const [photo, setPhoto] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<FoodPhoto[]>([]);
   const [isCapturingPhoto, setIsCapturingPhoto] = useState(false);
+  const [isIdentifying, setIsIdentifying] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [candidates, setCandidates] = useState<DishCandidate[] | null>(null);
+  const [mode, setMode] = useState<CaptureMode>('dish');
+  const [detectedIngredients, setDetectedIngredients] = useState<string[] | null>(null);
+  const [pantryRecipes, setPantryRecipes] = useState<ApiResponse['recipe'][] | null>(null);
+  const [nutritionLabel, setNutritionLabel] = useState<NutritionLabel | null>(null);
+  const [isQueued, setIsQueued] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [recipeData, setRecipeData] = useState<ApiResponse | null>(null);
 
-  const startCapture = useCallback(() => {
+  const startCapture = useCallback((captureMode: CaptureMode = 'dish') => {
+    setMode(captureMode);
     setIsCapturingPhoto(true);
     setError(null);
   }, []);
@@ -44,19 +87,36 @@ export function usePhotoCapture(): UsePhotoCaptureReturn {
     setIsCapturingPhoto(false);
   }, []);
 
-  const processPhoto = useCallback(async (photoSrc: string) => {
-    setPhoto(photoSrc);
-    setIsCapturingPhoto(false);
+  // Dish photos taken without a connection are kept and analyzed later (see useOfflineQueue)
+  const queueForLater = useCallback(async (shots: FoodPhoto[], dishName?: string): Promise<boolean> => {
+    if (!isOfflineStoreSupported()) return false;
+    try {
+      await queuePhotosForLater(shots, dishName);
+      setIsQueued(true);
+      setCandidates(null);
+      requestNotificationPermission();
+      return true;
+    } catch (err) {
+      console.error('Error queueing photo for later:', err);
+      return false;
+    }
+  }, []);
+
+  const generateRecipe = useCallback(async (shots: FoodPhoto[], dishName?: string) => {
+    setCandidates(null);
     setIsProcessing(true);
     setError(null);
+
+    const totalSize = shots.reduce((size, shot) => size + shot.src.length, 0);
     
     try {
-      console.log("Processing photo, size:", Math.round(photoSrc.length / 1024), "KB");
+      console.log(`Processing ${shots.length} photo(s)${dishName ? ` as "${dishName}"` : ''}, size:`, Math.round(totalSize / 1024), "KB");
       
-      // Send the photo to the XAI Vision API
-      const result = await analyzeFood(photoSrc);
+      // Send every shot to the XAI Vision API in one request
+      const result = await analyzeFood(shots, dishName);
       
       console.log("Recipe data received:", {
+        parseMode: result.parseMode,
         title: result.recipe.title,
         description: result.recipe.description?.substring(0, 50) + "...",
         ingredients: result.recipe.ingredients?.length || 0,
@@ -81,13 +141,15 @@ export function usePhotoCapture(): UsePhotoCaptureReturn {
       console.error('Error processing photo:', err);
       
       // Provide more specific error messages based on the error
-      if (err.message && err.message.includes("API request failed")) {
-        setError('Connection to the recipe service failed. Please check your internet connection and try again.');
+      if (shouldQueueOffline(err) && await queueForLater(shots, dishName)) {
+        setError(null);
+      } else if (isXaiConnectionError(err)) {
+        setError(CONNECTION_ERROR_MESSAGE);
       } else if (err.message && err.message.includes("Failed to generate")) {
         setError(err.message);
       } else if (err.message && err.message.includes("Couldn't identify")) {
         setError(err.message);
-      } else if (photoSrc.length > 10 * 1024 * 1024) { // 10MB limit
+      } else if (totalSize > 10 * 1024 * 1024) { // 10MB limit
         setError('The image is too large. Please use a smaller image (under 10MB).');
       } else {
         setError('Failed to analyze the food image. Please try again with a different photo.');
@@ -98,56 +160,198 @@ export function usePhotoCapture(): UsePhotoCaptureReturn {
     } finally {
       setIsProcessing(false);
     }
-  }, []);
+  }, [queueForLater]);
 
-  const submitPhoto = useCallback((photoSrc: string) => {
-    processPhoto(photoSrc);
-  }, [processPhoto]);
+  const processPantryPhoto = useCallback(async (shots: FoodPhoto[]) => {
+    setPhotos(shots);
+    setIsCapturingPhoto(false);
+    setIsIdentifying(true);
+    setError(null);
+    setPantryRecipes(null);
+
+    try {
+      const found = await detectIngredients(shots);
+      console.log(`Detected ${found.length} ingredient(s):`, found);
+      if (found.length === 0) {
+        setError("Couldn't spot any ingredients. Try a closer, well-lit photo of your shelves, or add ingredients by hand.");
+      }
+      // An empty list is still shown, so ingredients can be typed in
+      setDetectedIngredients(found);
+    } catch (err) {
+      console.error('Error detecting ingredients:', err);
+      setError(isXaiConnectionError(err)
+        ? CONNECTION_ERROR_MESSAGE
+        : 'Failed to read the ingredients in this photo. Please try again with a different photo.');
+    } finally {
+      setIsIdentifying(false);
+    }
+  }, []);
 
-  const handleFileUpload = useCallback((file: File) => {
+  const processLabelPhoto = useCallback(async (shots: FoodPhoto[]) => {
+    setPhotos(shots);
+    setIsCapturingPhoto(false);
+    setIsIdentifying(true);
     setError(null);
-    
-    // Check file type
-    if (!file.type.startsWith('image/')) {
-      setError('Please select an image file');
+    setNutritionLabel(null);
+
+    try {
+      const label = await scanNutritionLabel(shots);
+      console.log("Nutrition label read:", label.productName, label.servingSize);
+      setNutritionLabel(label);
+    } catch (err) {
+      console.error('Error scanning nutrition label:', err);
+      setError(isXaiConnectionError(err)
+        ? CONNECTION_ERROR_MESSAGE
+        : "Couldn't read a nutrition label in this photo. Try a straight-on, well-lit shot of the Nutrition Facts panel.");
+    } finally {
+      setIsIdentifying(false);
+    }
+  }, []);
+
+  const findRecipes = useCallback(async () => {
+    const ingredients = (detectedIngredients || []).map(ingredient => ingredient.trim()).filter(Boolean);
+    if (ingredients.length === 0) {
+      setError('Add at least one ingredient to get recipe ideas.');
       return;
     }
-    
-    // Check file size (10MB limit for the API)
-    if (file.size > 10 * 1024 * 1024) {
-      setError('The image is too large. Please select an image under 10MB.');
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      setPantryRecipes(await suggestRecipesFromIngredients(ingredients));
+    } catch (err) {
+      console.error('Error suggesting recipes:', err);
+      setError(isXaiConnectionError(err)
+        ? CONNECTION_ERROR_MESSAGE
+        : "Couldn't come up with recipes for these ingredients. Please try again.");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [detectedIngredients]);
+
+  const updateIngredients = useCallback((ingredients: string[]) => {
+    setDetectedIngredients(ingredients);
+    // Suggestions no longer match once the list changes
+    setPantryRecipes(null);
+  }, []);
+
+  const processPhoto = useCallback(async (shots: FoodPhoto[]) => {
+    setPhotos(shots);
+    setIsCapturingPhoto(false);
+    setError(null);
+    setRecipeData(null);
+    setIsQueued(false);
+
+    if (shouldQueueOffline() && await queueForLater(shots)) {
       return;
     }
-    
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const result = event.target?.result as string;
-      if (result) {
-        processPhoto(result);
+
+    setIsIdentifying(true);
+    try {
+      // Quick first pass so the user can correct a wrong guess before the long recipe call
+      const found = await identifyDish(shots);
+      console.log("Dish candidates:", found.map(candidate => `${candidate.name} (${Math.round(candidate.confidence * 100)}%)`));
+      setCandidates(found);
+    } catch (err) {
+      console.error('Error identifying dish:', err);
+      if (shouldQueueOffline(err) && await queueForLater(shots)) {
+        return;
+      }
+      if (isXaiConnectionError(err)) {
+        setError(CONNECTION_ERROR_MESSAGE);
+      } else {
+        // Without candidates, let the recipe call identify the dish itself
+        generateRecipe(shots);
       }
-    };
-    reader.onerror = () => {
-      setError('Error reading file. Please try a different image.');
-    };
-    reader.readAsDataURL(file);
+    } finally {
+      setIsIdentifying(false);
+    }
+  }, [generateRecipe, queueForLater]);
+
+  const chooseDish = useCallback((dishName: string) => {
+    const name = dishName.trim();
+    if (photos.length > 0 && name) {
+      generateRecipe(photos, name);
+    }
+  }, [photos, generateRecipe]);
+
+  const submitPhoto = useCallback((photoSrc: string | FoodPhoto[]) => {
+    const shots = typeof photoSrc === 'string' ? [{ src: photoSrc }] : photoSrc;
+    if (mode === 'pantry') {
+      processPantryPhoto(shots);
+    } else if (mode === 'label') {
+      processLabelPhoto(shots);
+    } else {
+      processPhoto(shots);
+    }
+  }, [mode, processPhoto, processPantryPhoto, processLabelPhoto]);
+
+  // Uploads from the home page are always dish photos; pantry photos come through the camera view
+  const handleFileUpload = useCallback((files: File | File[]) => {
+    setMode('dish');
+    setError(null);
+
+    const selected = Array.isArray(files) ? files : [files];
+    if (selected.length > MAX_FOOD_PHOTOS) {
+      console.warn(`Only the first ${MAX_FOOD_PHOTOS} of ${selected.length} photos will be analyzed`);
+    }
+    const images = selected.slice(0, MAX_FOOD_PHOTOS);
+
+    const invalid = images.map(validateImage).find(validation => !validation.isValid);
+    if (invalid) {
+      setError(invalid.error || 'Please select an image file');
+      return;
+    }
+
+    // Orients, downscales and strips metadata before anything is uploaded
+    Promise.all(images.map(file => prepareImageFile(file)))
+      .then(results => {
+        const shots = results.filter(Boolean).map(src => ({ src }));
+        if (shots.length > 0) {
+          processPhoto(shots);
+        }
+      })
+      .catch(error => {
+        setError(error instanceof ImageValidationError
+          ? error.message
+          : 'Error reading file. Please try a different image.');
+      });
   }, [processPhoto]);
 
   const reset = useCallback(() => {
-    setPhoto(null);
+    setPhotos([]);
     setIsCapturingPhoto(false);
+    setIsIdentifying(false);
     setIsProcessing(false);
+    setCandidates(null);
+    setDetectedIngredients(null);
+    setPantryRecipes(null);
+    setNutritionLabel(null);
+    setIsQueued(false);
+    setMode('dish');
     setError(null);
     setRecipeData(null);
   }, []);
 
   return {
-    photo,
+    mode,
+    photo: photos[0]?.src ?? null,
+    photos,
     isCapturingPhoto,
+    isIdentifying,
     isProcessing,
+    candidates,
+    detectedIngredients,
+    pantryRecipes,
+    nutritionLabel,
+    isQueued,
     startCapture,
     cancelCapture,
     submitPhoto,
     handleFileUpload,
+    chooseDish,
+    updateIngredients,
+    findRecipes,
     reset,
     error,
     recipeData
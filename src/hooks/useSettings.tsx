@@ -0,0 +1,25 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  AppSettings,
+  getSettings,
+  subscribeToSettings,
+  updateSettings as persistSettings,
+} from '@/utils/settings';
+
+interface UseSettingsReturn {
+  settings: AppSettings;
+  updateSettings: (changes: Partial<AppSettings>) => void;
+}
+
+/**
+ * Reads the persisted user settings and re-renders when they change
+ */
+export function useSettings(): UseSettingsReturn {
+  const settings = useSyncExternalStore(subscribeToSettings, getSettings);
+
+  const updateSettings = useCallback((changes: Partial<AppSettings>) => {
+    persistSettings(changes);
+  }, []);
+
+  return { settings, updateSettings };
+}
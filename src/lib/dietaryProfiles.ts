@@ -0,0 +1,96 @@
+import { supabase } from './supabase'
+import { getOwnerId, OWNER_ID_HEADER } from './savedRecipes'
+import type { DietaryProfile } from '@/utils/dietaryProfile'
+
+const DIETARY_PROFILES_TABLE = 'dietary_profiles'
+
+interface DietaryProfileRow {
+  owner_id: string
+  allergies: string[] | null
+  diets: string[] | null
+  dislikes: string[] | null
+  updated_at: string
+}
+
+// Convert Supabase dietary profile row to frontend profile format
+function convertDietaryProfile(row: DietaryProfileRow): DietaryProfile {
+  return {
+    allergies: row.allergies || [],
+    diets: row.diets || [],
+    dislikes: row.dislikes || [],
+    syncEnabled: true,
+    updatedAt: row.updated_at
+  }
+}
+
+export async function getRemoteDietaryProfile(): Promise<DietaryProfile | null> {
+  try {
+    const { data, error } = await supabase
+      .from(DIETARY_PROFILES_TABLE)
+      .select('*')
+      .eq('owner_id', getOwnerId())
+      .setHeader(OWNER_ID_HEADER, getOwnerId())
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching dietary profile:', error)
+      return null
+    }
+
+    return data ? convertDietaryProfile(data) : null
+  } catch (error) {
+    console.error('Error fetching dietary profile:', error)
+    return null
+  }
+}
+
+export async function saveRemoteDietaryProfile(profile: DietaryProfile): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(DIETARY_PROFILES_TABLE)
+      .upsert(
+        {
+          owner_id: getOwnerId(),
+          allergies: profile.allergies,
+          diets: profile.diets,
+          dislikes: profile.dislikes,
+          updated_at: profile.updatedAt || new Date().toISOString()
+        },
+        { onConflict: 'owner_id' }
+      )
+      .setHeader(OWNER_ID_HEADER, getOwnerId())
+
+    if (error) {
+      console.error('Error saving dietary profile:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error saving dietary profile:', error)
+    return false
+  }
+}
+
+/**
+ * Removes the stored copy when the user turns syncing off
+ */
+export async function removeRemoteDietaryProfile(): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(DIETARY_PROFILES_TABLE)
+      .delete()
+      .eq('owner_id', getOwnerId())
+      .setHeader(OWNER_ID_HEADER, getOwnerId())
+
+    if (error) {
+      console.error('Error removing dietary profile:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error removing dietary profile:', error)
+    return false
+  }
+}
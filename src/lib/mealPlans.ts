@@ -0,0 +1,155 @@
+import { supabase } from './supabase'
+import { getOwnerId, OWNER_ID_HEADER } from './savedRecipes'
+import type { MacroNutrients, Recipe } from '../types/recipe'
+
+const MEAL_PLAN_TABLE = 'meal_plan_entries'
+
+export const MEAL_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'] as const
+
+export type MealSlot = typeof MEAL_SLOTS[number]
+
+/**
+ * The parts of a recipe a plan entry keeps. Both recipe types satisfy it.
+ */
+export type PlannedRecipe = Pick<Recipe, 'id' | 'title' | 'imageUrl' | 'ingredients' | 'macros'>
+
+export interface MealPlanEntry {
+  id: string
+  /** Monday of the planned week, as YYYY-MM-DD */
+  weekStart: string
+  /** 0 = Monday ... 6 = Sunday */
+  day: number
+  slot: MealSlot
+  recipe: PlannedRecipe
+}
+
+interface MealPlanEntryRow {
+  id: string
+  week_start: string
+  day: number
+  slot: MealSlot
+  recipe_id: string
+  title: string
+  image_url: string | null
+  ingredients: string[] | null
+  macros: MacroNutrients | null
+}
+
+// Convert Supabase meal plan row to frontend entry format
+function convertMealPlanEntry(row: MealPlanEntryRow): MealPlanEntry {
+  return {
+    id: row.id,
+    weekStart: row.week_start,
+    day: row.day,
+    slot: row.slot,
+    recipe: {
+      id: row.recipe_id,
+      title: row.title,
+      imageUrl: row.image_url || 'https://via.placeholder.com/400',
+      ingredients: row.ingredients || [],
+      macros: row.macros || null
+    }
+  }
+}
+
+export async function getMealPlan(weekStart: string): Promise<MealPlanEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from(MEAL_PLAN_TABLE)
+      .select('*')
+      .eq('owner_id', getOwnerId())
+      .setHeader(OWNER_ID_HEADER, getOwnerId())
+      .eq('week_start', weekStart)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching meal plan:', error)
+      return []
+    }
+
+    return (data || []).map(convertMealPlanEntry)
+  } catch (error) {
+    console.error('Error fetching meal plan:', error)
+    return []
+  }
+}
+
+export async function addMealPlanEntry(
+  weekStart: string,
+  day: number,
+  slot: MealSlot,
+  recipe: PlannedRecipe
+): Promise<MealPlanEntry | null> {
+  try {
+    const { data, error } = await supabase
+      .from(MEAL_PLAN_TABLE)
+      .insert([
+        {
+          owner_id: getOwnerId(),
+          week_start: weekStart,
+          day,
+          slot,
+          recipe_id: recipe.id,
+          title: recipe.title,
+          image_url: recipe.imageUrl,
+          ingredients: recipe.ingredients,
+          macros: recipe.macros || null
+        }
+      ])
+      .setHeader(OWNER_ID_HEADER, getOwnerId())
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error adding meal plan entry:', error)
+      return null
+    }
+
+    return convertMealPlanEntry(data)
+  } catch (error) {
+    console.error('Error adding meal plan entry:', error)
+    return null
+  }
+}
+
+export async function moveMealPlanEntry(id: string, day: number, slot: MealSlot): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(MEAL_PLAN_TABLE)
+      .update({ day, slot })
+      .eq('owner_id', getOwnerId())
+      .setHeader(OWNER_ID_HEADER, getOwnerId())
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error moving meal plan entry:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error moving meal plan entry:', error)
+    return false
+  }
+}
+
+export async function removeMealPlanEntry(id: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(MEAL_PLAN_TABLE)
+      .delete()
+      .eq('owner_id', getOwnerId())
+      .setHeader(OWNER_ID_HEADER, getOwnerId())
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error removing meal plan entry:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error removing meal plan entry:', error)
+    return false
+  }
+}
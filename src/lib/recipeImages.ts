@@ -0,0 +1,44 @@
+import { supabase } from './supabase'
+import { generateId } from '@/utils/helpers'
+
+const RECIPE_IMAGES_BUCKET = 'recipe-images'
+// Must match the bucket's allowed_mime_types and file_size_limit and the upload policy's folder
+// (supabase/migrations/20240710_create_recipe_images_bucket.sql)
+const RECIPE_IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+}
+const MAX_RECIPE_IMAGE_BYTES = 5 * 1024 * 1024
+const RECIPE_IMAGES_FOLDER = 'published'
+
+/**
+ * Uploads a photo held as a data: URL to Supabase Storage, so a published recipe
+ * stores a short public URL in popular_recipes.image_url instead of megabytes of base64.
+ * @returns The public URL, or null if the upload failed
+ */
+export async function uploadRecipeImage(dataUrl: string): Promise<string | null> {
+  try {
+    const image = await (await fetch(dataUrl)).blob()
+    const extension = RECIPE_IMAGE_EXTENSIONS[image.type]
+    if (!extension || image.size > MAX_RECIPE_IMAGE_BYTES) {
+      console.error(`Error uploading recipe image: ${image.type} of ${image.size} bytes is not a JPEG, PNG or WebP under 5 MB`)
+      return null
+    }
+    const path = `${RECIPE_IMAGES_FOLDER}/${generateId()}.${extension}`
+
+    const { error } = await supabase.storage
+      .from(RECIPE_IMAGES_BUCKET)
+      .upload(path, image, { contentType: image.type, cacheControl: '31536000' })
+
+    if (error) {
+      console.error('Error uploading recipe image:', error)
+      return null
+    }
+
+    return supabase.storage.from(RECIPE_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl
+  } catch (error) {
+    console.error('Error uploading recipe image:', error)
+    return null
+  }
+}
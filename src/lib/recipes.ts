@@ -85,8 +85,7 @@ ${title}
 
 ${description}
 
-Cooking Time: ${metadata?.cookTime || '30 mins'}
-Servings: ${metadata?.servings || 4}
+${metadata?.cookTime ? `Cooking Time: ${metadata.cookTime}\n` : ''}Servings: ${metadata?.servings || 4}
 
 Ingredients:
 ${ingredients.map(ingredient => `- ${ingredient}`).join('\n')}
@@ -130,6 +129,11 @@ ${metadata?.tags?.length ? `\nTags: ${metadata.tags.join(', ')}` : ''}
   }
 }
 
+// Shareable URL of a stored recipe (rendered by the /recipe/:id route)
+export function getRecipePermalink(id: string): string {
+  return `${window.location.origin}/recipe/${id}`
+}
+
 export async function getRecipe(id: string): Promise<Recipe | null> {
   try {
     const { data, error } = await supabase
@@ -170,6 +174,200 @@ export async function getPopularRecipes(limit = 10): Promise<Recipe[]> {
   }
 }
 
+export type RecipeSort = 'popularity' | 'newest'
+
+export interface RecipePage {
+  recipes: Recipe[]
+  /** Page to request next, or null when there are no more recipes */
+  nextPage: number | null
+}
+
+export async function getRecipesPage(
+  page: number,
+  options: { pageSize?: number; sort?: RecipeSort; tag?: string | null } = {}
+): Promise<RecipePage> {
+  const { pageSize = 12, sort = 'popularity', tag = null } = options
+  const from = page * pageSize
+
+  try {
+    let query = supabase
+      .from(POPULAR_RECIPES_TABLE)
+      .select('*')
+      .order(sort === 'newest' ? 'created_at' : 'popularity_score', { ascending: false })
+      // Stable order for recipes with the same score so pages do not overlap
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1)
+
+    if (tag) {
+      query = query.contains('tags', [tag])
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching recipes page:', error)
+      throw error
+    }
+
+    const recipes = (data || []).map(convertSupabaseRecipe)
+    return { recipes, nextPage: recipes.length === pageSize ? page + 1 : null }
+  } catch (error) {
+    console.error('Error fetching recipes page:', error)
+    throw error
+  }
+}
+
+export async function getRecipeTags(limit = 20): Promise<string[]> {
+  try {
+    const { data, error } = await supabase
+      .from(POPULAR_RECIPES_TABLE)
+      .select('tags')
+      .order('popularity_score', { ascending: false })
+      .limit(200)
+
+    if (error) {
+      console.error('Error fetching recipe tags:', error)
+      return []
+    }
+
+    // Most used tags first
+    const counts = new Map<string, number>()
+    for (const row of (data || []) as Array<{ tags: string[] | null }>) {
+      (row.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1))
+    }
+
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([tag]) => tag)
+  } catch (error) {
+    console.error('Error fetching recipe tags:', error)
+    return []
+  }
+}
+
+export interface FacetBucket {
+  key: string
+  label: string
+  min: number | null
+  max: number | null
+}
+
+// Bucket keys match the ones search_recipe_facets returns
+export const COOK_TIME_BUCKETS: FacetBucket[] = [
+  { key: 'under_15', label: 'Under 15 min', min: null, max: 15 },
+  { key: '15_30', label: '15–30 min', min: 15, max: 30 },
+  { key: '30_60', label: '30–60 min', min: 30, max: 60 },
+  { key: 'over_60', label: 'Over 1 hour', min: 60, max: null },
+]
+
+export const CALORIE_BUCKETS: FacetBucket[] = [
+  { key: 'under_300', label: 'Under 300 kcal', min: null, max: 300 },
+  { key: '300_500', label: '300–500 kcal', min: 300, max: 500 },
+  { key: '500_800', label: '500–800 kcal', min: 500, max: 800 },
+  { key: 'over_800', label: 'Over 800 kcal', min: 800, max: null },
+]
+
+export interface RecipeSearchParams {
+  /** Free-text query, supports web search syntax ("quotes", -exclude, or) */
+  query?: string
+  tags?: string[]
+  cookTime?: FacetBucket | null
+  calories?: FacetBucket | null
+  /** "I have these ingredients" mode: ranks recipes by how many of these they use */
+  haveIngredients?: string[]
+}
+
+export interface RecipeSearchResult {
+  recipe: Recipe
+  /** How many of the listed ingredients the recipe uses (0 outside ingredients mode) */
+  matchedIngredients: number
+}
+
+export interface RecipeSearchFacets {
+  total: number
+  cookTime: Record<string, number>
+  calories: Record<string, number>
+  tags: Record<string, number>
+}
+
+interface SearchRecipeRow {
+  matched_ingredients: number
+  [column: string]: unknown
+}
+
+const toArrayParam = (values?: string[]) => {
+  const cleaned = (values || []).map(value => value.trim()).filter(Boolean)
+  return cleaned.length > 0 ? cleaned : null
+}
+
+export async function searchRecipes(
+  params: RecipeSearchParams,
+  page = 0,
+  pageSize = 24
+): Promise<{ results: RecipeSearchResult[]; nextPage: number | null }> {
+  try {
+    const { data, error } = await supabase.rpc('search_recipes', {
+      search_query: params.query?.trim() || null,
+      tag_filter: toArrayParam(params.tags),
+      min_cook_minutes: params.cookTime?.min ?? null,
+      max_cook_minutes: params.cookTime?.max ?? null,
+      min_calories: params.calories?.min ?? null,
+      max_calories: params.calories?.max ?? null,
+      have_ingredients: toArrayParam(params.haveIngredients),
+      result_limit: pageSize,
+      result_offset: page * pageSize
+    })
+
+    if (error) {
+      console.error('Error searching recipes:', error)
+      throw error
+    }
+
+    const rows = (data || []) as SearchRecipeRow[]
+    return {
+      results: rows.map(row => ({
+        recipe: convertSupabaseRecipe(row),
+        matchedIngredients: row.matched_ingredients || 0
+      })),
+      nextPage: rows.length === pageSize ? page + 1 : null
+    }
+  } catch (error) {
+    console.error('Error searching recipes:', error)
+    throw error
+  }
+}
+
+// Each facet's counts apply the other facets' filters, and the total applies all of them
+export async function getSearchFacets(params: RecipeSearchParams): Promise<RecipeSearchFacets | null> {
+  try {
+    const { data, error } = await supabase.rpc('search_recipe_facets', {
+      search_query: params.query?.trim() || null,
+      have_ingredients: toArrayParam(params.haveIngredients),
+      tag_filter: toArrayParam(params.tags),
+      min_cook_minutes: params.cookTime?.min ?? null,
+      max_cook_minutes: params.cookTime?.max ?? null,
+      min_calories: params.calories?.min ?? null,
+      max_calories: params.calories?.max ?? null
+    })
+
+    if (error) {
+      console.error('Error fetching search facets:', error)
+      return null
+    }
+
+    return {
+      total: data?.total || 0,
+      cookTime: data?.cook_time || {},
+      calories: data?.calories || {},
+      tags: data?.tags || {}
+    }
+  } catch (error) {
+    console.error('Error fetching search facets:', error)
+    return null
+  }
+}
+
 export async function incrementPopularity(id: string): Promise<void> {
   try {
     const { error } = await supabase.rpc('increment_recipe_popularity', { recipe_id: id })
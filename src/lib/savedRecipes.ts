@@ -0,0 +1,182 @@
+import { supabase } from './supabase'
+import { generateId } from '@/utils/helpers'
+import { cacheSavedRecipes, getCachedSavedRecipes, isOfflineStoreSupported } from '@/utils/offlineStore'
+import type { Recipe } from '../types/recipe'
+import type { Recipe as CardRecipe } from '@/components/RecipeCard'
+
+const SAVED_RECIPES_TABLE = 'saved_recipes'
+const OWNER_ID_STORAGE_KEY = 'recipesnap_owner_id'
+// Row level security on the per-owner tables only matches rows whose owner_id equals this header
+export const OWNER_ID_HEADER = 'x-owner-id'
+
+/**
+ * Returns the id used to scope the recipe box to this browser.
+ * There are no user accounts yet, so a random id is generated once and kept in localStorage.
+ */
+export function getOwnerId(): string {
+  let ownerId = localStorage.getItem(OWNER_ID_STORAGE_KEY)
+  if (!ownerId) {
+    ownerId = generateId()
+    localStorage.setItem(OWNER_ID_STORAGE_KEY, ownerId)
+  }
+  return ownerId
+}
+
+interface SavedRecipeRow {
+  recipe_id: string
+  title: string
+  description: string | null
+  ingredients: string[] | null
+  instructions: string[] | null
+  image_url: string | null
+  cook_time: string | null
+  servings: number | null
+  tags: string[] | null
+  macros: Recipe['macros'] | null
+  parent_recipe_id: string | null
+  variant_label: string | null
+  saved_at: string
+}
+
+// Convert Supabase saved recipe row to frontend recipe format
+function convertSavedRecipe(row: SavedRecipeRow): Recipe {
+  return {
+    id: row.recipe_id,
+    title: row.title,
+    description: row.description || '',
+    ingredients: row.ingredients || [],
+    instructions: row.instructions || [],
+    imageUrl: row.image_url || 'https://via.placeholder.com/400',
+    cookTime: row.cook_time || '30 mins',
+    servings: row.servings || 4,
+    tags: row.tags || [],
+    content: '',
+    created_at: row.saved_at,
+    macros: row.macros || null,
+    parentRecipeId: row.parent_recipe_id || undefined,
+    variantLabel: row.variant_label || undefined
+  }
+}
+
+export async function saveRecipe(recipe: CardRecipe): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(SAVED_RECIPES_TABLE)
+      .upsert(
+        {
+          owner_id: getOwnerId(),
+          recipe_id: recipe.id,
+          title: recipe.title,
+          description: recipe.description,
+          ingredients: recipe.ingredients,
+          instructions: recipe.instructions,
+          image_url: recipe.imageUrl,
+          cook_time: recipe.cookTime,
+          servings: recipe.servings,
+          tags: recipe.tags || [],
+          macros: recipe.macros || null,
+          parent_recipe_id: recipe.parentRecipeId || null,
+          variant_label: recipe.variantLabel || null,
+          saved_at: new Date().toISOString()
+        },
+        { onConflict: 'owner_id,recipe_id' }
+      )
+      .setHeader(OWNER_ID_HEADER, getOwnerId())
+
+    if (error) {
+      console.error('Error saving recipe:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error saving recipe:', error)
+    return false
+  }
+}
+
+export async function removeSavedRecipe(recipeId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(SAVED_RECIPES_TABLE)
+      .delete()
+      .eq('owner_id', getOwnerId())
+      .setHeader(OWNER_ID_HEADER, getOwnerId())
+      .eq('recipe_id', recipeId)
+
+    if (error) {
+      console.error('Error removing saved recipe:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('Error removing saved recipe:', error)
+    return false
+  }
+}
+
+export async function isRecipeSaved(recipeId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from(SAVED_RECIPES_TABLE)
+      .select('id')
+      .eq('owner_id', getOwnerId())
+      .setHeader(OWNER_ID_HEADER, getOwnerId())
+      .eq('recipe_id', recipeId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error checking saved recipe:', error)
+      return false
+    }
+
+    return Boolean(data)
+  } catch (error) {
+    console.error('Error checking saved recipe:', error)
+    return false
+  }
+}
+
+/**
+ * Reads the last copy of the recipe box kept for offline use, or [] if there is none
+ */
+async function getOfflineSavedRecipes(): Promise<Recipe[]> {
+  if (!isOfflineStoreSupported()) return []
+  try {
+    const cached = await getCachedSavedRecipes()
+    if (cached) {
+      console.log('[SavedRecipes] Using the offline copy of the recipe box')
+    }
+    return cached || []
+  } catch (error) {
+    console.error('Error reading offline saved recipes:', error)
+    return []
+  }
+}
+
+export async function getSavedRecipes(): Promise<Recipe[]> {
+  try {
+    const { data, error } = await supabase
+      .from(SAVED_RECIPES_TABLE)
+      .select('*')
+      .eq('owner_id', getOwnerId())
+      .setHeader(OWNER_ID_HEADER, getOwnerId())
+      .order('saved_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching saved recipes:', error)
+      return getOfflineSavedRecipes()
+    }
+
+    const recipes = (data || []).map(convertSavedRecipe)
+    // Keep a copy so the recipe box still opens without a connection
+    if (isOfflineStoreSupported()) {
+      cacheSavedRecipes(recipes).catch(cacheError => console.error('Error caching saved recipes:', cacheError))
+    }
+    return recipes
+  } catch (error) {
+    console.error('Error fetching saved recipes:', error)
+    return getOfflineSavedRecipes()
+  }
+}
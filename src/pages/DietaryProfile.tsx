@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Check, ShieldAlert, X } from 'lucide-react';
+import Header from '@/components/Header';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { useSettings } from '@/hooks/useSettings';
+import { getSettings } from '@/utils/settings';
+import { ALLERGENS, DIETS, DietaryProfile as Profile } from '@/utils/dietaryProfile';
+import { getRemoteDietaryProfile, removeRemoteDietaryProfile, saveRemoteDietaryProfile } from '@/lib/dietaryProfiles';
+import { toast } from 'sonner';
+
+interface ChipToggleProps {
+  label: string;
+  selected: boolean;
+  onToggle: () => void;
+}
+
+const ChipToggle: React.FC<ChipToggleProps> = ({ label, selected, onToggle }) => (
+  <button
+    onClick={onToggle}
+    aria-pressed={selected}
+    className={cn(
+      "flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-sm transition-colors",
+      selected
+        ? "bg-primary text-primary-foreground border-primary"
+        : "bg-background text-foreground border-border hover:bg-secondary/40"
+    )}
+  >
+    {selected && <Check size={14} />}
+    {label}
+  </button>
+);
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  placeholder: string;
+  label: string;
+}
+
+/**
+ * Free-text entries shown as removable chips; Enter or comma adds one
+ */
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange, placeholder, label }) => {
+  const [input, setInput] = useState('');
+
+  const addTags = (value: string) => {
+    const added = value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+    if (added.length === 0) return;
+    onChange([...tags, ...added.filter(item => !tags.includes(item))]);
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTags(input);
+    } else if (e.key === 'Backspace' && input === '' && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border border-input bg-background px-3 py-2">
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 text-sm bg-secondary/30 rounded-full pl-3 pr-1 py-0.5">
+          {tag}
+          <button
+            onClick={() => onChange(tags.filter(other => other !== tag))}
+            className="p-0.5 rounded-full hover:bg-secondary/60"
+            aria-label={`Remove ${tag}`}
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      <input
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => addTags(input)}
+        placeholder={tags.length === 0 ? placeholder : 'Add another…'}
+        className="flex-1 min-w-[160px] bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+        aria-label={label}
+      />
+    </div>
+  );
+};
+
+const KNOWN_ALLERGENS = ALLERGENS.map(allergen => allergen.id);
+
+const DietaryProfile = () => {
+  const { settings, updateSettings } = useSettings();
+  const profile = settings.dietaryProfile;
+
+  // With syncing on, pick up a newer copy saved from an earlier session
+  useEffect(() => {
+    const local = getSettings().dietaryProfile;
+    if (!local.syncEnabled) return;
+    let cancelled = false;
+
+    getRemoteDietaryProfile().then(remote => {
+      if (cancelled || !remote?.updatedAt) return;
+      if (!local.updatedAt || remote.updatedAt > local.updatedAt) {
+        updateSettings({ dietaryProfile: remote });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [updateSettings]);
+
+  const saveProfile = (changes: Partial<Profile>) => {
+    const next = { ...profile, ...changes, updatedAt: new Date().toISOString() };
+    updateSettings({ dietaryProfile: next });
+
+    if (next.syncEnabled) {
+      saveRemoteDietaryProfile(next).then(saved => {
+        if (!saved) toast.error('Saved on this device, but the cloud backup failed.');
+      });
+    }
+  };
+
+  const toggle = (list: string[], id: string) =>
+    list.includes(id) ? list.filter(item => item !== id) : [...list, id];
+
+  const toggleSync = async (enabled: boolean) => {
+    saveProfile({ syncEnabled: enabled });
+    if (!enabled && !(await removeRemoteDietaryProfile())) {
+      toast.error('Could not remove the cloud backup. Please try again.');
+    }
+  };
+
+  const otherAllergies = profile.allergies.filter(id => !KNOWN_ALLERGENS.includes(id));
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+
+      <main className="flex-1 max-w-screen-md mx-auto w-full px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-display mb-2">Dietary Profile</h1>
+          <p className="text-muted-foreground">
+            Tell us what you can't or won't eat. Snapped recipes, suggestions and both chat assistants take it into
+            account, and recipe cards flag ingredients that conflict with it.
+          </p>
+        </div>
+
+        <section className="mb-8">
+          <h2 className="text-xl font-display mb-1">Allergies</h2>
+          <p className="text-sm text-muted-foreground mb-3">These are never suggested, and are flagged on every recipe.</p>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {ALLERGENS.map(allergen => (
+              <ChipToggle
+                key={allergen.id}
+                label={allergen.label}
+                selected={profile.allergies.includes(allergen.id)}
+                onToggle={() => saveProfile({ allergies: toggle(profile.allergies, allergen.id) })}
+              />
+            ))}
+          </div>
+          <TagInput
+            tags={otherAllergies}
+            onChange={tags => saveProfile({
+              allergies: [...profile.allergies.filter(id => KNOWN_ALLERGENS.includes(id)), ...tags]
+            })}
+            placeholder="Other allergies, e.g. mustard, celery"
+            label="Other allergies"
+          />
+        </section>
+
+        <section className="mb-8">
+          <h2 className="text-xl font-display mb-1">Diets</h2>
+          <p className="text-sm text-muted-foreground mb-3">Recipes are written or adapted to fit.</p>
+          <div className="flex flex-wrap gap-2">
+            {DIETS.map(diet => (
+              <ChipToggle
+                key={diet.id}
+                label={diet.label}
+                selected={profile.diets.includes(diet.id)}
+                onToggle={() => saveProfile({ diets: toggle(profile.diets, diet.id) })}
+              />
+            ))}
+          </div>
+        </section>
+
+        <section className="mb-8">
+          <h2 className="text-xl font-display mb-1">Dislikes</h2>
+          <p className="text-sm text-muted-foreground mb-3">Left out or swapped for something else where possible.</p>
+          <TagInput
+            tags={profile.dislikes}
+            onChange={dislikes => saveProfile({ dislikes })}
+            placeholder="e.g. cilantro, olives, blue cheese"
+            label="Disliked ingredients"
+          />
+        </section>
+
+        <section className="mb-8 p-4 rounded-lg border border-border/60 bg-muted/20">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="dietary-sync" className="text-base">Back up to the cloud</Label>
+              <p className="text-sm text-muted-foreground">
+                Also store the profile in our database, next to your recipe box. Turning this off deletes the stored copy.
+              </p>
+            </div>
+            <Switch id="dietary-sync" checked={profile.syncEnabled} onCheckedChange={toggleSync} />
+          </div>
+        </section>
+
+        <p className="flex items-start gap-2 text-xs text-muted-foreground">
+          <ShieldAlert size={14} className="mt-0.5 flex-shrink-0" />
+          Ingredient checks look for common names and can miss hidden sources. Always read labels when cooking for an allergy.
+        </p>
+      </main>
+    </div>
+  );
+};
+
+export default DietaryProfile;
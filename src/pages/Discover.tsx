@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { AlertCircle, Clock, Flame } from 'lucide-react';
+import Header from '@/components/Header';
+import Button from '@/components/Button';
+import RecipeCard from '@/components/RecipeCard';
+import LoadingState from '@/components/LoadingState';
+import { cn } from '@/lib/utils';
+import { getRecipePermalink, getRecipesPage, getRecipeTags, incrementPopularity, RecipeSort } from '@/lib/recipes';
+
+const PAGE_SIZE = 12;
+
+const SORT_OPTIONS: Array<{ value: RecipeSort; label: string; icon: React.ReactNode }> = [
+  { value: 'popularity', label: 'Popular', icon: <Flame size={14} /> },
+  { value: 'newest', label: 'Newest', icon: <Clock size={14} /> },
+];
+
+const Discover = () => {
+  const [sort, setSort] = useState<RecipeSort>('popularity');
+  const [tag, setTag] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const { data: tags = [] } = useQuery({
+    queryKey: ['recipe-tags'],
+    queryFn: () => getRecipeTags(),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const {
+    data,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isPending,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: ['discover-recipes', sort, tag],
+    queryFn: ({ pageParam }) => getRecipesPage(pageParam, { pageSize: PAGE_SIZE, sort, tag }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextPage,
+  });
+
+  const recipes = data?.pages.flatMap(page => page.recipes) ?? [];
+
+  // --- Load the next page when the sentinel below the grid scrolls into view ---
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((observed) => {
+      if (observed[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+  // ----------------------------------------------------------------------------
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+
+      <main className="flex-1 max-w-screen-xl mx-auto w-full px-4 py-8">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-display mb-2">Discover</h1>
+            <p className="text-muted-foreground">
+              Browse what other cooks are making right now.
+            </p>
+          </div>
+
+          <div className="flex rounded-full border border-border p-0.5 self-start md:self-auto" role="group" aria-label="Sort recipes">
+            {SORT_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setSort(option.value)}
+                aria-pressed={sort === option.value}
+                className={cn(
+                  "flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium transition-colors",
+                  sort === option.value
+                    ? "bg-primary text-primary-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {option.icon}
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-8">
+            <button
+              onClick={() => setTag(null)}
+              className={cn(
+                "text-xs px-3 py-1.5 rounded-full transition-colors",
+                tag === null ? "bg-primary text-primary-foreground" : "bg-secondary/30 hover:bg-secondary/50"
+              )}
+            >
+              All
+            </button>
+            {tags.map(item => (
+              <button
+                key={item}
+                onClick={() => setTag(tag === item ? null : item)}
+                aria-pressed={tag === item}
+                className={cn(
+                  "text-xs px-3 py-1.5 rounded-full transition-colors",
+                  tag === item ? "bg-primary text-primary-foreground" : "bg-secondary/30 hover:bg-secondary/50"
+                )}
+              >
+                {item}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {isPending ? (
+          <LoadingState variant="minimal" />
+        ) : error && recipes.length === 0 ? (
+          <div className="text-center py-16">
+            <div className="mb-6 p-4 bg-destructive/10 border border-destructive/30 rounded-lg inline-flex items-center text-destructive">
+              <AlertCircle size={20} className="mr-3 flex-shrink-0" />
+              <p>Could not load recipes. Please check your connection.</p>
+            </div>
+            <div>
+              <Button variant="outline" onClick={() => refetch()}>Try Again</Button>
+            </div>
+          </div>
+        ) : recipes.length === 0 ? (
+          <p className="text-center text-muted-foreground py-16">
+            {tag ? `No recipes tagged "${tag}" yet.` : 'No recipes yet. Check back soon.'}
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {recipes.map(recipe => (
+                <RecipeCard
+                  key={recipe.id}
+                  recipe={recipe}
+                  shareUrl={getRecipePermalink(recipe.id)}
+                  onOpen={() => incrementPopularity(recipe.id)}
+                />
+              ))}
+            </div>
+
+            <div ref={sentinelRef} className="h-px" />
+            {isFetchingNextPage && <LoadingState variant="minimal" />}
+            {!hasNextPage && recipes.length > PAGE_SIZE && (
+              <p className="text-center text-sm text-muted-foreground py-8">You've reached the end.</p>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Discover;
@@ -0,0 +1,200 @@
+import React, { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, FileInput, RotateCcw, Save, Sparkles, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import Header from '@/components/Header';
+import Button from '@/components/Button';
+import RecipeCard from '@/components/RecipeCard';
+import type { Recipe } from '@/components/RecipeCard';
+import { Textarea } from '@/components/ui/textarea';
+import { storeRecipe } from '@/lib/recipes';
+import { importRecipe, readHtmlFile, RecipeImportError, RecipeImportResult } from '@/utils/recipeImport';
+import { isXaiConnectionError, RecipeGenerationError } from '@/utils/xaiErrors';
+
+// Preview card for an imported recipe that has not been stored yet
+const toPreviewRecipe = ({ recipe }: RecipeImportResult): Recipe => ({
+  id: `import-${Date.now()}`,
+  title: recipe.title,
+  description: recipe.description,
+  ingredients: recipe.ingredients,
+  instructions: recipe.instructions,
+  cookTime: recipe.cookTime,
+  servings: recipe.servings,
+  imageUrl: recipe.imageUrl || 'https://via.placeholder.com/400',
+  tags: recipe.tags,
+  macros: recipe.macros,
+});
+
+const getImportErrorMessage = (error: unknown): string => {
+  if (error instanceof RecipeImportError) return error.message;
+  if (error instanceof RecipeGenerationError) return "We couldn't find a recipe in that text. Check that it includes ingredients and steps.";
+  if (isXaiConnectionError(error)) return 'Connection to the recipe service failed. Please check your internet connection and try again.';
+  return 'Something went wrong while importing. Please try again.';
+};
+
+const ImportRecipe = () => {
+  const [input, setInput] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [result, setResult] = useState<RecipeImportResult | null>(null);
+  const [preview, setPreview] = useState<Recipe | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setInput(await readHtmlFile(file));
+      setFileName(file.name);
+      setError(null);
+    } catch (err) {
+      setError(getImportErrorMessage(err));
+    }
+  };
+
+  const handleImport = async () => {
+    setError(null);
+    setIsImporting(true);
+    try {
+      const imported = await importRecipe(input);
+      setResult(imported);
+      setPreview(toPreviewRecipe(imported));
+    } catch (err) {
+      console.error('Error importing recipe:', err);
+      setError(getImportErrorMessage(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!result) return;
+    const { recipe } = result;
+
+    setIsSaving(true);
+    const stored = await storeRecipe(recipe.title, recipe.description, recipe.ingredients, recipe.instructions, {
+      imageUrl: recipe.imageUrl,
+      cookTime: recipe.cookTime,
+      servings: recipe.servings,
+      tags: recipe.tags,
+      macros: recipe.macros
+    });
+    setIsSaving(false);
+
+    if (!stored) {
+      toast.error('Could not save the imported recipe. Please try again.');
+      return;
+    }
+
+    queryClient.setQueryData(['recipe', stored.id], stored);
+    toast.success(`Imported "${stored.title}"`);
+    navigate(`/recipe/${stored.id}`);
+  };
+
+  const startOver = () => {
+    setResult(null);
+    setPreview(null);
+    setError(null);
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept=".html,.htm,text/html"
+        className="hidden"
+      />
+
+      <Header />
+
+      <main className="flex-1 max-w-screen-md mx-auto w-full px-4 py-8">
+        <h1 className="text-3xl md:text-4xl font-display mb-2">Import Recipe</h1>
+        <p className="text-muted-foreground mb-6">
+          Paste a recipe in any layout, a schema.org JSON-LD block, or upload a recipe page saved from your browser.
+          Structured recipe data is read directly; anything else is tidied up by AI. You can check the result before saving it.
+        </p>
+
+        {preview && result ? (
+          <div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+              {result.source === 'json-ld' ? <FileInput size={16} /> : <Sparkles size={16} />}
+              <span>
+                {result.source === 'json-ld'
+                  ? 'Read from the schema.org recipe data.'
+                  : 'Normalized by AI. Check quantities and steps before saving.'}
+                {' '}{preview.ingredients.length} ingredients, {preview.instructions.length} steps.
+              </span>
+            </div>
+
+            <div className="max-w-sm mb-6">
+              <RecipeCard recipe={preview} />
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              <Button onClick={handleSave} icon={<Save size={18} />} isLoading={isSaving}>
+                Save Recipe
+              </Button>
+              <Button onClick={startOver} icon={<RotateCcw size={18} />} variant="outline" disabled={isSaving}>
+                Start Over
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <Textarea
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setFileName(null);
+                setError(null);
+              }}
+              placeholder={'Paste a recipe here, e.g.\n\nLemon Garlic Chicken\nServes 4\n\n4 chicken thighs\n2 cloves garlic, minced\n...\n\n1. Preheat the oven to 400°F.\n2. ...'}
+              className="min-h-[280px] mb-2"
+              aria-label="Recipe text, JSON-LD or HTML to import"
+            />
+            <p className="text-xs text-muted-foreground mb-4">
+              {fileName ? `Loaded ${fileName}.` : 'Tip: open a recipe page and use File > Save Page As to get an .html file.'}
+            </p>
+
+            {error && (
+              <div className="mb-4 p-4 bg-destructive/10 border border-destructive/30 rounded-lg flex items-center text-destructive">
+                <AlertCircle size={20} className="mr-3 flex-shrink-0" />
+                <p>{error}</p>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-4">
+              <Button
+                onClick={handleImport}
+                icon={<FileInput size={18} />}
+                isLoading={isImporting}
+                disabled={!input.trim()}
+              >
+                Import Recipe
+              </Button>
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                icon={<Upload size={18} />}
+                variant="outline"
+                disabled={isImporting}
+              >
+                Upload .html File
+              </Button>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ImportRecipe;
@@ -1,13 +1,21 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Camera, Plus, ArrowLeft, Upload, AlertCircle, MessageSquare } from 'lucide-react';
+import { Camera, Plus, ArrowLeft, Upload, AlertCircle, MessageSquare, Refrigerator, ScanLine, CloudOff } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import Header from '@/components/Header';
 import Button from '@/components/Button';
 import CameraComponent from '@/components/Camera';
 import RecipeCard from '@/components/RecipeCard';
 import LoadingState from '@/components/LoadingState';
+import DishCandidates from '@/components/DishCandidates';
+import PantryMode from '@/components/PantryMode';
+import NutritionLabelResult from '@/components/NutritionLabelResult';
 import { usePhotoCapture } from '@/hooks/usePhotoCapture';
 import type { Recipe } from '@/components/RecipeCard';
 import { testSupabaseConnection } from '@/lib/supabase';
+import { storeRecipe } from '@/lib/recipes';
+import { uploadRecipeImage } from '@/lib/recipeImages';
 import CulinaryExpertChat from '@/components/CulinaryExpertChat';
 
 /**
@@ -42,13 +50,24 @@ const Index = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const {
+    mode,
     photo,
+    photos,
     isCapturingPhoto,
+    isIdentifying,
     isProcessing,
+    candidates,
+    detectedIngredients,
+    pantryRecipes,
+    nutritionLabel,
+    isQueued,
     startCapture,
     cancelCapture,
     submitPhoto,
     handleFileUpload,
+    chooseDish,
+    updateIngredients,
+    findRecipes,
     reset,
     error: photoError,
     recipeData
@@ -56,6 +75,8 @@ const Index = () => {
 
   const [generatedRecipe, setGeneratedRecipe] = useState<Recipe | null>(null);
   const [isExpertChatOpen, setIsExpertChatOpen] = useState(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     // Test Supabase connection
@@ -126,10 +147,43 @@ const Index = () => {
     setGeneratedRecipe(null);
   };
 
+  // Snapped recipes are only stored when the user asks for a link, which moves them to /recipe/:id
+  const publishRecipe = async () => {
+    if (!generatedRecipe) return;
+
+    // The snapped photo is a data: URL; store it in Storage and link to it, or publish without an image
+    const imageUrl = generatedRecipe.imageUrl?.startsWith('data:')
+      ? await uploadRecipeImage(generatedRecipe.imageUrl)
+      : generatedRecipe.imageUrl;
+
+    const stored = await storeRecipe(
+      generatedRecipe.title,
+      generatedRecipe.description,
+      generatedRecipe.ingredients,
+      generatedRecipe.instructions,
+      {
+        imageUrl: imageUrl || undefined,
+        cookTime: generatedRecipe.cookTime,
+        servings: generatedRecipe.servings,
+        tags: generatedRecipe.tags,
+        macros: generatedRecipe.macros
+      }
+    );
+
+    if (!stored) {
+      toast.error('Could not create a link for this recipe. Please try again.');
+      return;
+    }
+
+    queryClient.setQueryData(['recipe', stored.id], stored);
+    toast.success('Recipe saved. Share it with the link on this page.');
+    navigate(`/recipe/${stored.id}`);
+  };
+
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFileUpload(file);
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      handleFileUpload(files);
       e.target.value = '';
     }
   };
@@ -147,7 +201,8 @@ const Index = () => {
         type="file"
         ref={fileInputRef}
         onChange={handleFileInputChange}
-        accept="image/*"
+        accept="image/*,.heic,.heif"
+        multiple
         className="hidden"
       />
 
@@ -190,13 +245,31 @@ const Index = () => {
 
                   <Button
                     size="lg"
-                    onClick={startCapture}
+                    onClick={() => startCapture()}
                     icon={<Camera size={20} />}
                     className="shadow-lg"
                     variant="outline"
                   >
                     Use Camera
                   </Button>
+
+                  <Button
+                    size="lg"
+                    onClick={() => startCapture('pantry')}
+                    icon={<Refrigerator size={20} />}
+                    variant="ghost"
+                  >
+                    What Can I Cook?
+                  </Button>
+
+                  <Button
+                    size="lg"
+                    onClick={() => startCapture('label')}
+                    icon={<ScanLine size={20} />}
+                    variant="ghost"
+                  >
+                    Scan a Label
+                  </Button>
                 </div>
               </div>
 
@@ -340,7 +413,7 @@ const Index = () => {
 
                 <Button
                   size="lg"
-                  onClick={startCapture}
+                  onClick={() => startCapture()}
                   icon={<Camera size={20} />}
                   className="shadow-lg"
                   variant="outline"
@@ -370,13 +443,84 @@ const Index = () => {
             <CameraComponent
               onCapture={submitPhoto}
               onClose={cancelCapture}
+              showAngles={mode === 'dish'}
+            />
+          </div>
+        )}
+
+        {photo && isIdentifying && (
+          <div className="absolute inset-0 z-40 flex items-center justify-center bg-background">
+            <LoadingState
+              text={mode === 'pantry'
+                ? "Checking what's in your kitchen..."
+                : mode === 'label'
+                ? "Reading the nutrition label..."
+                : photos.length > 1 ? `Looking at your ${photos.length} photos...` : "Identifying your dish..."}
             />
           </div>
         )}
 
-        {photo && isProcessing && (
+        {photo && isProcessing && mode === 'dish' && (
           <div className="absolute inset-0 z-40 flex items-center justify-center bg-background">
-            <LoadingState />
+            <LoadingState text={photos.length > 1 ? `Analyzing ${photos.length} photos...` : undefined} />
+          </div>
+        )}
+
+        {photo && candidates && !isProcessing && !generatedRecipe && (
+          <DishCandidates
+            candidates={candidates}
+            photo={photo}
+            onChoose={chooseDish}
+            onStartOver={handleNewRecipe}
+          />
+        )}
+
+        {photo && mode === 'pantry' && detectedIngredients && (
+          <PantryMode
+            photo={photo}
+            ingredients={detectedIngredients}
+            recipes={pantryRecipes}
+            isFindingRecipes={isProcessing}
+            error={photoError}
+            onIngredientsChange={updateIngredients}
+            onFindRecipes={findRecipes}
+            onStartOver={handleNewRecipe}
+          />
+        )}
+
+        {photo && isQueued && (
+          <div className="max-w-screen-sm mx-auto px-4 py-12 text-center">
+            <div className="mb-4 mx-auto w-16 h-16 flex items-center justify-center rounded-full bg-muted">
+              <CloudOff size={28} className="text-muted-foreground" />
+            </div>
+            <h2 className="text-2xl font-display mb-2">Saved for when you're back online</h2>
+            <p className="text-muted-foreground mb-6">
+              You're offline, so we'll analyze {photos.length > 1 ? 'these photos' : 'this photo'} as soon as the connection returns.
+              The recipe will be added to your recipe box and we'll let you know when it's ready.
+            </p>
+            <Button onClick={handleNewRecipe} icon={<Camera size={18} />} variant="outline">
+              Snap Another Dish
+            </Button>
+          </div>
+        )}
+
+        {photo && mode === 'label' && nutritionLabel && (
+          <NutritionLabelResult
+            label={nutritionLabel}
+            photo={photo}
+            onStartOver={handleNewRecipe}
+          />
+        )}
+
+        {photo && photoError && !isIdentifying && !isProcessing && !candidates && !detectedIngredients && !nutritionLabel && !generatedRecipe && (
+          <div className="max-w-screen-sm mx-auto px-4 py-8">
+            <div className="mb-6 p-4 bg-destructive/10 border border-destructive/30 rounded-lg flex items-center text-destructive">
+              <AlertCircle size={20} className="mr-3 flex-shrink-0" />
+              <p>{photoError}</p>
+            </div>
+            <Button onClick={handleNewRecipe} icon={<ArrowLeft size={18} />} variant="outline">
+              Try Another Photo
+            </Button>
           </div>
         )}
 
@@ -384,6 +528,8 @@ const Index = () => {
           <RecipeCard
             recipe={generatedRecipe}
             isFullView={true}
+            onPublish={publishRecipe}
+            analysisNote={recipeData?.recipe.confidenceNote}
           />
         )}
 
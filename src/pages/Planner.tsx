@@ -0,0 +1,434 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, Settings2, ShoppingCart, X } from 'lucide-react';
+import Header from '@/components/Header';
+import Button from '@/components/Button';
+import LoadingState from '@/components/LoadingState';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { getPopularRecipes } from '@/lib/recipes';
+import {
+  addMealPlanEntry,
+  getMealPlan,
+  MEAL_SLOTS,
+  MealPlanEntry,
+  MealSlot,
+  moveMealPlanEntry,
+  PlannedRecipe,
+  removeMealPlanEntry,
+} from '@/lib/mealPlans';
+import { useSettings } from '@/hooks/useSettings';
+import { calculateDailyValuePercent, DailyValues, NutritionAmounts, scaleMacros, sumNutrition } from '@/utils/nutrition';
+import { addRecipesToShoppingList } from '@/utils/shoppingList';
+import { capitalize } from '@/utils/stringUtils';
+import type { Recipe } from '@/types/recipe';
+import { toast } from 'sonner';
+
+const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+/** Targets shown in the planner, in display order */
+const TARGET_FIELDS: Array<{ key: keyof DailyValues; label: string; unit: string }> = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'totalFat', label: 'Fat', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' },
+];
+
+/** Drag payloads: a recipe from the popular list, or an entry already in the grid */
+type DragPayload = { type: 'recipe'; recipeId: string } | { type: 'entry'; entryId: string };
+
+/**
+ * Formats a date as YYYY-MM-DD in local time (toISOString would shift it to UTC)
+ */
+const toDateString = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Monday of the week containing the given date
+ */
+const getWeekStart = (date: Date): Date => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Maps a nutrient amount to its target key, since the amounts call fat "fat" and the targets "totalFat"
+ */
+const getAmount = (amounts: NutritionAmounts, key: keyof DailyValues): number | null =>
+  key === 'totalFat' ? amounts.fat : amounts[key];
+
+/**
+ * Progress bar colour: under target is fine, a little over is a warning, well over is flagged
+ */
+const getProgressColor = (percent: number | null): string => {
+  if (percent === null || percent <= 100) return 'bg-primary';
+  if (percent <= 115) return 'bg-amber-500';
+  return 'bg-rose-500';
+};
+
+interface NutritionProgressProps {
+  label: string;
+  unit: string;
+  amount: number | null;
+  target: number;
+  percent: number | null;
+}
+
+const NutritionProgress: React.FC<NutritionProgressProps> = ({ label, unit, amount, target, percent }) => (
+  <div>
+    <div className="flex justify-between text-xs mb-1">
+      <span className="font-medium">{label}</span>
+      <span className="text-muted-foreground">
+        {amount !== null ? Math.round(amount).toLocaleString() : '–'} / {Math.round(target).toLocaleString()} {unit}
+        {percent !== null && ` (${percent}%)`}
+      </span>
+    </div>
+    <div className="w-full bg-secondary rounded-full h-1.5 overflow-hidden">
+      <div className={cn("h-full", getProgressColor(percent))} style={{ width: `${Math.min(100, percent || 0)}%` }}></div>
+    </div>
+  </div>
+);
+
+const Planner = () => {
+  const navigate = useNavigate();
+  const { settings, updateSettings } = useSettings();
+  const targets = settings.nutritionTargets;
+
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [entries, setEntries] = useState<MealPlanEntry[]>([]);
+  const [popularRecipes, setPopularRecipes] = useState<Recipe[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null); // Tap-to-place fallback for touch screens
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [showTargets, setShowTargets] = useState(false);
+
+  const weekKey = toDateString(weekStart);
+
+  useEffect(() => {
+    getPopularRecipes(20).then(setPopularRecipes);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getMealPlan(weekKey).then(plan => {
+      if (cancelled) return;
+      setEntries(plan);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [weekKey]);
+
+  // --- Nutrition Totals ---
+  const dailyTotals = useMemo(() => DAY_NAMES.map((_, day) =>
+    sumNutrition(entries
+      .filter(entry => entry.day === day && entry.recipe.macros)
+      .map(entry => scaleMacros(entry.recipe.macros, 1)))
+  ), [entries]);
+
+  const weeklyTotals = useMemo(() => sumNutrition(dailyTotals), [dailyTotals]);
+
+  const weeklyTargets = useMemo((): DailyValues => ({
+    calories: targets.calories * 7,
+    totalFat: targets.totalFat * 7,
+    saturatedFat: targets.saturatedFat * 7,
+    sodium: targets.sodium * 7,
+    carbs: targets.carbs * 7,
+    fiber: targets.fiber * 7,
+    protein: targets.protein * 7,
+  }), [targets]);
+  // ------------------------
+
+  const placeRecipe = async (recipe: PlannedRecipe, day: number, slot: MealSlot) => {
+    const entry = await addMealPlanEntry(weekKey, day, slot, recipe);
+    if (!entry) {
+      toast.error('Could not add this recipe to your plan. Please try again.');
+      return;
+    }
+    setEntries(prev => [...prev, entry]);
+  };
+
+  const moveEntry = async (entryId: string, day: number, slot: MealSlot) => {
+    const previous = entries;
+    setEntries(prev => prev.map(entry => entry.id === entryId ? { ...entry, day, slot } : entry)); // Optimistic update
+    if (!(await moveMealPlanEntry(entryId, day, slot))) {
+      setEntries(previous);
+      toast.error('Could not move this meal. Please try again.');
+    }
+  };
+
+  const removeEntry = async (entryId: string) => {
+    if (!(await removeMealPlanEntry(entryId))) {
+      toast.error('Could not remove this meal. Please try again.');
+      return;
+    }
+    setEntries(prev => prev.filter(entry => entry.id !== entryId));
+  };
+
+  const handleDrop = (e: React.DragEvent, day: number, slot: MealSlot) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    let payload: DragPayload;
+    try {
+      payload = JSON.parse(e.dataTransfer.getData('application/json'));
+    } catch {
+      return;
+    }
+
+    if (payload.type === 'entry') {
+      moveEntry(payload.entryId, day, slot);
+    } else {
+      const recipe = popularRecipes.find(item => item.id === payload.recipeId);
+      if (recipe) placeRecipe(recipe, day, slot);
+    }
+  };
+
+  const startDrag = (e: React.DragEvent, payload: DragPayload) => {
+    e.dataTransfer.setData('application/json', JSON.stringify(payload));
+    e.dataTransfer.effectAllowed = payload.type === 'entry' ? 'move' : 'copy';
+  };
+
+  const handleCellClick = (day: number, slot: MealSlot) => {
+    if (!selectedRecipe) return;
+    placeRecipe(selectedRecipe, day, slot);
+    setSelectedRecipe(null);
+  };
+
+  const updateTarget = (key: keyof DailyValues, value: string) => {
+    const amount = Number(value);
+    if (isNaN(amount) || amount < 0) return;
+    updateSettings({ nutritionTargets: { ...targets, [key]: amount } });
+  };
+
+  const sendToShoppingList = () => {
+    // Each planned meal is added separately so a recipe planned twice is bought for twice
+    addRecipesToShoppingList(entries.map(entry => ({
+      id: `plan-${entry.id}`,
+      title: `${entry.recipe.title} (${DAY_NAMES[entry.day]} ${entry.slot})`,
+      ingredients: entry.recipe.ingredients,
+    })));
+    navigate('/shopping-list');
+  };
+
+  const weekLabel = `${weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${addDays(weekStart, 6).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+
+      <main className="flex-1 max-w-screen-2xl mx-auto w-full px-4 py-8">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-display mb-2">Meal Planner</h1>
+            <p className="text-muted-foreground">
+              Drag recipes into your week and keep an eye on the totals.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="ghost" size="sm" icon={<ChevronLeft size={16} />} onClick={() => setWeekStart(addDays(weekStart, -7))}>
+              Previous
+            </Button>
+            <span className="text-sm font-medium min-w-[11rem] text-center">{weekLabel}</span>
+            <Button variant="ghost" size="sm" icon={<ChevronRight size={16} />} iconPosition="right" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+              Next
+            </Button>
+            <Button variant="outline" size="sm" icon={<Settings2 size={14} />} onClick={() => setShowTargets(!showTargets)}>
+              Targets
+            </Button>
+            <Button size="sm" icon={<ShoppingCart size={14} />} onClick={sendToShoppingList} disabled={entries.length === 0}>
+              Shopping List
+            </Button>
+          </div>
+        </div>
+
+        {showTargets && (
+          <div className="mb-8 bg-secondary/20 rounded-lg p-4">
+            <h2 className="text-sm font-medium mb-3">Daily targets</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+              {TARGET_FIELDS.map(field => (
+                <div key={field.key}>
+                  <Label htmlFor={`target-${field.key}`} className="text-xs">{field.label} ({field.unit})</Label>
+                  <Input
+                    id={`target-${field.key}`}
+                    type="number"
+                    min={0}
+                    value={targets[field.key]}
+                    onChange={(e) => updateTarget(field.key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-6">
+          {/* Popular recipes to drag from */}
+          <aside>
+            <h2 className="text-sm font-medium text-muted-foreground mb-3">Popular recipes</h2>
+            <ul className="space-y-2 lg:max-h-[70vh] overflow-y-auto pr-1">
+              {popularRecipes.map(recipe => (
+                <li
+                  key={recipe.id}
+                  draggable
+                  onDragStart={(e) => startDrag(e, { type: 'recipe', recipeId: recipe.id })}
+                  onClick={() => setSelectedRecipe(selectedRecipe?.id === recipe.id ? null : recipe)}
+                  className={cn(
+                    "flex items-center gap-3 p-2 rounded-lg border cursor-grab active:cursor-grabbing transition-colors",
+                    selectedRecipe?.id === recipe.id ? "border-primary bg-primary/5" : "border-border/50 hover:bg-secondary/20"
+                  )}
+                >
+                  <img src={recipe.imageUrl} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium line-clamp-1">{recipe.title}</p>
+                    {recipe.macros && (
+                      <p className="text-xs text-muted-foreground">{Math.round(recipe.macros.calories)} kcal</p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {selectedRecipe && (
+              <p className="text-xs text-primary mt-3">Tap a slot to add {selectedRecipe.title}.</p>
+            )}
+          </aside>
+
+          {/* Week grid */}
+          <section className="overflow-x-auto">
+            {isLoading ? (
+              <LoadingState variant="minimal" />
+            ) : (
+              <div className="grid grid-cols-[80px_repeat(7,minmax(130px,1fr))] gap-2 min-w-[1000px]">
+                <div />
+                {DAY_NAMES.map((name, day) => (
+                  <div key={name} className="text-sm font-medium text-center">
+                    {name.slice(0, 3)}
+                    <span className="block text-xs text-muted-foreground font-normal">
+                      {addDays(weekStart, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </span>
+                  </div>
+                ))}
+
+                {MEAL_SLOTS.map(slot => (
+                  <React.Fragment key={slot}>
+                    <div className="text-xs font-medium text-muted-foreground pt-3">{capitalize(slot)}</div>
+                    {DAY_NAMES.map((name, day) => {
+                      const cellKey = `${day}-${slot}`;
+                      return (
+                        <div
+                          key={cellKey}
+                          onDragOver={(e) => {
+                            e.preventDefault();
+                            setDropTarget(cellKey);
+                          }}
+                          onDragLeave={() => setDropTarget(null)}
+                          onDrop={(e) => handleDrop(e, day, slot)}
+                          onClick={() => handleCellClick(day, slot)}
+                          className={cn(
+                            "min-h-[88px] rounded-lg border border-dashed p-1.5 space-y-1.5 transition-colors",
+                            dropTarget === cellKey ? "border-primary bg-primary/5" : "border-border/60",
+                            selectedRecipe && "cursor-pointer hover:border-primary"
+                          )}
+                        >
+                          {entries
+                            .filter(entry => entry.day === day && entry.slot === slot)
+                            .map(entry => (
+                              <div
+                                key={entry.id}
+                                draggable
+                                onDragStart={(e) => startDrag(e, { type: 'entry', entryId: entry.id })}
+                                onClick={(e) => e.stopPropagation()}
+                                className="group relative bg-secondary/30 rounded-md p-1.5 text-xs cursor-grab active:cursor-grabbing"
+                              >
+                                <p className="font-medium line-clamp-2 pr-4">{entry.recipe.title}</p>
+                                {entry.recipe.macros && (
+                                  <p className="text-muted-foreground">{Math.round(entry.recipe.macros.calories)} kcal</p>
+                                )}
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    removeEntry(entry.id);
+                                  }}
+                                  className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground transition-opacity"
+                                  aria-label={`Remove ${entry.recipe.title} from ${name} ${slot}`}
+                                >
+                                  <X size={12} />
+                                </button>
+                              </div>
+                            ))}
+                        </div>
+                      );
+                    })}
+                  </React.Fragment>
+                ))}
+
+                {/* Daily totals */}
+                <div className="text-xs font-medium text-muted-foreground pt-2">Total</div>
+                {dailyTotals.map((totals, day) => {
+                  const percent = calculateDailyValuePercent(totals, targets);
+                  return (
+                    <div key={DAY_NAMES[day]} className="bg-secondary/20 rounded-lg p-2 space-y-1 text-xs">
+                      <div className="flex justify-between">
+                        <span className="font-medium">{Math.round(totals.calories)} kcal</span>
+                        <span className="text-muted-foreground">{percent.calories}%</span>
+                      </div>
+                      <div className="w-full bg-secondary rounded-full h-1.5 overflow-hidden">
+                        <div className={cn("h-full", getProgressColor(percent.calories))} style={{ width: `${Math.min(100, percent.calories || 0)}%` }}></div>
+                      </div>
+                      <p className="text-muted-foreground">
+                        P {Math.round(totals.protein)}g · C {Math.round(totals.carbs)}g · F {Math.round(totals.fat)}g
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+        </div>
+
+        {/* Weekly totals */}
+        <div className="mt-10 max-w-3xl">
+          <h2 className="font-semibold text-lg mb-4">Weekly totals</h2>
+          {(() => {
+            const percent = calculateDailyValuePercent(weeklyTotals, weeklyTargets);
+            return (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {TARGET_FIELDS.map(field => (
+                  <NutritionProgress
+                    key={field.key}
+                    label={field.label}
+                    unit={field.unit}
+                    amount={getAmount(weeklyTotals, field.key)}
+                    target={weeklyTargets[field.key]}
+                    percent={percent[field.key]}
+                  />
+                ))}
+              </div>
+            );
+          })()}
+          <p className="text-xs text-muted-foreground mt-4">
+            Totals assume one serving of each planned recipe. Recipes without nutrition data are not counted.
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Planner;
@@ -0,0 +1,81 @@
+import React, { useEffect, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import Header from '@/components/Header';
+import RecipeCard from '@/components/RecipeCard';
+import LoadingState from '@/components/LoadingState';
+import { usePageMeta } from '@/hooks/usePageMeta';
+import { getRecipe, getRecipePermalink, incrementPopularity } from '@/lib/recipes';
+import { recipeToJsonLd } from '@/utils/recipeJsonLd';
+import NotFound from './NotFound';
+
+/**
+ * Permalink for a single recipe from popular_recipes (/recipe/:id)
+ */
+const RecipeDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const { data: recipe, isPending } = useQuery({
+    queryKey: ['recipe', id],
+    queryFn: () => getRecipe(id),
+    enabled: !!id,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Count one view per visit, not per refetch
+  const loadedId = recipe?.id;
+  useEffect(() => {
+    if (loadedId) incrementPopularity(loadedId);
+  }, [loadedId]);
+
+  const shareUrl = getRecipePermalink(id);
+  const jsonLd = useMemo(() => (recipe ? recipeToJsonLd(recipe, shareUrl) : undefined), [recipe, shareUrl]);
+
+  usePageMeta({
+    title: recipe?.title,
+    description: recipe?.description,
+    image: recipe?.imageUrl,
+    url: recipe ? shareUrl : undefined,
+    type: 'article',
+    jsonLd,
+  });
+
+  if (isPending && id) {
+    return (
+      <div className="flex flex-col min-h-screen bg-background">
+        <Header />
+        <main className="flex-1 flex items-center justify-center">
+          <LoadingState variant="minimal" />
+        </main>
+      </div>
+    );
+  }
+
+  if (!recipe) {
+    return <NotFound />;
+  }
+
+  const closeRecipe = () => {
+    // Opened from a shared link there is no in-app page to go back to
+    if (window.history.state?.idx > 0) {
+      navigate(-1);
+    } else {
+      navigate('/discover');
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+      <RecipeCard
+        recipe={recipe}
+        isFullView={true}
+        shareUrl={shareUrl}
+        onClose={closeRecipe}
+      />
+    </div>
+  );
+};
+
+export default RecipeDetail;
@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bookmark, Search, Trash2, Wand2 } from 'lucide-react';
+import Header from '@/components/Header';
+import Button from '@/components/Button';
+import RecipeCard from '@/components/RecipeCard';
+import LoadingState from '@/components/LoadingState';
+import { Input } from '@/components/ui/input';
+import { getSavedRecipes, removeSavedRecipe } from '@/lib/savedRecipes';
+import type { Recipe } from '@/types/recipe';
+import { toast } from 'sonner';
+
+/**
+ * Checks whether a saved recipe matches the search query.
+ * Titles, descriptions, ingredients and tags are all searched.
+ */
+const matchesQuery = (recipe: Recipe, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+
+  const haystack = [
+    recipe.title,
+    recipe.description,
+    ...recipe.ingredients,
+    ...(recipe.tags || [])
+  ].join(' ').toLowerCase();
+
+  return needle.split(/\s+/).every(term => haystack.includes(term));
+};
+
+const SavedRecipes = () => {
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    getSavedRecipes().then(savedRecipes => {
+      setRecipes(savedRecipes);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const filteredRecipes = useMemo(
+    () => recipes.filter(recipe => matchesQuery(recipe, query)),
+    [recipes, query]
+  );
+
+  // Titles of saved recipes, for labeling the adapted versions saved alongside them
+  const titlesById = useMemo(
+    () => new Map(recipes.map(recipe => [recipe.id, recipe.title])),
+    [recipes]
+  );
+
+  const dropFromList = (recipeId: string) => {
+    setRecipes(prev => prev.filter(recipe => recipe.id !== recipeId));
+  };
+
+  const handleRemove = async (recipeId: string) => {
+    const removed = await removeSavedRecipe(recipeId);
+    if (!removed) {
+      toast.error('Could not remove this recipe. Please try again.');
+      return;
+    }
+    dropFromList(recipeId);
+    toast.success('Recipe removed from your recipe box');
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+
+      <main className="flex-1 max-w-screen-xl mx-auto w-full px-4 py-8">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-display mb-2">Your Recipe Box</h1>
+            <p className="text-muted-foreground">
+              Recipes you bookmarked, ready whenever you are.
+            </p>
+          </div>
+
+          <div className="relative w-full md:w-80">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search titles, ingredients, tags..."
+              className="pl-9"
+              aria-label="Search saved recipes"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <LoadingState variant="minimal" />
+        ) : recipes.length === 0 ? (
+          <div className="text-center py-16">
+            <div className="w-16 h-16 bg-secondary/40 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Bookmark size={24} className="text-muted-foreground" />
+            </div>
+            <p className="text-muted-foreground mb-6">
+              Nothing saved yet. Snap a dish and tap "Save Recipe" to keep it here.
+            </p>
+            <Link to="/">
+              <Button>Snap a Recipe</Button>
+            </Link>
+          </div>
+        ) : filteredRecipes.length === 0 ? (
+          <p className="text-center text-muted-foreground py-16">
+            No saved recipes match "{query}".
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredRecipes.map(recipe => (
+              <div key={recipe.id} className="flex flex-col gap-2">
+                <RecipeCard
+                  recipe={recipe}
+                  onSaveChange={(isSaved) => {
+                    if (!isSaved) dropFromList(recipe.id);
+                  }}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  {recipe.variantLabel ? (
+                    <span className="flex items-center gap-1.5 text-xs text-muted-foreground min-w-0">
+                      <Wand2 size={12} className="flex-shrink-0" />
+                      <span className="truncate">
+                        {recipe.variantLabel} version
+                        {titlesById.has(recipe.parentRecipeId) && ` of ${titlesById.get(recipe.parentRecipeId)}`}
+                      </span>
+                    </span>
+                  ) : <span />}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    icon={<Trash2 size={14} />}
+                    onClick={() => handleRemove(recipe.id)}
+                    className="text-muted-foreground flex-shrink-0"
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SavedRecipes;
@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { AlertCircle, Carrot, Search as SearchIcon, X } from 'lucide-react';
+import Header from '@/components/Header';
+import Button from '@/components/Button';
+import RecipeCard from '@/components/RecipeCard';
+import LoadingState from '@/components/LoadingState';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import {
+  CALORIE_BUCKETS,
+  COOK_TIME_BUCKETS,
+  FacetBucket,
+  getRecipePermalink,
+  getSearchFacets,
+  incrementPopularity,
+  searchRecipes,
+} from '@/lib/recipes';
+
+type SearchMode = 'text' | 'ingredients';
+
+const PAGE_SIZE = 24;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const chipClassName = (active: boolean) => cn(
+  "text-xs px-3 py-1.5 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed",
+  active ? "bg-primary text-primary-foreground" : "bg-secondary/30 hover:bg-secondary/50"
+);
+
+interface FacetGroupProps {
+  title: string;
+  buckets: FacetBucket[];
+  counts?: Record<string, number>;
+  selected: FacetBucket | null;
+  onSelect: (bucket: FacetBucket | null) => void;
+}
+
+const FacetGroup: React.FC<FacetGroupProps> = ({ title, buckets, counts, selected, onSelect }) => (
+  <div>
+    <h3 className="text-sm font-medium mb-2">{title}</h3>
+    <div className="flex flex-wrap gap-2">
+      {buckets.map(bucket => {
+        const count = counts?.[bucket.key];
+        const active = selected?.key === bucket.key;
+        return (
+          <button
+            key={bucket.key}
+            onClick={() => onSelect(active ? null : bucket)}
+            aria-pressed={active}
+            disabled={!active && count === 0}
+            className={chipClassName(active)}
+          >
+            {bucket.label}
+            {count !== undefined && <span className="ml-1 opacity-70">({count})</span>}
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+const Search = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [mode, setMode] = useState<SearchMode>('text');
+  const [queryInput, setQueryInput] = useState(searchParams.get('q') || '');
+  const [query, setQuery] = useState(queryInput.trim());
+  const [ingredientInput, setIngredientInput] = useState('');
+  const [ingredients, setIngredients] = useState<string[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [cookTime, setCookTime] = useState<FacetBucket | null>(null);
+  const [calories, setCalories] = useState<FacetBucket | null>(null);
+
+  // Debounce typing so every keystroke doesn't hit the database
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const trimmed = queryInput.trim();
+      setQuery(trimmed);
+      setSearchParams(trimmed ? { q: trimmed } : {}, { replace: true });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [queryInput, setSearchParams]);
+
+  const activeQuery = mode === 'text' ? query : '';
+  const activeIngredients = mode === 'ingredients' ? ingredients : [];
+  const hasCriteria = activeQuery !== '' || activeIngredients.length > 0;
+
+  const { data: facets } = useQuery({
+    queryKey: ['search-facets', activeQuery, activeIngredients, tags, cookTime?.key, calories?.key],
+    queryFn: () => getSearchFacets({ query: activeQuery, haveIngredients: activeIngredients, tags, cookTime, calories }),
+    enabled: hasCriteria,
+    staleTime: 60 * 1000,
+    // Keep showing the old counts while a filter change reloads them
+    placeholderData: keepPreviousData,
+  });
+
+  const {
+    data,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isPending,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey: ['search-recipes', activeQuery, activeIngredients, tags, cookTime?.key, calories?.key],
+    queryFn: ({ pageParam }) => searchRecipes(
+      { query: activeQuery, haveIngredients: activeIngredients, tags, cookTime, calories },
+      pageParam,
+      PAGE_SIZE
+    ),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextPage,
+    enabled: hasCriteria,
+  });
+
+  const results = data?.pages.flatMap(page => page.results) ?? [];
+  const facetTags = Object.entries(facets?.tags || {}).sort((a, b) => b[1] - a[1]);
+
+  const addIngredients = (value: string) => {
+    const added = value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+    if (added.length === 0) return;
+    setIngredients(current => [...current, ...added.filter(item => !current.includes(item))]);
+    setIngredientInput('');
+  };
+
+  const handleIngredientKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addIngredients(ingredientInput);
+    } else if (e.key === 'Backspace' && ingredientInput === '' && ingredients.length > 0) {
+      setIngredients(current => current.slice(0, -1));
+    }
+  };
+
+  const toggleTag = (tag: string) => {
+    setTags(current => current.includes(tag) ? current.filter(item => item !== tag) : [...current, tag]);
+  };
+
+  const clearFilters = () => {
+    setTags([]);
+    setCookTime(null);
+    setCalories(null);
+  };
+
+  const hasFilters = tags.length > 0 || cookTime !== null || calories !== null;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+
+      <main className="flex-1 max-w-screen-xl mx-auto w-full px-4 py-8">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-display mb-2">Search</h1>
+            <p className="text-muted-foreground">
+              Find recipes by name, ingredient or tag, or by what's already in your kitchen.
+            </p>
+          </div>
+
+          <div className="flex rounded-full border border-border p-0.5 self-start md:self-auto" role="group" aria-label="Search mode">
+            <button
+              onClick={() => setMode('text')}
+              aria-pressed={mode === 'text'}
+              className={cn(
+                "flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium transition-colors",
+                mode === 'text' ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              <SearchIcon size={14} />
+              Search
+            </button>
+            <button
+              onClick={() => setMode('ingredients')}
+              aria-pressed={mode === 'ingredients'}
+              className={cn(
+                "flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium transition-colors",
+                mode === 'ingredients' ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              <Carrot size={14} />
+              I have these ingredients
+            </button>
+          </div>
+        </div>
+
+        {mode === 'text' ? (
+          <div className="relative mb-6">
+            <SearchIcon size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={queryInput}
+              onChange={(e) => setQueryInput(e.target.value)}
+              placeholder='Try "chicken curry", pasta -mushroom, or vegan'
+              className="pl-10"
+              aria-label="Search recipes"
+              autoFocus
+            />
+          </div>
+        ) : (
+          <div className="mb-6">
+            <div className="flex flex-wrap items-center gap-2 rounded-md border border-input bg-background px-3 py-2">
+              {ingredients.map(item => (
+                <span key={item} className="flex items-center gap-1 text-sm bg-secondary/30 rounded-full pl-3 pr-1 py-0.5">
+                  {item}
+                  <button
+                    onClick={() => setIngredients(current => current.filter(other => other !== item))}
+                    className="p-0.5 rounded-full hover:bg-secondary/60"
+                    aria-label={`Remove ${item}`}
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+              <input
+                value={ingredientInput}
+                onChange={(e) => setIngredientInput(e.target.value)}
+                onKeyDown={handleIngredientKeyDown}
+                onBlur={() => addIngredients(ingredientInput)}
+                placeholder={ingredients.length === 0 ? 'Add ingredients, e.g. eggs, spinach, feta' : 'Add another…'}
+                className="flex-1 min-w-[160px] bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+                aria-label="Ingredients you have"
+                autoFocus
+              />
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Press Enter or comma after each ingredient. Recipes using more of them come first.
+            </p>
+          </div>
+        )}
+
+        {hasCriteria && (
+          <div className="space-y-4 mb-8">
+            <FacetGroup
+              title="Cook time"
+              buckets={COOK_TIME_BUCKETS}
+              counts={facets?.cookTime}
+              selected={cookTime}
+              onSelect={setCookTime}
+            />
+            <FacetGroup
+              title="Calories per serving"
+              buckets={CALORIE_BUCKETS}
+              counts={facets?.calories}
+              selected={calories}
+              onSelect={setCalories}
+            />
+            {facetTags.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">Tags</h3>
+                <div className="flex flex-wrap gap-2">
+                  {facetTags.map(([tag, count]) => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTag(tag)}
+                      aria-pressed={tags.includes(tag)}
+                      className={chipClassName(tags.includes(tag))}
+                    >
+                      {tag}
+                      <span className="ml-1 opacity-70">({count})</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {hasFilters && (
+              <button onClick={clearFilters} className="text-sm text-primary hover:underline">
+                Clear filters
+              </button>
+            )}
+          </div>
+        )}
+
+        {!hasCriteria ? (
+          <p className="text-center text-muted-foreground py-16">
+            {mode === 'text'
+              ? 'Start typing to search recipes.'
+              : 'Add a few ingredients you have on hand to see what you can make.'}
+          </p>
+        ) : isPending ? (
+          <LoadingState variant="minimal" />
+        ) : error && results.length === 0 ? (
+          <div className="text-center py-16">
+            <div className="mb-6 p-4 bg-destructive/10 border border-destructive/30 rounded-lg inline-flex items-center text-destructive">
+              <AlertCircle size={20} className="mr-3 flex-shrink-0" />
+              <p>Search failed. Please check your connection.</p>
+            </div>
+            <div>
+              <Button variant="outline" onClick={() => refetch()}>Try Again</Button>
+            </div>
+          </div>
+        ) : results.length === 0 ? (
+          <p className="text-center text-muted-foreground py-16">
+            No recipes match{hasFilters ? ' these filters' : ''}. Try different words or fewer filters.
+          </p>
+        ) : (
+          <>
+            {facets && (
+              <p className="text-sm text-muted-foreground mb-4">
+                {facets.total} {facets.total === 1 ? 'recipe' : 'recipes'} found
+              </p>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {results.map(({ recipe, matchedIngredients }) => (
+                <div key={recipe.id}>
+                  {mode === 'ingredients' && (
+                    <p className="text-sm text-primary font-medium mb-2">
+                      Uses {matchedIngredients} of your {activeIngredients.length} ingredients
+                    </p>
+                  )}
+                  <RecipeCard
+                    recipe={recipe}
+                    shareUrl={getRecipePermalink(recipe.id)}
+                    onOpen={() => incrementPopularity(recipe.id)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {hasNextPage && (
+              <div className="flex justify-center mt-8">
+                <Button variant="outline" onClick={() => fetchNextPage()} isLoading={isFetchingNextPage}>
+                  Load More
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Search;
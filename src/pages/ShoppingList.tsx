@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ClipboardCopy, Download, ShoppingCart, Trash2, X } from 'lucide-react';
+import Header from '@/components/Header';
+import Button from '@/components/Button';
+import LoadingState from '@/components/LoadingState';
+import { Checkbox } from '@/components/ui/checkbox';
+import { cn } from '@/lib/utils';
+import { getSavedRecipes } from '@/lib/savedRecipes';
+import { getPopularRecipes } from '@/lib/recipes';
+import {
+  addRecipesToShoppingList,
+  buildShoppingList,
+  clearShoppingList,
+  formatShoppingListItem,
+  formatShoppingListMarkdown,
+  formatShoppingListText,
+  getCheckedItems,
+  getShoppingListRecipes,
+  removeRecipeFromShoppingList,
+  setItemChecked,
+  ShoppingListRecipe,
+} from '@/utils/shoppingList';
+import type { Recipe } from '@/types/recipe';
+import { toast } from 'sonner';
+
+interface RecipeSourceProps {
+  title: string;
+  recipes: Recipe[];
+  selectedIds: string[];
+  onToggle: (recipe: Recipe, selected: boolean) => void;
+}
+
+/**
+ * A list of recipes that can be ticked to add them to the shopping list
+ */
+const RecipeSource: React.FC<RecipeSourceProps> = ({ title, recipes, selectedIds, onToggle }) => {
+  if (recipes.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-muted-foreground mb-2">{title}</h3>
+      <ul className="space-y-2">
+        {recipes.map(recipe => {
+          const isSelected = selectedIds.includes(recipe.id);
+          return (
+            <li key={recipe.id}>
+              <label className="flex items-center gap-3 text-sm cursor-pointer">
+                <Checkbox
+                  checked={isSelected}
+                  onCheckedChange={(checked) => onToggle(recipe, checked === true)}
+                />
+                <span className="line-clamp-1">{recipe.title}</span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+const ShoppingList = () => {
+  const [listRecipes, setListRecipes] = useState<ShoppingListRecipe[]>(getShoppingListRecipes);
+  const [checked, setChecked] = useState<string[]>(getCheckedItems);
+  const [savedRecipes, setSavedRecipes] = useState<Recipe[]>([]);
+  const [popularRecipes, setPopularRecipes] = useState<Recipe[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    Promise.all([getSavedRecipes(), getPopularRecipes()]).then(([saved, popular]) => {
+      setSavedRecipes(saved);
+      setPopularRecipes(popular);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const groups = useMemo(() => buildShoppingList(listRecipes), [listRecipes]);
+  const selectedIds = listRecipes.map(recipe => recipe.id);
+  const itemCount = groups.reduce((count, group) => count + group.items.length, 0);
+
+  const toggleRecipe = (recipe: ShoppingListRecipe, selected: boolean) => {
+    setListRecipes(selected ? addRecipesToShoppingList([recipe]) : removeRecipeFromShoppingList(recipe.id));
+  };
+
+  const toggleItem = (key: string, isChecked: boolean) => {
+    setChecked(setItemChecked(key, isChecked));
+  };
+
+  const handleClear = () => {
+    clearShoppingList();
+    setListRecipes([]);
+    setChecked([]);
+  };
+
+  const copyToClipboard = async (text: string, format: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`Shopping list copied as ${format}`);
+    } catch (error) {
+      console.error('Error copying shopping list:', error);
+      toast.error('Could not copy the shopping list');
+    }
+  };
+
+  const downloadMarkdown = () => {
+    const blob = new Blob([formatShoppingListMarkdown(groups, checked)], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'shopping-list.md';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Recipes added from a recipe card (e.g. a snapped dish) or the planner that are not in the other lists
+  const otherRecipes = listRecipes.filter(recipe =>
+    !savedRecipes.some(saved => saved.id === recipe.id) &&
+    !popularRecipes.some(popular => popular.id === recipe.id)
+  );
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+
+      <main className="flex-1 max-w-screen-xl mx-auto w-full px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-display mb-2">Shopping List</h1>
+          <p className="text-muted-foreground">
+            Pick the recipes you are cooking and get one list, sorted by aisle.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[300px_1fr] gap-8">
+          {/* Recipe picker */}
+          <aside className="space-y-6">
+            {otherRecipes.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Also on your list</h3>
+                <ul className="space-y-2">
+                  {otherRecipes.map(recipe => (
+                    <li key={recipe.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="line-clamp-1">{recipe.title}</span>
+                      <button
+                        onClick={() => toggleRecipe(recipe, false)}
+                        className="text-muted-foreground hover:text-foreground"
+                        aria-label={`Remove ${recipe.title}`}
+                      >
+                        <X size={14} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {isLoading ? (
+              <LoadingState variant="minimal" />
+            ) : (
+              <>
+                <RecipeSource
+                  title="Saved recipes"
+                  recipes={savedRecipes}
+                  selectedIds={selectedIds}
+                  onToggle={toggleRecipe}
+                />
+                <RecipeSource
+                  title="Popular recipes"
+                  recipes={popularRecipes}
+                  selectedIds={selectedIds}
+                  onToggle={toggleRecipe}
+                />
+                {savedRecipes.length === 0 && popularRecipes.length === 0 && otherRecipes.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    No recipes to choose from yet. <Link to="/" className="text-primary hover:underline">Snap a dish</Link> and
+                    add it from its recipe card.
+                  </p>
+                )}
+              </>
+            )}
+          </aside>
+
+          {/* Merged list */}
+          <section>
+            {groups.length === 0 ? (
+              <div className="text-center py-16 border border-dashed border-border rounded-xl">
+                <div className="w-16 h-16 bg-secondary/40 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <ShoppingCart size={24} className="text-muted-foreground" />
+                </div>
+                <p className="text-muted-foreground">Select recipes to build your shopping list.</p>
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                  <p className="text-sm text-muted-foreground">
+                    {itemCount} items from {listRecipes.length} {listRecipes.length === 1 ? 'recipe' : 'recipes'}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      icon={<ClipboardCopy size={14} />}
+                      onClick={() => copyToClipboard(formatShoppingListText(groups, checked), 'text')}
+                    >
+                      Copy Text
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      icon={<ClipboardCopy size={14} />}
+                      onClick={() => copyToClipboard(formatShoppingListMarkdown(groups, checked), 'Markdown')}
+                    >
+                      Copy Markdown
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      icon={<Download size={14} />}
+                      onClick={downloadMarkdown}
+                    >
+                      Download .md
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      icon={<Trash2 size={14} />}
+                      onClick={handleClear}
+                      className="text-muted-foreground"
+                    >
+                      Clear
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-8">
+                  {groups.map(group => (
+                    <div key={group.aisle}>
+                      <h2 className="font-semibold text-lg mb-3">{group.aisle}</h2>
+                      <ul className="space-y-2">
+                        {group.items.map(item => {
+                          const isChecked = checked.includes(item.key);
+                          return (
+                            <li key={item.key}>
+                              <label className="flex items-start gap-3 cursor-pointer bg-secondary/10 hover:bg-secondary/20 rounded-lg p-3 transition-colors">
+                                <Checkbox
+                                  checked={isChecked}
+                                  onCheckedChange={(value) => toggleItem(item.key, value === true)}
+                                  className="mt-1"
+                                />
+                                <span className="flex-1">
+                                  <span className={cn("leading-relaxed", isChecked && "line-through text-muted-foreground")}>
+                                    {formatShoppingListItem(item)}
+                                  </span>
+                                  <span className="block text-xs text-muted-foreground mt-0.5">
+                                    {item.recipes.join(', ')}
+                                  </span>
+                                </span>
+                              </label>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ShoppingList;
@@ -24,4 +24,6 @@ export interface Recipe {
   popularity_score?: number
   tags?: string[]
   macros?: MacroNutrients
+  parentRecipeId?: string // Set on adapted versions, e.g. a vegan version of another recipe
+  variantLabel?: string // What the version was adapted for, e.g. "Vegan"
 }
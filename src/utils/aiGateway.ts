@@ -0,0 +1,39 @@
+/**
+ * Client for the server-side AI gateway
+ *
+ * Every AI feature goes through here instead of calling https://api.x.ai directly,
+ * so the XAI API key never ships to the browser.
+ */
+
+import { getAiGatewayUrl, getSupabaseAnonKey } from '@/utils/env';
+
+/**
+ * Routes exposed by supabase/functions/ai-gateway
+ */
+export type GatewayRoute = 'analyze' | 'chat' | 'expert' | 'generate-recipe' | 'import-recipe' | 'generate-image';
+
+/**
+ * Posts an XAI request payload to a gateway route
+ * @param route Gateway route matching the calling feature
+ * @param payload Request body in XAI API format (model, messages, stream, ...)
+ * @param signal Optional AbortSignal to cancel the request
+ * @returns The raw Response, so callers can read JSON or consume the stream
+ */
+export async function postToGateway(
+  route: GatewayRoute,
+  payload: object,
+  signal?: AbortSignal
+): Promise<Response> {
+  const anonKey = getSupabaseAnonKey();
+
+  return fetch(`${getAiGatewayUrl()}/${route}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${anonKey}`,
+      'apikey': anonKey
+    },
+    body: JSON.stringify(payload),
+    signal
+  });
+}
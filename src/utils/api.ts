@@ -1,7 +1,20 @@
-import { getXaiApiKey } from '@/utils/env';
+import { z } from 'zod';
+import { chatCompletion, imagePart, XaiContentPart } from '@/utils/xaiClient';
+import { RecipeGenerationError } from '@/utils/xaiErrors';
+import type { MacroNutrients } from '@/types/recipe';
+import { getSettings } from '@/utils/settings';
+import { formatDietaryProfileForPrompt } from '@/utils/dietaryProfile';
+import type { Substitution } from '@/utils/substitutions';
+
+/**
+ * Which parser produced the recipe: the schema-validated JSON response,
+ * or the plain-text extractors used when the model ignores the JSON format
+ */
+export type RecipeParseMode = 'json' | 'fallback';
 
 // Interface for API response
 export interface ApiResponse {
+  parseMode: RecipeParseMode;
   recipe: {
     title: string;
     description: string;
@@ -14,6 +27,8 @@ export interface ApiResponse {
     difficulty: string;
     tags: string[];
     imageUrl?: string;
+    /** How sure the model is of the dish, and what it had to guess */
+    confidenceNote?: string;
     macros?: {
       calories: number;
       protein: number;
@@ -27,6 +42,148 @@ export interface ApiResponse {
   };
 }
 
+/**
+ * Zod schema mirroring ApiResponse['recipe'].
+ * Numbers are coerced because the model sometimes returns "4" instead of 4.
+ */
+const macrosSchema = z.object({
+  calories: z.coerce.number(),
+  protein: z.coerce.number(),
+  carbs: z.coerce.number(),
+  fat: z.coerce.number(),
+  fiber: z.coerce.number().optional(),
+  sugar: z.coerce.number().optional(),
+  sodium: z.coerce.number().optional(),
+  saturatedFat: z.coerce.number().optional(),
+});
+
+export const recipeResponseSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().default(''),
+  ingredients: z.array(z.string()).min(1),
+  instructions: z.array(z.string()).min(1),
+  cookTime: z.string().default('30 mins'),
+  prepTime: z.string().default('15 mins'),
+  totalTime: z.string().default('45 mins'),
+  servings: z.coerce.number().int().positive().default(4),
+  difficulty: z.string().default('Medium'),
+  tags: z.array(z.string()).default([]),
+  macros: macrosSchema.optional(),
+  confidenceNote: z.string().optional(),
+});
+
+/**
+ * Angles the user can label a dish photo with
+ */
+export type PhotoAngle = 'top-down' | 'side' | 'cross-section' | 'menu';
+
+export const PHOTO_ANGLE_LABELS: Record<PhotoAngle, string> = {
+  'top-down': 'Top-down',
+  'side': 'Side',
+  'cross-section': 'Cross-section',
+  'menu': 'Menu card',
+};
+
+/**
+ * One shot of the dish. Several shots of the same dish are analyzed together.
+ */
+export interface FoodPhoto {
+  src: string;
+  angle?: PhotoAngle;
+}
+
+export const MAX_FOOD_PHOTOS = 4;
+
+/**
+ * A possible identification of the dish, offered to the user before the full recipe is generated
+ */
+export interface DishCandidate {
+  name: string;
+  confidence: number; // 0 to 1
+  components: string[]; // Ingredients or elements visible in the photos
+}
+
+const dishCandidatesSchema = z.object({
+  candidates: z.array(z.object({
+    name: z.string().min(1),
+    confidence: z.coerce.number().default(0),
+    components: z.array(z.string()).default([]),
+  })).min(1),
+});
+
+const MAX_DISH_CANDIDATES = 5;
+
+const detectedIngredientsSchema = z.object({
+  ingredients: z.array(z.string()).default([]),
+});
+
+const pantryRecipesSchema = z.object({
+  recipes: z.array(z.unknown()).default([]),
+});
+
+/**
+ * What a packaged food's Nutrition Facts label and ingredient panel say, per labeled serving
+ */
+export interface NutritionLabel {
+  productName: string;
+  servingSize: string; // As printed, e.g. "2/3 cup (55g)"
+  servingSizeGrams?: number;
+  servingsPerContainer?: number;
+  macros: MacroNutrients;
+  allergens: string[];
+  ingredients: string[];
+}
+
+const nutritionLabelSchema = z.object({
+  productName: z.string().default('Packaged product'),
+  servingSize: z.string().min(1),
+  servingSizeGrams: z.coerce.number().positive().optional().catch(undefined),
+  servingsPerContainer: z.coerce.number().positive().optional().catch(undefined),
+  macros: macrosSchema,
+  allergens: z.array(z.string()).default([]),
+  ingredients: z.array(z.string()).default([]),
+});
+
+const substitutionsSchema = z.object({
+  term: z.string().default(''),
+  substitutions: z.array(z.object({
+    replacement: z.string().min(1),
+    ratio: z.string().default(''),
+    texture: z.string().default(''),
+    flavor: z.string().default(''),
+    lines: z.array(z.string()).min(1),
+    mention: z.string().min(1),
+    macroDelta: macrosSchema.partial().optional(),
+  })).default([]),
+});
+
+/**
+ * JSON structure requested from the vision model, kept in sync with recipeResponseSchema
+ */
+const RECIPE_JSON_FORMAT = `{
+  "title": "Descriptive dish title",
+  "description": "A brief, appetizing description (2-3 sentences).",
+  "ingredients": ["Each ingredient with its quantity, e.g. 2 cups flour"],
+  "instructions": ["One step per entry, without leading numbers"],
+  "prepTime": "e.g., 15 mins",
+  "cookTime": "e.g., 30 mins",
+  "totalTime": "e.g., 45 mins",
+  "servings": Number (e.g., 4),
+  "difficulty": "Easy | Medium | Hard",
+  "tags": ["cuisine", "diet", "course"],
+  "confidenceNote": "One or two sentences on how sure you are of the dish and what you had to guess",
+  "macros": {
+    "calories": Number,
+    "protein": Number (grams),
+    "carbs": Number (grams),
+    "fat": Number (grams),
+    "saturatedFat": Number (grams),
+    "fiber": Number (grams),
+    "sugar": Number (grams),
+    "sodium": Number (milligrams)
+  }
+}`;
+
 /**
  * Remove markdown formatting from text
  * @param text The text with possible markdown formatting
@@ -65,78 +222,541 @@ function cleanMarkdown(text: string): string {
 }
 
 /**
- * Sends an image to the XAI Vision API and gets recipe analysis
- * @param imageData Base64 or Data URL of the image
+ * Sends one or more photos of a dish to the XAI Vision API and gets recipe analysis
+ * @param imageData Base64 or Data URL of the image, or up to MAX_FOOD_PHOTOS shots of the same dish
+ * @param dishName Dish the user picked or typed after identifyDish, if any
  * @returns Promise with recipe data
  */
-export async function analyzeFood(imageData: string): Promise<ApiResponse> {
-  // Extract base64 data from data URL if needed
-  let base64Image = imageData;
-  if (imageData.startsWith('data:image')) {
-    base64Image = imageData.split(',')[1];
+export async function analyzeFood(imageData: string | FoodPhoto[], dishName?: string): Promise<ApiResponse> {
+  const photos = toFoodPhotos(imageData);
+  const photoParts = toPhotoParts(photos, "high");
+
+  const question = photos.length === 1
+    ? "What's this dish?"
+    : `These ${photos.length} photos all show the same dish from different angles (possibly with its menu description). Combine what they show: what's this dish?`;
+
+  // The user has confirmed or corrected the dish, so the recipe should follow their answer
+  const dishHint = dishName
+    ? ` The user has confirmed that this dish is "${dishName}". Write the recipe for that dish, using the photos for details such as portion, garnish and visible ingredients.`
+    : '';
+
+  // The dish is still identified as photographed; only the recipe is adapted
+  const dietaryProfile = formatDietaryProfileForPrompt(getSettings().dietaryProfile);
+  const dietaryHint = dietaryProfile
+    ? `\n\n${dietaryProfile}\nIdentify the dish as it appears in the photos, but write the recipe so it suits this profile: replace conflicting ingredients with suitable alternatives and mention the replacements in the description. If the dish cannot be adapted, say so in confidenceNote.`
+    : '';
+
+  try {
+    const content = await chatCompletion('analyze', {
+      model: "grok-2-vision-1212",
+      messages: [
+        {
+          role: "system",
+          content: [
+            {
+              type: "text",
+              text: `You are a helpful AI that analyzes food images and provides detailed recipes. Respond with a recipe that includes: title, description, ingredients list, and step-by-step instructions. Include cooking time, servings, and difficulty. Provide detailed nutritional information per serving, including calories, protein, carbs, total fat, saturated fat, fiber, sugar, and sodium. IMPORTANT: Respond ONLY with a JSON object in exactly this format, with no markdown formatting or text outside the JSON:\n${RECIPE_JSON_FORMAT}`
+            }
+          ]
+        },
+        {
+          role: "user",
+          content: [
+            ...photoParts,
+            {
+              type: "text",
+              text: `${question}${dishHint} Please provide a detailed recipe for it with a descriptive title, list of ingredients, clear instructions, and detailed nutritional information per serving. Include macros (calories, protein, carbs, total fat, saturated fat, fiber, sugar, sodium). In confidenceNote, say how confident you are in the identification and what the photos could not show.${dietaryHint} Return only the JSON object.`
+            }
+          ]
+        }
+      ],
+      response_format: { type: "json_object" }
+    });
+
+    console.log("API Response:", content);
+
+    // Prefer the schema-validated JSON; fall back to the text extractors if the model ignored the format
+    const structuredRecipe = parseStructuredRecipe(content);
+    if (structuredRecipe) {
+      console.log("[Api] Recipe parsed from structured JSON response");
+      return { recipe: structuredRecipe, parseMode: 'json' };
+    }
+
+    console.warn("[Api] Structured parse failed, falling back to text extraction");
+    const recipe = parseRecipeFromResponse(content);
+
+    return { recipe, parseMode: 'fallback' };
+  } catch (error) {
+    console.error('Error analyzing food image:', error);
+    throw error;
+  }
+}
+
+/**
+ * Quickly identifies the dish in one or more photos, without writing the recipe
+ * @param imageData Base64 or Data URL of the image, or up to MAX_FOOD_PHOTOS shots of the same dish
+ * @returns Up to five candidates, most likely first
+ * @throws RecipeGenerationError if the response has no usable candidates
+ */
+export async function identifyDish(imageData: string | FoodPhoto[]): Promise<DishCandidate[]> {
+  const photos = toFoodPhotos(imageData);
+
+  try {
+    const content = await chatCompletion('analyze', {
+      model: "grok-2-vision-1212",
+      messages: [
+        {
+          role: "system",
+          content: `You identify dishes from food photos. List the 3 to 5 most likely dishes, most likely first, each with a confidence between 0 and 1 and the components you can actually see (ingredients, garnishes, sauces). Use specific dish names, e.g. "Pad See Ew" rather than "Noodles". IMPORTANT: Respond ONLY with a JSON object in exactly this format, with no markdown formatting or text outside the JSON:\n{"candidates": [{"name": "Dish name", "confidence": 0.7, "components": ["visible component"]}]}`
+        },
+        {
+          role: "user",
+          content: [
+            ...toPhotoParts(photos, "low"),
+            {
+              type: "text",
+              text: photos.length === 1
+                ? "Which dish is this?"
+                : `These ${photos.length} photos all show the same dish. Which dish is it?`
+            }
+          ]
+        }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.2
+    });
+
+    const result = dishCandidatesSchema.safeParse(parseJsonObject(content));
+    if (!result.success) {
+      throw new RecipeGenerationError('No dish candidates in the response', { content });
+    }
+
+    return result.data.candidates
+      .map(candidate => ({
+        name: cleanMarkdown(candidate.name),
+        // Some responses use percentages instead of fractions
+        confidence: Math.min(1, Math.max(0, candidate.confidence > 1 ? candidate.confidence / 100 : candidate.confidence)),
+        components: candidate.components.map(cleanMarkdown).filter(Boolean)
+      }))
+      .filter(candidate => candidate.name)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_DISH_CANDIDATES);
+  } catch (error) {
+    console.error('Error identifying dish:', error);
+    throw error;
   }
+}
 
-  const apiKey = getXaiApiKey();
+/**
+ * Lists the ingredients visible in photos of a fridge, pantry shelf or countertop
+ * @param imageData Base64 or Data URL of the image, or up to MAX_FOOD_PHOTOS shots
+ * @returns Ingredient names without quantities, e.g. "eggs", "cheddar cheese"
+ * @throws RecipeGenerationError if the response cannot be read
+ */
+export async function detectIngredients(imageData: string | FoodPhoto[]): Promise<string[]> {
+  const photos = toFoodPhotos(imageData);
 
   try {
-    const response = await fetch('https://api.x.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: "grok-2-vision-1212",
-        messages: [
-          {
-            role: "system",
-            content: [
-              {
-                type: "text",
-                text: "You are a helpful AI that analyzes food images and provides detailed recipes. Respond with a recipe that includes: title, description, ingredients list, and step-by-step instructions. Include cooking time, servings, and difficulty. Provide detailed nutritional information per serving, including calories, protein, carbs, total fat, saturated fat, fiber, sugar, and sodium. DO NOT use markdown formatting or symbols (like *, **, #) in your response. Use plain text with clear section headings."
-              }
-            ]
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:image/jpeg;base64,${base64Image}`,
-                  detail: "high"
-                }
-              },
-              {
-                type: "text",
-                text: "What's this dish? Please provide a detailed recipe for it with a descriptive title, list of ingredients, clear instructions, and detailed nutritional information per serving. Include macros (calories, protein, carbs, total fat, saturated fat, fiber, sugar, sodium). Use plain text only, no markdown formatting."
-              }
-            ]
-          }
-        ]
-      })
+    const content = await chatCompletion('analyze', {
+      model: "grok-2-vision-1212",
+      messages: [
+        {
+          role: "system",
+          content: `You take stock of fridges and pantries from photos. List every food ingredient you can identify, using short common names without quantities or brands (e.g. "eggs", "greek yogurt", "red bell pepper"). Skip drinks unless they are cooking ingredients, and skip items you cannot identify. IMPORTANT: Respond ONLY with a JSON object in exactly this format, with no markdown formatting or text outside the JSON:\n{"ingredients": ["ingredient"]}`
+        },
+        {
+          role: "user",
+          content: [
+            ...toPhotoParts(photos, "high"),
+            { type: "text", text: "Which ingredients are in these photos?" }
+          ]
+        }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.2
     });
 
-    if (!response.ok) {
-      throw new Error(`API request failed with status: ${response.status}`);
+    const result = detectedIngredientsSchema.safeParse(parseJsonObject(content));
+    if (!result.success) {
+      throw new RecipeGenerationError('Could not read the detected ingredients', { content });
     }
 
-    const data = await response.json();
-    console.log("API Response:", data.choices[0].message.content);
+    // The same item often shows up on several shelves or photos
+    const seen = new Set<string>();
+    return result.data.ingredients
+      .map(ingredient => cleanMarkdown(ingredient).toLowerCase())
+      .filter(ingredient => ingredient && !seen.has(ingredient) && seen.add(ingredient));
+  } catch (error) {
+    console.error('Error detecting ingredients:', error);
+    throw error;
+  }
+}
+
+/**
+ * Suggests recipes that mainly use the given ingredients
+ * @param ingredients Ingredients the user has, e.g. from detectIngredients
+ * @param count Number of recipes to suggest
+ * @returns The recipes that passed validation
+ * @throws RecipeGenerationError if no valid recipe comes back
+ */
+export async function suggestRecipesFromIngredients(ingredients: string[], count = 3): Promise<ApiResponse['recipe'][]> {
+  const dietaryProfile = formatDietaryProfileForPrompt(getSettings().dietaryProfile);
+  const dietaryHint = dietaryProfile
+    ? `\n\n${dietaryProfile}\nOnly suggest recipes that fit this profile, and leave out any listed ingredient that doesn't.`
+    : '';
 
-    // Parse the response content to extract recipe information
-    const recipe = parseRecipeFromResponse(data.choices[0].message.content);
+  try {
+    const content = await chatCompletion('generate-recipe', {
+      model: "grok-3-latest",
+      messages: [
+        {
+          role: "system",
+          content: `You are a practical home cook who plans meals around what is already in the kitchen. Suggest ${count} different recipes (vary the cuisine and the type of dish) that use mainly the listed ingredients. Besides those, only use common pantry staples such as salt, pepper, oil, butter, flour, sugar and water, plus at most two other ingredients per recipe. Include nutritional information per serving. IMPORTANT: Respond ONLY with a JSON object in exactly this format, with no markdown formatting or text outside the JSON:\n{"recipes": [${RECIPE_JSON_FORMAT}]}`
+        },
+        {
+          role: "user",
+          content: `I have: ${ingredients.join(', ')}. What can I cook?${dietaryHint}`
+        }
+      ],
+      response_format: { type: "json_object" }
+    });
+
+    const result = pantryRecipesSchema.safeParse(parseJsonObject(content));
+    const recipes = (result.success ? result.data.recipes : [])
+      .map(recipe => recipeResponseSchema.safeParse(recipe))
+      .filter(parsed => parsed.success)
+      .map(parsed => toApiRecipe(parsed.data));
+
+    if (recipes.length === 0) {
+      throw new RecipeGenerationError('No valid recipes in the response', { content });
+    }
 
-    return { recipe };
+    console.log(`[Api] ${recipes.length} recipe(s) suggested from ${ingredients.length} ingredients`);
+    return recipes;
   } catch (error) {
-    console.error('Error analyzing food image:', error);
+    console.error('Error suggesting recipes from ingredients:', error);
+    throw error;
+  }
+}
+
+/**
+ * The parts of a recipe sent to the model when adapting it
+ */
+export type AdaptableRecipe = Pick<ApiResponse['recipe'], 'title' | 'description' | 'ingredients' | 'instructions' | 'cookTime' | 'servings'> & {
+  tags?: string[];
+};
+
+/**
+ * Rewrites a recipe to follow an adaptation, e.g. "make it vegan"
+ * @param recipe The recipe to adapt
+ * @param adaptation What to change, as an instruction to the model
+ * @returns The complete adapted recipe, with nutrition recalculated for the new ingredients
+ * @throws RecipeGenerationError if the response is not a valid recipe
+ */
+export async function adaptRecipe(recipe: AdaptableRecipe, adaptation: string): Promise<ApiResponse['recipe']> {
+  const dietaryProfile = formatDietaryProfileForPrompt(getSettings().dietaryProfile);
+  const dietaryHint = dietaryProfile
+    ? `\n\n${dietaryProfile}\nThe adapted recipe must also fit this profile.`
+    : '';
+
+  const original = {
+    title: recipe.title,
+    description: recipe.description,
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+    cookTime: recipe.cookTime,
+    servings: recipe.servings,
+    tags: recipe.tags || []
+  };
+
+  try {
+    const content = await chatCompletion('generate-recipe', {
+      model: "grok-3-latest",
+      messages: [
+        {
+          role: "system",
+          content: `You are a recipe developer who adapts recipes to new requirements. Change only what the requirement needs: keep the dish recognizable, keep the same number of servings, and keep unchanged ingredients and steps worded exactly as they were so the changes are easy to compare. Use replacements a home cook can buy, update every step that mentions a replaced ingredient, and adjust times if the replacements need it. Update the title and tags to reflect the change. Recalculate the nutrition per serving from the adapted ingredients; do not copy the original values. IMPORTANT: Respond ONLY with a JSON object in exactly this format, with no markdown formatting or text outside the JSON:\n${RECIPE_JSON_FORMAT}`
+        },
+        {
+          role: "user",
+          content: `Adapt this recipe. Requirement: ${adaptation}${dietaryHint}\n\nRecipe:\n${JSON.stringify(original, null, 2)}`
+        }
+      ],
+      response_format: { type: "json_object" }
+    });
+
+    const adapted = parseStructuredRecipe(content);
+    if (!adapted) {
+      throw new RecipeGenerationError('The adapted recipe does not match the recipe schema', { content });
+    }
+
+    console.log(`[Api] Recipe adapted: ${adaptation}`);
+    return adapted;
+  } catch (error) {
+    console.error('Error adapting recipe:', error);
+    throw error;
+  }
+}
+
+/**
+ * Asks the model for substitutions for an ingredient the local table doesn't cover
+ * @param line Ingredient line as written in the recipe
+ * @param recipe The recipe the line belongs to, for context
+ * @returns The suggestions that passed validation
+ * @throws RecipeGenerationError if the response has no valid suggestions
+ */
+export async function suggestSubstitutions(line: string, recipe: Pick<AdaptableRecipe, 'title' | 'ingredients' | 'servings'>): Promise<Substitution[]> {
+  const dietaryProfile = formatDietaryProfileForPrompt(getSettings().dietaryProfile);
+  const dietaryHint = dietaryProfile
+    ? `\n\n${dietaryProfile}\nOnly suggest substitutes that fit this profile.`
+    : '';
+
+  try {
+    const content = await chatCompletion('generate-recipe', {
+      model: "grok-3-latest",
+      messages: [
+        {
+          role: "system",
+          content: `You are a chef who knows ingredient substitutions. Suggest up to 3 substitutes for the given ingredient line that work in this recipe, best first, using ingredients a home cook can buy. For each, give the replacement ingredient lines for the same amount as the original line, the word the recipe's steps would use for the replacement, and the change in nutrition for the whole line (replacement minus original, calories in kcal, sodium in mg, the rest in grams). IMPORTANT: Respond ONLY with a JSON object in exactly this format, with no markdown formatting or text outside the JSON:
+{"term": "The ingredient's name as the steps would mention it, e.g. buttermilk", "substitutions": [{"replacement": "Short name, e.g. Milk + lemon juice", "ratio": "e.g. 1 cup buttermilk = 1 cup milk + 1 tbsp lemon juice", "texture": "One sentence on texture", "flavor": "One sentence on flavor", "lines": ["Replacement ingredient lines with quantities"], "mention": "e.g. soured milk", "macroDelta": {"calories": Number, "protein": Number, "carbs": Number, "fat": Number, "sodium": Number}}]}`
+        },
+        {
+          role: "user",
+          content: `Recipe: ${recipe.title} (${recipe.servings} servings)\nAll ingredients: ${recipe.ingredients.join('; ')}\n\nSubstitute: ${line}${dietaryHint}`
+        }
+      ],
+      response_format: { type: "json_object" }
+    });
+
+    const result = substitutionsSchema.safeParse(parseJsonObject(content));
+    if (!result.success || result.data.substitutions.length === 0) {
+      throw new RecipeGenerationError('No valid substitutions in the response', { content });
+    }
+
+    const term = cleanMarkdown(result.data.term);
+    console.log(`[Api] ${result.data.substitutions.length} substitution(s) suggested for "${line}"`);
+    return result.data.substitutions.map(substitution => ({
+      replacement: cleanMarkdown(substitution.replacement),
+      ratio: cleanMarkdown(substitution.ratio),
+      texture: cleanMarkdown(substitution.texture),
+      flavor: cleanMarkdown(substitution.flavor),
+      lines: substitution.lines.map(cleanMarkdown).filter(Boolean),
+      terms: term ? [term] : [],
+      excludes: [],
+      mention: cleanMarkdown(substitution.mention),
+      macroDelta: substitution.macroDelta ?? null,
+      source: 'model'
+    }));
+  } catch (error) {
+    console.error('Error suggesting substitutions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Reads a packaged food's Nutrition Facts label and ingredient panel
+ * @param imageData Base64 or Data URL of the image, or up to MAX_FOOD_PHOTOS shots of the same package
+ * @returns The label values per serving as printed
+ * @throws RecipeGenerationError if no readable nutrition label is found
+ */
+export async function scanNutritionLabel(imageData: string | FoodPhoto[]): Promise<NutritionLabel> {
+  const photos = toFoodPhotos(imageData);
+
+  try {
+    const content = await chatCompletion('analyze', {
+      model: "grok-2-vision-1212",
+      messages: [
+        {
+          role: "system",
+          content: `You read nutrition labels on packaged food. Copy the values exactly as printed for one serving; do not estimate anything that is not on the label. Sodium is in milligrams, everything else except calories in grams. List allergens from the "Contains" statement and any obvious allergens in the ingredient list (milk, eggs, fish, shellfish, tree nuts, peanuts, wheat, soy, sesame). Omit optional fields that are not printed. If the photos do not show a nutrition label, respond with {"error": "no label"}. IMPORTANT: Respond ONLY with a JSON object in exactly this format, with no markdown formatting or text outside the JSON:
+{
+  "productName": "Brand and product name",
+  "servingSize": "As printed, e.g. 2/3 cup (55g)",
+  "servingSizeGrams": Number,
+  "servingsPerContainer": Number,
+  "macros": {
+    "calories": Number,
+    "protein": Number (grams),
+    "carbs": Number (grams),
+    "fat": Number (grams),
+    "saturatedFat": Number (grams),
+    "fiber": Number (grams),
+    "sugar": Number (grams),
+    "sodium": Number (milligrams)
+  },
+  "allergens": ["milk"],
+  "ingredients": ["Ingredient as listed"]
+}`
+        },
+        {
+          role: "user",
+          content: [
+            ...toPhotoParts(photos, "high"),
+            { type: "text", text: "Read the nutrition label and ingredient panel on this package." }
+          ]
+        }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0
+    });
+
+    if (/^\s*\{\s*"error"/.test(content)) {
+      throw new RecipeGenerationError('No nutrition label found in the photo', { content });
+    }
+
+    const result = nutritionLabelSchema.safeParse(parseJsonObject(content));
+    if (!result.success) {
+      throw new RecipeGenerationError('Could not read the nutrition label', { content, issues: result.error.issues });
+    }
+
+    const label = result.data;
+    return {
+      productName: cleanMarkdown(label.productName),
+      servingSize: cleanMarkdown(label.servingSize),
+      servingSizeGrams: label.servingSizeGrams,
+      servingsPerContainer: label.servingsPerContainer,
+      macros: label.macros as MacroNutrients, // zod marks every key optional without strictNullChecks
+      allergens: label.allergens.map(allergen => cleanMarkdown(allergen).toLowerCase()).filter(Boolean),
+      ingredients: label.ingredients.map(cleanMarkdown).filter(Boolean)
+    };
+  } catch (error) {
+    console.error('Error scanning nutrition label:', error);
+    throw error;
+  }
+}
+
+/**
+ * Accepts a single image or a list of shots and caps it at MAX_FOOD_PHOTOS
+ */
+function toFoodPhotos(imageData: string | FoodPhoto[]): FoodPhoto[] {
+  return (typeof imageData === 'string' ? [{ src: imageData }] : imageData).slice(0, MAX_FOOD_PHOTOS);
+}
+
+/**
+ * Builds the image parts of a vision request, labeling each shot so the model knows which view it is looking at
+ */
+function toPhotoParts(photos: FoodPhoto[], detail: 'low' | 'high'): XaiContentPart[] {
+  if (photos.length === 1) {
+    return [imagePart(photos[0].src, detail)];
+  }
+
+  return photos.flatMap((photo, index): XaiContentPart[] => [
+    {
+      type: "text",
+      text: `Photo ${index + 1}${photo.angle ? ` (${PHOTO_ANGLE_LABELS[photo.angle].toLowerCase()} view)` : ''}:`
+    },
+    imagePart(photo.src, detail)
+  ]);
+}
+
+// Long pages are mostly navigation and comments; the recipe itself fits well within this
+const MAX_IMPORT_TEXT_LENGTH = 20_000;
+
+/**
+ * Sends free recipe text (pasted or extracted from a web page) to the model to normalize it
+ * @param text Recipe text in any layout
+ * @returns Promise with recipe data
+ * @throws RecipeGenerationError if the model finds no recipe in the text
+ */
+export async function normalizeRecipeText(text: string): Promise<ApiResponse> {
+  try {
+    const content = await chatCompletion('import-recipe', {
+      model: "grok-3-latest",
+      messages: [
+        {
+          role: "system",
+          content: `You convert recipes written in any layout into structured data. Keep the recipe as written: do not invent ingredients or steps, keep quantities and units as given, and split instructions into one step per entry. Use "##HEADER## Section name" entries for section titles such as "For the sauce". If servings, times or nutrition are missing, estimate them. If the text does not contain a recipe, respond with {"error": "no recipe"}. IMPORTANT: Respond ONLY with a JSON object in exactly this format, with no markdown formatting or text outside the JSON:\n${RECIPE_JSON_FORMAT}`
+        },
+        {
+          role: "user",
+          content: text.slice(0, MAX_IMPORT_TEXT_LENGTH)
+        }
+      ],
+      response_format: { type: "json_object" }
+    });
+
+    if (/^\s*\{\s*"error"/.test(content)) {
+      throw new RecipeGenerationError('No recipe found in the imported text', { content });
+    }
+
+    const structuredRecipe = parseStructuredRecipe(content);
+    if (structuredRecipe) {
+      console.log("[Api] Imported recipe parsed from structured JSON response");
+      return { recipe: structuredRecipe, parseMode: 'json' };
+    }
+
+    console.warn("[Api] Structured parse of imported recipe failed, falling back to text extraction");
+    return { recipe: parseRecipeFromResponse(content), parseMode: 'fallback' };
+  } catch (error) {
+    console.error('Error normalizing recipe text:', error);
     throw error;
   }
 }
 
+/**
+ * Parse the recipe from a JSON response and validate it against recipeResponseSchema
+ * @param responseText Raw model output, possibly wrapped in code fences
+ * @returns The validated recipe, or null if the response is not valid recipe JSON
+ */
+function parseStructuredRecipe(responseText: string): ApiResponse['recipe'] | null {
+  const json = parseJsonObject(responseText);
+  if (json === null) return null;
+
+  const result = recipeResponseSchema.safeParse(json);
+  if (!result.success) {
+    console.warn("[Api] Response JSON does not match the recipe schema:", result.error.issues);
+    return null;
+  }
+
+  return toApiRecipe(result.data);
+}
+
+/**
+ * Reads the JSON object out of a model response
+ * @param responseText Raw model output, possibly wrapped in code fences
+ * @returns The parsed object, or null if there is no valid JSON object
+ */
+function parseJsonObject(responseText: string): unknown | null {
+  if (!responseText) return null;
+
+  // Tolerate code fences or stray text around the JSON object
+  const start = responseText.indexOf('{');
+  const end = responseText.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    return JSON.parse(responseText.slice(start, end + 1));
+  } catch (e) {
+    console.warn("[Api] Response is not valid JSON:", e);
+    return null;
+  }
+}
+
+/**
+ * Cleans a schema-validated recipe into the ApiResponse shape
+ */
+function toApiRecipe(recipe: z.infer<typeof recipeResponseSchema>): ApiResponse['recipe'] {
+  const parsed: ApiResponse['recipe'] = {
+    title: cleanMarkdown(recipe.title),
+    description: cleanMarkdown(recipe.description),
+    ingredients: recipe.ingredients.map(cleanMarkdown).filter(Boolean),
+    instructions: recipe.instructions.map(cleanMarkdown).filter(Boolean),
+    cookTime: cleanMarkdown(recipe.cookTime),
+    prepTime: cleanMarkdown(recipe.prepTime),
+    totalTime: cleanMarkdown(recipe.totalTime),
+    servings: recipe.servings,
+    difficulty: cleanMarkdown(recipe.difficulty),
+    tags: recipe.tags.map(cleanMarkdown).filter(Boolean),
+    confidenceNote: recipe.confidenceNote ? cleanMarkdown(recipe.confidenceNote) : undefined,
+    macros: recipe.macros as ApiResponse['recipe']['macros'] // zod marks every key optional without strictNullChecks
+  };
+
+  return parsed;
+}
+
 /**
  * Parse the recipe information from the AI response text
- * This is a simple implementation and might need refinement based on actual API response format
+ * Only used as a fallback when the structured JSON response cannot be validated
  */
 function parseRecipeFromResponse(responseText: string): ApiResponse['recipe'] {
   try {
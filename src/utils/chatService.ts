@@ -1,5 +1,7 @@
-import { getXaiApiKey } from '@/utils/env';
+import { chatCompletion, streamChatCompletion, type ChatCompletionRequest, type XaiMessage } from '@/utils/xaiClient';
 import type { Recipe } from '@/components/RecipeCard';
+import { getSettings } from '@/utils/settings';
+import { formatDietaryProfileForPrompt } from '@/utils/dietaryProfile';
 
 interface ChatMessage {
   role: 'user' | 'chef';
@@ -41,14 +43,8 @@ export async function sendMessageToChef(
   history: ChatMessage[] = [],
   onChunk?: (chunk: string, done: boolean) => void
 ): Promise<string | void> {
-  const apiKey = getXaiApiKey();
-
-  if (!apiKey) {
-    throw new Error('API key is required for chat functionality');
-  }
-
   // Convert our chat history format to the format expected by the XAI API
-  const messageHistory = history.map(msg => ({
+  const messageHistory: XaiMessage[] = history.map(msg => ({
     role: msg.role === 'chef' ? 'assistant' : 'user',
     content: msg.content
   }));
@@ -66,6 +62,11 @@ Key Instructions:
 ${recipe.instructions.slice(0, 5).map((step, i) => `${i + 1}. ${step}`).join('\n')}
 `;
 
+  const dietaryProfile = formatDietaryProfileForPrompt(getSettings().dietaryProfile);
+  const dietaryContext = dietaryProfile
+    ? `\n\n${dietaryProfile}\nKeep every tip and substitution within this profile, and point out ingredients in the recipe that conflict with it.`
+    : '';
+
   // System message that encourages the AI to format responses with paragraphs
   const systemMessage = `You are a friendly and knowledgeable chef assistant helping someone with questions about a specific recipe.
 Answer questions about cooking techniques, ingredient substitutions, and provide helpful tips based on the recipe details provided.
@@ -74,11 +75,11 @@ FORMAT YOUR RESPONSES WITH CLEAR PARAGRAPHS instead of one long block of text. U
 
 Keep your responses conversational, helpful, and concise (under 200 words).
 Always relate your answers back to the specific recipe the user is preparing.
-The user is preparing the following recipe: ${recipeContext}`;
+The user is preparing the following recipe: ${recipeContext}${dietaryContext}`;
 
   try {
     // Create the request payload
-    const payload = {
+    const request: ChatCompletionRequest = {
       model: "grok-3-latest",
       messages: [
         {
@@ -92,88 +93,19 @@ The user is preparing the following recipe: ${recipeContext}`;
           role: "user",
           content: message
         }
-      ],
-      // Enable streaming if a callback is provided
-      stream: !!onChunk
+      ]
     };
 
     // If streaming is enabled
     if (onChunk) {
-      const response = await fetch('https://api.x.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(payload)
+      const fullResponse = await streamChatCompletion('chat', request, (accumulated) => {
+        onChunk(formatChefResponse(accumulated), false);
       });
-
-      if (!response.ok) {
-        throw new Error(`Chat API request failed with status: ${response.status}`);
-      }
-
-      // Handle the streaming response
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('Failed to get response reader');
-      }
-
-      const decoder = new TextDecoder();
-      let accumulatedResponse = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) {
-          onChunk(formatChefResponse(accumulatedResponse), true);
-          break;
-        }
-
-        // Decode the chunk
-        const chunk = decoder.decode(value);
-
-        // Process the SSE data
-        const lines = chunk.split('\n').filter(line => line.trim().startsWith('data: '));
-
-        for (const line of lines) {
-          // Skip the [DONE] line
-          if (line.includes('[DONE]')) continue;
-
-          try {
-            // Extract the JSON content
-            const jsonString = line.substring(line.indexOf('{'));
-            const data = JSON.parse(jsonString);
-
-            // Get the content delta
-            const contentDelta = data.choices[0]?.delta?.content || '';
-            if (contentDelta) {
-              accumulatedResponse += contentDelta;
-              onChunk(formatChefResponse(accumulatedResponse), false);
-            }
-          } catch (e) {
-            console.error('Error parsing streaming response chunk:', e);
-          }
-        }
-      }
-
+      onChunk(formatChefResponse(fullResponse), true);
       return;
     } else {
       // Non-streaming request
-      const response = await fetch('https://api.x.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(payload)
-      });
-
-      if (!response.ok) {
-        throw new Error(`Chat API request failed with status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const chefResponse = data.choices[0].message.content;
+      const chefResponse = await chatCompletion('chat', request);
 
       // Format the response before returning
       return formatChefResponse(chefResponse);
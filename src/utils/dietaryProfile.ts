@@ -0,0 +1,218 @@
+/**
+ * The user's dietary profile: allergies, diets and disliked ingredients.
+ *
+ * The profile is kept with the other settings (getSettings().dietaryProfile) and, if the user opts in,
+ * backed up to Supabase (src/lib/dietaryProfiles.ts). The AI features add it to their
+ * prompts, and recipe cards check ingredient lines against it.
+ */
+
+export interface DietaryProfile {
+  /** Allergen ids from ALLERGENS, or free-text allergens */
+  allergies: string[];
+  /** Diet ids from DIETS */
+  diets: string[];
+  /** Free-text ingredients the user doesn't like */
+  dislikes: string[];
+  /** Whether the profile is also stored in Supabase */
+  syncEnabled: boolean;
+  /** ISO timestamp of the last change, used to pick the newer copy when syncing */
+  updatedAt: string | null;
+}
+
+export const EMPTY_DIETARY_PROFILE: DietaryProfile = {
+  allergies: [],
+  diets: [],
+  dislikes: [],
+  syncEnabled: false,
+  updatedAt: null,
+};
+
+interface DietaryRule {
+  id: string;
+  label: string;
+  /** Ingredient words that break the rule; plurals are matched too */
+  keywords: string[];
+}
+
+const MEAT = [
+  'chicken', 'beef', 'pork', 'lamb', 'mutton', 'veal', 'venison', 'goat', 'turkey', 'duck', 'goose',
+  'bacon', 'ham', 'sausage', 'chorizo', 'salami', 'pepperoni', 'prosciutto', 'pancetta', 'guanciale',
+  'steak', 'mince', 'meatball', 'brisket', 'rib', 'oxtail', 'liver', 'lard', 'suet', 'gelatin', 'gelatine',
+];
+const FISH = [
+  'fish', 'salmon', 'tuna', 'cod', 'haddock', 'halibut', 'tilapia', 'trout', 'mackerel', 'sardine',
+  'anchovy', 'anchovies', 'sea bass', 'snapper', 'swordfish', 'catfish', 'bonito', 'worcestershire', 'seafood',
+];
+const SHELLFISH = [
+  'shrimp', 'prawn', 'crab', 'lobster', 'crawfish', 'crayfish', 'langoustine', 'scallop', 'clam',
+  'mussel', 'oyster', 'squid', 'calamari', 'octopus', 'seafood',
+];
+const DAIRY = [
+  'milk', 'butter', 'buttermilk', 'cream', 'cheese', 'yogurt', 'yoghurt', 'ghee', 'whey', 'casein',
+  'parmesan', 'mozzarella', 'cheddar', 'ricotta', 'mascarpone', 'feta', 'brie', 'gouda', 'paneer',
+  'creme fraiche', 'crème fraîche', 'custard',
+];
+const EGGS = ['egg', 'mayonnaise', 'mayo', 'aioli', 'meringue'];
+const GLUTEN = [
+  'wheat', 'flour', 'bread', 'breadcrumb', 'panko', 'pasta', 'spaghetti', 'linguine', 'fettuccine',
+  'penne', 'macaroni', 'lasagna', 'lasagne', 'noodle', 'couscous', 'bulgur', 'semolina', 'farro',
+  'barley', 'rye', 'spelt', 'seitan', 'soy sauce', 'tortilla', 'pita', 'naan', 'croutons', 'beer',
+];
+const HIGH_CARB = [
+  'sugar', 'honey', 'maple syrup', 'agave', 'flour', 'bread', 'pasta', 'noodle', 'rice', 'potato',
+  'corn', 'oats', 'quinoa', 'couscous', 'tortilla', 'beans', 'lentils', 'chickpeas', 'banana',
+];
+
+export const ALLERGENS: DietaryRule[] = [
+  { id: 'peanuts', label: 'Peanuts', keywords: ['peanut', 'groundnut', 'satay'] },
+  {
+    id: 'tree-nuts',
+    label: 'Tree nuts',
+    keywords: ['almond', 'cashew', 'walnut', 'pecan', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut', 'pine nut', 'praline', 'marzipan', 'nut'],
+  },
+  { id: 'milk', label: 'Milk', keywords: DAIRY },
+  { id: 'eggs', label: 'Eggs', keywords: EGGS },
+  { id: 'gluten', label: 'Gluten (wheat)', keywords: GLUTEN },
+  { id: 'soy', label: 'Soy', keywords: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari'] },
+  { id: 'fish', label: 'Fish', keywords: FISH },
+  { id: 'shellfish', label: 'Shellfish', keywords: SHELLFISH },
+  { id: 'sesame', label: 'Sesame', keywords: ['sesame', 'tahini', 'halva'] },
+];
+
+export const DIETS: DietaryRule[] = [
+  { id: 'vegetarian', label: 'Vegetarian', keywords: [...MEAT, ...FISH, ...SHELLFISH] },
+  { id: 'vegan', label: 'Vegan', keywords: [...MEAT, ...FISH, ...SHELLFISH, ...DAIRY, ...EGGS, 'honey'] },
+  { id: 'pescatarian', label: 'Pescatarian', keywords: MEAT },
+  { id: 'gluten-free', label: 'Gluten-free (celiac)', keywords: GLUTEN },
+  { id: 'dairy-free', label: 'Dairy-free', keywords: DAIRY },
+  { id: 'keto', label: 'Keto', keywords: HIGH_CARB },
+  { id: 'halal', label: 'Halal', keywords: ['pork', 'bacon', 'ham', 'prosciutto', 'pancetta', 'lard', 'gelatin', 'wine', 'beer', 'rum', 'brandy', 'bourbon', 'sake', 'mirin'] },
+];
+
+// Phrases that contain a keyword but don't break the rule, e.g. "coconut milk" for a dairy allergy.
+// They are replaced before a line is checked; the first word is kept where it matters on its own
+// ("peanut butter" still conflicts with a peanut allergy, just not with a dairy one).
+const SAFE_PHRASES: [RegExp, string][] = [
+  [/\b(?:vegan|plant[- ]based|meatless|imitation|mock)\s+[\w-]+(?:\s+[\w-]+)?/g, ' '],
+  [/\b(coconut|almond|oat|soy|rice|cashew|hemp)\s+(?:milk|cream|yogh?urt|butter|cheese)\b/g, '$1'],
+  [/\b(peanut|almond|cashew|cocoa|shea|apple|nut)\s+butter\b/g, '$1'],
+  [/\bcream of tartar\b/g, ' '],
+  [/\b(buckwheat|rice|almond|coconut|corn|chickpea|tapioca|cassava|oat)\s+(?:flour|noodles?|pasta|tortillas?|bread)\b/g, '$1'],
+  [/\b(?:vegetable|mushroom|veggie)\s+(?:broth|stock)\b/g, ' '],
+  [/\bcauliflower rice\b/g, ' '],
+];
+
+// "Gluten-free flour" is fine for a gluten allergy but still counts for keto, so a "<thing>-free" label
+// only lifts the rules it names, listed here by rule id. Labels like "fat-free" or "salt-free" lift nothing,
+// and neither does "lactose-free" (lactose-free milk is still milk).
+const FREE_FROM: Record<string, string[]> = {
+  gluten: ['gluten', 'gluten-free'],
+  wheat: ['gluten', 'gluten-free'],
+  dairy: ['milk', 'dairy-free'],
+  milk: ['milk', 'dairy-free'],
+  egg: ['eggs'],
+  nut: ['peanuts', 'tree-nuts'],
+  peanut: ['peanuts'],
+  soy: ['soy'],
+  sesame: ['sesame'],
+};
+
+const FREE_FROM_PATTERN = new RegExp(`\\b(${Object.keys(FREE_FROM).join('|')})[- ]free\\b`, 'g');
+// The label itself is dropped before matching ("sugar-free" isn't sugar); the rest of the line is still checked
+const FREE_LABEL = /\b\w+-free\b/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Matches a keyword as a whole word, including simple plurals ("egg" matches "eggs")
+ */
+const containsKeyword = (text: string, keyword: string): boolean =>
+  new RegExp(`(^|[^a-z])${escapeRegExp(keyword.toLowerCase())}(e?s)?($|[^a-z])`).test(text);
+
+const stripSafePhrases = (line: string): string =>
+  SAFE_PHRASES.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), line.toLowerCase());
+
+/**
+ * Ids of the rules a line is labeled free of, e.g. ["gluten", "gluten-free"] for "gluten-free pasta"
+ */
+const getFreeFromRules = (line: string): string[] =>
+  Array.from(line.toLowerCase().matchAll(FREE_FROM_PATTERN), match => FREE_FROM[match[1]]).flat();
+
+const findRule = (rules: DietaryRule[], id: string) => rules.find(rule => rule.id === id);
+
+/**
+ * Human-readable name of an allergy or diet id (free-text entries are returned as is)
+ */
+export const getAllergyLabel = (id: string): string => findRule(ALLERGENS, id)?.label ?? id;
+export const getDietLabel = (id: string): string => findRule(DIETS, id)?.label ?? id;
+
+/**
+ * Whether the profile restricts anything
+ */
+export const hasDietaryRestrictions = (profile: DietaryProfile): boolean =>
+  profile.allergies.length > 0 || profile.diets.length > 0 || profile.dislikes.length > 0;
+
+export interface DietaryConflict {
+  /** Position of the line in the recipe's ingredient list */
+  index: number;
+  ingredient: string;
+  /** Why the line conflicts, e.g. "Peanuts allergy" or "Vegan" */
+  reasons: string[];
+}
+
+/**
+ * Checks ingredient lines against a dietary profile.
+ * Keyword matching can't be exhaustive, so this catches the common cases rather than guaranteeing safety.
+ * Only "-free" labels for the restriction itself count: "gluten-free pasta" passes a gluten allergy, but
+ * "1 cup fat-free milk" still conflicts with a milk allergy, "2 tbsp sugar-free peanut butter" with a peanut
+ * allergy, "2 large free range eggs" with an egg allergy and "1 cup salt-free chicken broth" with a vegetarian diet.
+ * @param ingredients Ingredient lines of a recipe
+ * @param profile The user's dietary profile
+ * @returns One entry per conflicting line
+ */
+export function findDietaryConflicts(ingredients: string[], profile: DietaryProfile): DietaryConflict[] {
+  if (!hasDietaryRestrictions(profile)) return [];
+
+  const checks: { id?: string; reason: string; keywords: string[] }[] = [
+    ...profile.allergies.map(id => ({
+      id,
+      reason: `${getAllergyLabel(id)} allergy`,
+      keywords: findRule(ALLERGENS, id)?.keywords ?? [id],
+    })),
+    ...profile.diets
+      .map(id => findRule(DIETS, id))
+      .filter(Boolean)
+      .map(rule => ({ id: rule.id, reason: rule.label, keywords: rule.keywords })),
+    ...profile.dislikes.map(dislike => ({ reason: `You dislike ${dislike}`, keywords: [dislike] })),
+  ];
+
+  return ingredients.flatMap((ingredient, index) => {
+    const text = stripSafePhrases(ingredient).replace(FREE_FROM_PATTERN, ' ').replace(FREE_LABEL, ' ');
+    const freeFrom = getFreeFromRules(ingredient);
+    const reasons = checks
+      .filter(check => !freeFrom.includes(check.id))
+      .filter(check => check.keywords.some(keyword => containsKeyword(text, keyword)))
+      .map(check => check.reason);
+    return reasons.length > 0 ? [{ index, ingredient, reasons }] : [];
+  });
+}
+
+/**
+ * Describes the profile for a model prompt, or returns an empty string if there are no restrictions.
+ * Callers add their own instruction on how to apply it.
+ */
+export function formatDietaryProfileForPrompt(profile: DietaryProfile): string {
+  if (!hasDietaryRestrictions(profile)) return '';
+
+  const lines = ["The user's dietary profile:"];
+  if (profile.allergies.length > 0) {
+    lines.push(`- Allergies (never include these, their derivatives, or ingredients likely to contain them): ${profile.allergies.map(getAllergyLabel).join(', ')}`);
+  }
+  if (profile.diets.length > 0) {
+    lines.push(`- Diets they follow: ${profile.diets.map(getDietLabel).join(', ')}`);
+  }
+  if (profile.dislikes.length > 0) {
+    lines.push(`- Ingredients they dislike (avoid or replace): ${profile.dislikes.join(', ')}`);
+  }
+  return lines.join('\n');
+}
@@ -6,8 +6,11 @@
  */
 
 // Define your environment variables here
+// The XAI API key is deliberately absent: it lives in the ai-gateway Edge Function
 interface EnvVariables {
-  XAI_API_KEY: string;
+  SUPABASE_URL: string;
+  SUPABASE_ANON_KEY: string;
+  AI_GATEWAY_URL: string;
   // Add more environment variables as needed
 }
 
@@ -23,9 +26,18 @@ export function getEnvVariable(key: keyof EnvVariables): string {
   return value;
 }
 
-// Get the XAI API key
-export function getXaiApiKey(): string {
-  return getEnvVariable('XAI_API_KEY');
+// Get the AI gateway base URL, defaulting to the Supabase Edge Function
+export function getAiGatewayUrl(): string {
+  const explicitUrl = import.meta.env.VITE_AI_GATEWAY_URL;
+  if (explicitUrl) {
+    return explicitUrl.replace(/\/$/, '');
+  }
+  return `${getEnvVariable('SUPABASE_URL')}/functions/v1/ai-gateway`;
+}
+
+// Get the Supabase anon key, which the gateway requires as its bearer token
+export function getSupabaseAnonKey(): string {
+  return getEnvVariable('SUPABASE_ANON_KEY');
 }
 
 // Check if we're in a production environment
@@ -1,4 +1,6 @@
-import { getXaiApiKey } from '@/utils/env';
+import { imagePart, streamChatCompletion, type XaiContentPart, type XaiMessage } from '@/utils/xaiClient';
+import { getSettings } from '@/utils/settings';
+import { formatDietaryProfileForPrompt } from '@/utils/dietaryProfile';
 
 // Define the structure for chat messages (consistent with CulinaryExpertChat.tsx)
 interface ChatMessage {
@@ -7,12 +9,6 @@ interface ChatMessage {
   id?: string;
 }
 
-// Define the structure expected by the XAI API
-interface XaiChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string | Array<{ type: string; text?: string; image_url?: { url: string, detail?: string }; }>;
-}
-
 /**
  * Formats the expert's response (similar to chatService)
  * @param text The raw response text
@@ -43,45 +39,33 @@ export async function sendMessageToExpert(
   history: ChatMessage[] = [],
   onChunk: (chunk: string, done: boolean) => void
 ): Promise<void> {
-  const apiKey = getXaiApiKey();
-
-  if (!apiKey) {
-    throw new Error('API key is required for chat functionality');
-  }
-
   // Convert FE history to XAI API format (filtering out non-string content for history)
-  const messageHistory: XaiChatMessage[] = history
+  const messageHistory: XaiMessage[] = history
     .filter(msg => typeof msg.content === 'string') // Only include text history for context
     .map(msg => ({
       role: msg.role === 'expert' ? 'assistant' : 'user',
       content: msg.content as string // We filtered non-strings
     }));
 
+  const dietaryProfile = formatDietaryProfileForPrompt(getSettings().dietaryProfile);
+  const dietaryContext = dietaryProfile
+    ? `\n\n${dietaryProfile}\nRespect it in any recipe or suggestion, and warn the user when a dish or ingredient they ask about conflicts with it.`
+    : '';
+
   // Define the system prompt for the culinary expert
   const systemMessage = `You are a friendly, knowledgeable, and versatile Culinary Expert AI.
 Answer general questions about cooking, recipes, ingredients, techniques, food science, nutrition, and culinary history.
 If the user uploads an image, analyze it and provide relevant information, such as identifying the dish, suggesting recipes, or answering questions about it.
 
 FORMAT YOUR RESPONSES CLEARLY. Use paragraphs for text. If analyzing an image, describe what you see first, then answer any related questions.
-Keep your tone helpful, encouraging, and informative.`;
+Keep your tone helpful, encouraging, and informative.${dietaryContext}`;
 
   // Construct the user message content for the API
-  const userApiContent: Array<{ type: string; text?: string; image_url?: { url: string, detail?: string }; }> = [];
+  const userApiContent: XaiContentPart[] = [];
 
   if (imageData) {
-    // Add image part (ensure it includes the data URL prefix)
-    let imageUrl = imageData;
-    if (!imageData.startsWith('data:image')) {
-      // Attempt to guess common types if prefix is missing (though frontend should provide it)
-      imageUrl = `data:image/jpeg;base64,${imageData}`;
-    }
-    userApiContent.push({
-      type: "image_url",
-      image_url: {
-        url: imageUrl,
-        detail: "high" // Use high detail for better analysis
-      }
-    });
+    // Add image part (imagePart adds the data URL prefix if the frontend left it off)
+    userApiContent.push(imagePart(imageData, "high")); // Use high detail for better analysis
   }
 
   // Add text part
@@ -94,70 +78,23 @@ Keep your tone helpful, encouraging, and informative.`;
   const model = imageData ? "grok-2-vision-1212" : "grok-3-latest";
 
   try {
-    const payload = {
-      model: model,
-      messages: [
-        { role: "system", content: systemMessage },
-        ...messageHistory,
-        { role: "user", content: userApiContent }
-      ],
-      stream: true // Always stream for this chat
-    };
-
-    const response = await fetch('https://api.x.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
+    const fullResponse = await streamChatCompletion(
+      'expert',
+      {
+        model: model,
+        messages: [
+          { role: "system", content: systemMessage },
+          ...messageHistory,
+          { role: "user", content: userApiContent }
+        ]
       },
-      body: JSON.stringify(payload)
-    });
-
-    if (!response.ok) {
-       const errorBody = await response.text();
-       console.error('Expert Chat API Error Body:', errorBody);
-       throw new Error(`Expert Chat API request failed with status: ${response.status}`);
-    }
-
-    // Handle the streaming response (similar to chatService.ts)
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('Failed to get response reader');
-    }
-
-    const decoder = new TextDecoder();
-    let accumulatedResponse = '';
-
-    while (true) {
-      const { done, value } = await reader.read();
-
-      if (done) {
-        onChunk(formatExpertResponse(accumulatedResponse), true); // Final chunk
-        break;
-      }
-
-      const chunk = decoder.decode(value);
-      const lines = chunk.split('\n').filter(line => line.trim().startsWith('data: '));
-
-      for (const line of lines) {
-        if (line.includes('[DONE]')) continue;
-
-        try {
-          const jsonString = line.substring(line.indexOf('{'));
-          const data = JSON.parse(jsonString);
-          const contentDelta = data.choices[0]?.delta?.content || '';
-
-          if (contentDelta) {
-            accumulatedResponse += contentDelta;
-            // Send intermediate formatted chunk
-            onChunk(formatExpertResponse(accumulatedResponse + '...'), false);
-          }
-        } catch (e) {
-          console.error('Error parsing streaming expert response chunk:', e, 'Line:', line);
-        }
+      (accumulated) => {
+        // Send intermediate formatted chunk
+        onChunk(formatExpertResponse(accumulated + '...'), false);
       }
-    }
+    );
 
+    onChunk(formatExpertResponse(fullResponse), true); // Final chunk
   } catch (error) {
     console.error('Error communicating with culinary expert AI:', error);
     // Provide a user-friendly error message via the callback
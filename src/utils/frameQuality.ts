@@ -0,0 +1,64 @@
+/**
+ * Live quality checks for camera frames, used to warn before a shot is taken
+ * that will be too dark or too blurry for the vision model to read.
+ */
+
+export type FrameQualityIssue = 'too-dark' | 'too-blurry';
+
+export interface FrameQuality {
+  /** Mean luma, 0 (black) to 255 (white) */
+  luminance: number;
+  /** Variance of the Laplacian of the luma; low values mean few sharp edges */
+  sharpness: number;
+}
+
+// Width frames are sampled at; the thresholds below are tuned for this size
+export const FRAME_SAMPLE_WIDTH = 160;
+
+const DARK_LUMINANCE = 45;
+const BLURRY_SHARPNESS = 60;
+
+/**
+ * Measures brightness and sharpness of an RGBA frame
+ * @param frame Pixels of a downscaled camera frame
+ * @returns Mean luminance and Laplacian variance
+ */
+export function measureFrameQuality({ data, width, height }: ImageData): FrameQuality {
+  const luma = new Float32Array(width * height);
+  let total = 0;
+  for (let i = 0; i < luma.length; i++) {
+    // ITU-R BT.601 luma weights
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    total += luma[i];
+  }
+
+  // 4-neighbour Laplacian over the interior pixels
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = luma[i - width] + luma[i + width] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  const mean = count > 0 ? sum / count : 0;
+  return {
+    luminance: luma.length > 0 ? total / luma.length : 0,
+    sharpness: count > 0 ? sumOfSquares / count - mean * mean : 0,
+  };
+}
+
+/**
+ * Picks the most important problem with a frame, if any.
+ * Darkness is reported first: dark frames also look soft, and more light fixes both.
+ */
+export function getFrameQualityIssue({ luminance, sharpness }: FrameQuality): FrameQualityIssue | null {
+  if (luminance < DARK_LUMINANCE) return 'too-dark';
+  if (sharpness < BLURRY_SHARPNESS) return 'too-blurry';
+  return null;
+}
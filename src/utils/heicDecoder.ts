@@ -0,0 +1,100 @@
+/**
+ * HEIC/HEIF decoding for iPhone photos. Only Safari decodes HEIC natively, so other
+ * browsers use libheif compiled to WebAssembly. The decoder is about 2 MB and is only
+ * downloaded the first time a HEIC photo is processed.
+ */
+
+const HEIC_MIME_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+// ISO BMFF brands written by iPhones and other HEIF encoders (AVIF uses its own brands)
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs', 'mif1', 'msf1'];
+
+const HEIC_EXTENSION = /\.(heic|heif)$/i;
+
+interface HeifImage {
+  get_width(): number;
+  get_height(): number;
+  is_primary(): boolean;
+  display(imageData: ImageData, callback: (result: ImageData | null) => void): void;
+  free(): void;
+}
+
+interface HeifDecoder {
+  decode(data: Uint8Array): HeifImage[];
+}
+
+interface LibHeif {
+  HeifDecoder: new () => HeifDecoder;
+}
+
+let libheifPromise: Promise<LibHeif> | null = null;
+
+const loadLibheif = (): Promise<LibHeif> => {
+  if (!libheifPromise) {
+    console.log('[HeicDecoder] Loading the HEIC decoder');
+    libheifPromise = import('libheif-js/libheif-wasm/libheif-bundle.mjs')
+      .then(module => module.default() as LibHeif)
+      .catch(error => {
+        // Allow another attempt, e.g. after a dropped connection
+        libheifPromise = null;
+        throw error;
+      });
+  }
+  return libheifPromise;
+};
+
+/**
+ * Whether a file is labeled as HEIC/HEIF by its MIME type or, since browsers often
+ * leave the type of .heic files empty, by its name
+ */
+export const isHeicFileType = (source: Blob): boolean =>
+  HEIC_MIME_TYPES.includes(source.type) || (source instanceof File && HEIC_EXTENSION.test(source.name));
+
+/**
+ * Whether a file or blob is a HEIC/HEIF image, checking the file's own header
+ * when its type and name don't say
+ */
+export async function isHeicImage(source: Blob): Promise<boolean> {
+  if (isHeicFileType(source)) return true;
+  if (source.type && source.type !== 'application/octet-stream') return false;
+
+  // The ftyp box starts every HEIF file: 4 bytes of size, 'ftyp', then the major brand
+  const header = new Uint8Array(await source.slice(0, 12).arrayBuffer());
+  const boxType = String.fromCharCode(...header.slice(4, 8));
+  const brand = String.fromCharCode(...header.slice(8, 12));
+  return boxType === 'ftyp' && HEIC_BRANDS.includes(brand);
+}
+
+/**
+ * Decodes the primary image of a HEIC/HEIF file to upright RGBA pixels
+ * @param source HEIC/HEIF file or blob
+ * @returns Decoded pixels, ready for createImageBitmap or a canvas
+ * @throws Error if the decoder cannot be loaded or the file is not a readable HEIF image
+ */
+export async function decodeHeic(source: Blob): Promise<ImageData> {
+  const libheif = await loadLibheif();
+  const images = new libheif.HeifDecoder().decode(new Uint8Array(await source.arrayBuffer()));
+  if (images.length === 0) {
+    throw new Error('Could not decode HEIC image');
+  }
+
+  // Burst and Live Photo files contain several images; the primary one is the photo itself
+  const image = images.find(candidate => candidate.is_primary()) || images[0];
+  const width = image.get_width();
+  const height = image.get_height();
+
+  try {
+    // libheif applies the file's rotation and mirroring while decoding
+    return await new Promise<ImageData>((resolve, reject) => {
+      image.display(new ImageData(width, height), result => {
+        if (result) {
+          resolve(result);
+        } else {
+          reject(new Error('Could not decode HEIC image'));
+        }
+      });
+    });
+  } finally {
+    images.forEach(decoded => decoded.free());
+  }
+}
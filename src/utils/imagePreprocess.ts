@@ -0,0 +1,217 @@
+/**
+ * Prepares photos for the vision model: applies the EXIF orientation, crops, downscales
+ * and re-encodes them. Re-encoding through a canvas writes a fresh file, so EXIF data
+ * such as GPS position and camera details never leaves the device.
+ *
+ * The work runs in a Web Worker with OffscreenCanvas when the browser supports it
+ * (src/workers/imagePreprocess.worker.ts), otherwise on the main thread.
+ * HEIC/HEIF photos are decoded with the WebAssembly decoder in heicDecoder.ts
+ * when the browser cannot read them itself.
+ */
+
+import { decodeHeic, isHeicImage } from './heicDecoder';
+
+/**
+ * Crop rectangle as fractions (0 to 1) of the upright image
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  crop?: CropRect;
+  /** Longest side of the output in pixels */
+  maxDimension?: number;
+  /** The vision API accepts JPEG and PNG, so JPEG is the default; WebP suits stored copies */
+  mimeType?: 'image/jpeg' | 'image/webp';
+  quality?: number;
+}
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  mimeType: string;
+}
+
+export interface RenderedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+// Detail beyond this does not help the vision model and only slows the upload
+const DEFAULT_MAX_DIMENSION = 1600;
+const DEFAULT_QUALITY = 0.85;
+const WORKER_TIMEOUT_MS = 30_000;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Source rectangle in pixels for an optional crop
+ */
+const getSourceRect = (width: number, height: number, crop?: CropRect) => {
+  if (!crop) return { sx: 0, sy: 0, sw: width, sh: height };
+
+  const x = clamp(crop.x);
+  const y = clamp(crop.y);
+  const sw = Math.max(1, Math.round(clamp(crop.width) * width));
+  const sh = Math.max(1, Math.round(clamp(crop.height) * height));
+  return {
+    sx: Math.min(Math.round(x * width), width - sw),
+    sy: Math.min(Math.round(y * height), height - sh),
+    sw,
+    sh,
+  };
+};
+
+/**
+ * Decodes an image file to an upright bitmap, falling back to the HEIC decoder
+ * for HEIC/HEIF photos the browser can't read
+ * @throws Error if the image cannot be decoded
+ */
+export async function decodeImage(source: Blob): Promise<ImageBitmap> {
+  try {
+    // 'from-image' rotates and mirrors the pixels according to the EXIF orientation tag
+    return await createImageBitmap(source, { imageOrientation: 'from-image' });
+  } catch (error) {
+    if (!(await isHeicImage(source))) throw error;
+    return createImageBitmap(await decodeHeic(source));
+  }
+}
+
+/**
+ * Decodes, orients, crops, downscales and re-encodes an image.
+ * Works in a worker (OffscreenCanvas) and on the main thread (canvas element).
+ * @throws Error if the image cannot be decoded
+ */
+export async function renderPreprocessedImage(source: Blob, options: PreprocessOptions = {}): Promise<RenderedImage> {
+  const { crop, maxDimension = DEFAULT_MAX_DIMENSION, mimeType = 'image/jpeg', quality = DEFAULT_QUALITY } = options;
+
+  const bitmap = await decodeImage(source);
+
+  try {
+    const { sx, sy, sw, sh } = getSourceRect(bitmap.width, bitmap.height, crop);
+    const scale = Math.min(1, maxDimension / Math.max(sw, sh));
+    const width = Math.max(1, Math.round(sw * scale));
+    const height = Math.max(1, Math.round(sh * scale));
+
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(width, height);
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Could not get canvas context');
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, sx, sy, sw, sh, 0, 0, width, height);
+      return { blob: await canvas.convertToBlob({ type: mimeType, quality }), width, height };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not get canvas context');
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, sx, sy, sw, sh, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, quality));
+    if (!blob) throw new Error('Could not encode image');
+    return { blob, width, height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+
+const canUseWorker = () =>
+  !workerFailed && typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/imagePreprocess.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+};
+
+const renderInWorker = (source: Blob, options: PreprocessOptions): Promise<RenderedImage> => {
+  const id = ++nextRequestId;
+  const imageWorker = getWorker();
+
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error('Image preprocessing timed out'));
+    }, WORKER_TIMEOUT_MS);
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.id !== id) return;
+      cleanup();
+      if (event.data.error) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.result);
+      }
+    };
+    const handleError = (event: ErrorEvent) => {
+      // The worker itself is broken (e.g. blocked by the page's security policy), so stop using it
+      workerFailed = true;
+      cleanup();
+      reject(event.error || new Error(event.message || 'Image worker failed'));
+    };
+    const cleanup = () => {
+      clearTimeout(timeout);
+      imageWorker.removeEventListener('message', handleMessage);
+      imageWorker.removeEventListener('error', handleError);
+    };
+
+    imageWorker.addEventListener('message', handleMessage);
+    imageWorker.addEventListener('error', handleError);
+    imageWorker.postMessage({ id, source, options });
+  });
+};
+
+/**
+ * Prepares a photo for upload to the vision model
+ * @param input Image file, blob or data URL
+ * @param options Crop, size and output format
+ * @returns The processed image as a data URL
+ * @throws Error if the image cannot be decoded
+ */
+export async function preprocessImage(input: Blob | string, options: PreprocessOptions = {}): Promise<PreprocessedImage> {
+  const source = typeof input === 'string' ? await dataUrlToBlob(input) : input;
+
+  let rendered: RenderedImage;
+  if (canUseWorker()) {
+    try {
+      rendered = await renderInWorker(source, options);
+    } catch (error) {
+      // Some browsers can't decode every format in a worker; the main thread gets a second try
+      console.warn('[ImagePreprocess] Worker failed, processing on the main thread:', error);
+      rendered = await renderPreprocessedImage(source, options);
+    }
+  } else {
+    rendered = await renderPreprocessedImage(source, options);
+  }
+
+  console.log(`[ImagePreprocess] ${Math.round(source.size / 1024)} KB -> ${Math.round(rendered.blob.size / 1024)} KB (${rendered.width}x${rendered.height})`);
+  return {
+    dataUrl: await blobToDataUrl(rendered.blob),
+    width: rendered.width,
+    height: rendered.height,
+    mimeType: rendered.blob.type,
+  };
+}
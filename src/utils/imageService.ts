@@ -2,15 +2,10 @@
  * Service for handling image-related operations like optimization, validation, and uploads
  */
 
-import { getXaiApiKey } from '@/utils/env';
-import { sleep } from '@/utils/helpers';
-
-/**
- * Rate limiting configuration
- */
-const API_RATE_LIMIT = 2; // requests per second (more conservative for image API)
-const API_RATE_WINDOW = 1000; // 1 second in milliseconds
-let lastApiCall = 0;
+import { generateImage, type ImageGenerationRequest } from '@/utils/xaiClient';
+import { ImageGenerationError } from '@/utils/xaiErrors';
+import { decodeImage, preprocessImage, PreprocessOptions } from '@/utils/imagePreprocess';
+import { isHeicFileType } from '@/utils/heicDecoder';
 
 // CORS handling configuration
 const CORS_PROXY_URL = 'https://corsproxy.io/'; // Public CORS proxy (fallback)
@@ -18,13 +13,9 @@ const USE_LOCAL_PROXY = true; // Set to true if using local backend proxy
 
 /**
  * Error types for better error handling
+ * (ImageGenerationError lives in xaiErrors; re-exported for existing imports)
  */
-export class ImageGenerationError extends Error {
-  constructor(message: string, public details?: any) {
-    super(message);
-    this.name = 'ImageGenerationError';
-  }
-}
+export { ImageGenerationError };
 
 export class ImageValidationError extends Error {
   constructor(message: string) {
@@ -34,25 +25,10 @@ export class ImageValidationError extends Error {
 }
 
 /**
- * Helper function to enforce rate limiting
+ * Maximum file size in bytes (20MB). Photos are downscaled before upload,
+ * so this only keeps the browser from decoding huge files.
  */
-async function enforceRateLimit() {
-  const now = Date.now();
-  const timeSinceLastCall = now - lastApiCall;
-  const minDelay = API_RATE_WINDOW / API_RATE_LIMIT;
-  
-  if (timeSinceLastCall < minDelay) {
-    const delay = minDelay - timeSinceLastCall;
-    await sleep(delay);
-  }
-  
-  lastApiCall = Date.now();
-}
-
-/**
- * Maximum file size in bytes (5MB)
- */
-const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
 
 /**
  * Allowed image MIME types
@@ -75,7 +51,7 @@ export const validateImage = (file: File): { isValid: boolean; error?: string }
     return { isValid: false, error: 'No file provided' };
   }
 
-  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type) && !isHeicFileType(file)) {
     return { 
       isValid: false, 
       error: `Invalid file type: ${file.type}. Please upload a JPEG, PNG, WebP, or HEIC image.` 
@@ -85,13 +61,35 @@ export const validateImage = (file: File): { isValid: boolean; error?: string }
   if (file.size > MAX_FILE_SIZE) {
     return { 
       isValid: false, 
-      error: `File too large: ${(file.size / 1024 / 1024).toFixed(2)}MB. Maximum size is 5MB.` 
+      error: `File too large: ${(file.size / 1024 / 1024).toFixed(2)}MB. Maximum size is ${MAX_FILE_SIZE / 1024 / 1024}MB.` 
     };
   }
 
   return { isValid: true };
 };
 
+/**
+ * Validates an image file and prepares it for the vision model (orientation, size, no metadata)
+ * @param file Image file chosen by the user
+ * @param options Optional crop and output settings
+ * @returns Promise resolving to the processed data URL
+ * @throws ImageValidationError if the file is not an acceptable image or cannot be read
+ */
+export const prepareImageFile = async (file: File, options?: PreprocessOptions): Promise<string> => {
+  const validation = validateImage(file);
+  if (!validation.isValid) {
+    throw new ImageValidationError(validation.error || 'Invalid image');
+  }
+
+  try {
+    const { dataUrl } = await preprocessImage(file, options);
+    return dataUrl;
+  } catch (error) {
+    console.error('[ImageService] Image preprocessing failed:', error);
+    throw new ImageValidationError(`Could not read ${file.name || 'this image'}. Please try a JPEG or PNG photo.`);
+  }
+};
+
 /**
  * Converts a File object to a base64 string
  * @param file File to convert
@@ -107,7 +105,8 @@ export const fileToBase64 = (file: File): Promise<string> => {
 };
 
 /**
- * Optimizes an image by converting it to a WebP format with reduced quality
+ * Optimizes an image by converting it to a WebP format with reduced quality.
+ * HEIC/HEIF images are decoded first, so the result is always a WebP data URL.
  * @param base64Image Base64 string of the image
  * @param quality Quality level (0-1)
  * @returns Promise resolving to optimized base64 string
@@ -116,57 +115,28 @@ export const optimizeImage = async (
   base64Image: string, 
   quality: number = 0.8
 ): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-
-      // Set canvas dimensions to match image
-      canvas.width = img.width;
-      canvas.height = img.height;
-
-      // Draw image to canvas
-      ctx.drawImage(img, 0, 0);
-
-      // Convert to WebP with specified quality
-      try {
-        const optimizedImage = canvas.toDataURL('image/webp', quality);
-        resolve(optimizedImage);
-      } catch (error) {
-        reject(error);
-      }
-    };
-
-    img.onerror = () => reject(new Error('Failed to load image'));
-    img.src = base64Image;
+  const { dataUrl } = await preprocessImage(base64Image, {
+    mimeType: 'image/webp',
+    quality,
+    // Keep the original size; only the encoding changes
+    maxDimension: Number.POSITIVE_INFINITY
   });
+  return dataUrl;
 };
 
 /**
- * Gets the dimensions of an image from its base64 string
+ * Gets the dimensions of an image from its base64 string, as displayed (after EXIF rotation)
  * @param base64Image Base64 string of the image
  * @returns Promise resolving to image dimensions
  */
 export const getImageDimensions = async (
   base64Image: string
 ): Promise<{ width: number; height: number }> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      resolve({
-        width: img.width,
-        height: img.height
-      });
-    };
-    img.onerror = () => reject(new Error('Failed to load image'));
-    img.src = base64Image;
-  });
+  const blob = await (await fetch(base64Image)).blob();
+  const bitmap = await decodeImage(blob);
+  const dimensions = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return dimensions;
 };
 
 /**
@@ -184,27 +154,6 @@ export const isValidImageUrl = async (url: string): Promise<boolean> => {
   }
 };
 
-/**
- * Interface for the image generation API request body
- */
-interface ImageGenerationRequest {
-  prompt: string;
-  model: string;
-  response_format: string;
-  n: number;
-}
-
-/**
- * Interface for the image generation API response
- */
-interface ImageGenerationResponse {
-  data: Array<{
-    url?: string;
-    b64_json?: string;
-    revised_prompt?: string;
-  }>;
-}
-
 /**
  * Converts an image URL to a CORS-safe URL
  * @param url Original image URL
@@ -331,8 +280,6 @@ async function convertToDataUrl(url: string): Promise<string> {
  * @throws ImageGenerationError if API call fails or response is invalid
  */
 export const generateImageFromPrompt = async (prompt: string): Promise<string> => {
-  const apiKey = getXaiApiKey();
-  
   // Enhanced selection of fallback images
   const FOOD_FALLBACKS = [
     'https://images.unsplash.com/photo-1504674900247-0877df9cc836?w=800&h=600&fit=crop',
@@ -348,19 +295,12 @@ export const generateImageFromPrompt = async (prompt: string): Promise<string> =
   // Get a random fallback image
   const getRandomFallback = () => FOOD_FALLBACKS[Math.floor(Math.random() * FOOD_FALLBACKS.length)];
   
-  if (!apiKey) {
-    console.warn('[ImageService] No API key available, using fallback image');
-    return getRandomFallback();
-  }
-
   if (!prompt || typeof prompt !== 'string') {
     console.warn('[ImageService] Invalid prompt, using fallback image');
     return getRandomFallback();
   }
 
   try {
-    await enforceRateLimit();
-
     console.log('[ImageService] Starting image generation for prompt:', prompt.substring(0, 50) + '...');
     
     const requestBody: ImageGenerationRequest = {
@@ -370,44 +310,14 @@ export const generateImageFromPrompt = async (prompt: string): Promise<string> =
       n: 1
     };
 
-    // Add retry logic for the image generation API
-    let response;
-    let retries = 0;
-    const maxRetries = 2;
-    
-    while (retries < maxRetries) {
-      try {
-        response = await fetch('https://api.x.ai/v1/images/generations', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`
-          },
-          body: JSON.stringify(requestBody)
-        });
-        
-        if (response.ok) break;
-        
-        // If rate limited, wait and retry
-        if (response.status === 429) {
-          console.log('[ImageService] Rate limited, waiting before retry');
-          await sleep(2000 * (retries + 1));
-        } else {
-          break; // For non-rate limit errors, don't retry
-        }
-      } catch (fetchError) {
-        console.warn(`[ImageService] Fetch error on try ${retries + 1}:`, fetchError);
-      }
-      
-      retries++;
-    }
-    
-    if (!response || !response.ok) {
-      console.error(`[ImageService] Image generation failed after ${retries} retries, using fallback`);
+    // The shared XAI client rate limits and retries 429/5xx responses with backoff
+    let data;
+    try {
+      data = await generateImage(requestBody, { timeoutMs: 90_000, maxRetries: 2 });
+    } catch (error) {
+      console.error('[ImageService] Image generation failed, using fallback:', error);
       return getRandomFallback();
     }
-
-    const data = await response.json() as ImageGenerationResponse;
     
     // Check for base64 data
     if (data.data?.[0]?.b64_json) {
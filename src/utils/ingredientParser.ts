@@ -0,0 +1,372 @@
+/**
+ * Ingredient line parsing and scaling
+ *
+ * Turns free-text ingredient lines such as "1/3 cup grated parmesan cheese" or
+ * "4 cloves garlic, minced" into quantity, unit, ingredient and note, and scales
+ * them for a different number of servings.
+ */
+
+export interface ParsedIngredient {
+  /** The line as it was given */
+  original: string;
+  /** Leading quantity, or null for lines like "Salt to taste" */
+  quantity: number | null;
+  /** Upper bound for ranges such as "2-3 cloves" */
+  quantityMax: number | null;
+  /** Canonical unit (see UNIT_ALIASES), or null for counted items like "2 bell peppers" */
+  unit: string | null;
+  /** What the ingredient is, e.g. "grated parmesan cheese" */
+  ingredient: string;
+  /** Preparation or extra detail after a comma or in parentheses, e.g. "minced" */
+  note: string | null;
+  /** Package size next to the unit, e.g. "14 oz" in "1 (14 oz) can tomatoes" or "2 cans (14 oz) tomatoes"; also part of note */
+  size: string | null;
+}
+
+/**
+ * Canonical unit -> accepted spellings (all lowercase, without trailing period)
+ */
+const UNIT_ALIASES: Record<string, string[]> = {
+  cup: ['cup', 'cups', 'c'],
+  tbsp: ['tbsp', 'tbsps', 'tbs', 'tbl', 'tablespoon', 'tablespoons'],
+  tsp: ['tsp', 'tsps', 'teaspoon', 'teaspoons'],
+  'fl oz': ['fl oz', 'fl. oz', 'fluid ounce', 'fluid ounces'],
+  oz: ['oz', 'ounce', 'ounces'],
+  lb: ['lb', 'lbs', 'pound', 'pounds'],
+  g: ['g', 'gram', 'grams', 'gr'],
+  kg: ['kg', 'kgs', 'kilogram', 'kilograms'],
+  ml: ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'],
+  l: ['l', 'liter', 'liters', 'litre', 'litres'],
+  pint: ['pint', 'pints', 'pt'],
+  quart: ['quart', 'quarts', 'qt'],
+  pinch: ['pinch', 'pinches'],
+  dash: ['dash', 'dashes'],
+  clove: ['clove', 'cloves'],
+  can: ['can', 'cans'],
+  jar: ['jar', 'jars'],
+  tin: ['tin', 'tins'],
+  slice: ['slice', 'slices'],
+  stick: ['stick', 'sticks'],
+  sprig: ['sprig', 'sprigs'],
+  bunch: ['bunch', 'bunches'],
+  handful: ['handful', 'handfuls'],
+  package: ['package', 'packages', 'pkg', 'packet', 'packets'],
+  head: ['head', 'heads'],
+};
+
+/**
+ * Units written as words, which take a plural form when the quantity is above one
+ */
+const PLURAL_UNITS: Record<string, string> = {
+  cup: 'cups',
+  pint: 'pints',
+  quart: 'quarts',
+  pinch: 'pinches',
+  dash: 'dashes',
+  clove: 'cloves',
+  can: 'cans',
+  jar: 'jars',
+  tin: 'tins',
+  slice: 'slices',
+  stick: 'sticks',
+  sprig: 'sprigs',
+  bunch: 'bunches',
+  handful: 'handfuls',
+  package: 'packages',
+  head: 'heads',
+};
+
+const UNIT_LOOKUP: Record<string, string> = Object.entries(UNIT_ALIASES).reduce<Record<string, string>>(
+  (lookup, [canonical, aliases]) => {
+    aliases.forEach(alias => { lookup[alias] = canonical; });
+    return lookup;
+  },
+  {}
+);
+
+// Longest aliases first so "fl oz" wins over "fl" and "tbsp" over "t"
+const UNIT_PATTERN = Object.keys(UNIT_LOOKUP)
+  .sort((a, b) => b.length - a.length)
+  .map(alias => alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  .join('|');
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '¼': 1 / 4, '½': 1 / 2, '¾': 3 / 4,
+  '⅓': 1 / 3, '⅔': 2 / 3,
+  '⅛': 1 / 8, '⅜': 3 / 8, '⅝': 5 / 8, '⅞': 7 / 8,
+  '⅕': 1 / 5, '⅙': 1 / 6,
+};
+
+// A single amount: "1 1/2", "1/3", "1½", "½", "1.5", "12"
+const AMOUNT = `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d*[${Object.keys(UNICODE_FRACTIONS).join('')}]|\\d+(?:\\.\\d+)?)`;
+const QUANTITY_REGEX = new RegExp(`^(${AMOUNT})(?:\\s*(?:-|–|to)\\s*(${AMOUNT}))?\\s*`);
+const UNIT_REGEX = new RegExp(`^(${UNIT_PATTERN})\\.?(?=\\s|$|\\))\\s*`, 'i');
+
+/**
+ * Parses a single amount such as "1 1/2", "⅓" or "0.5"
+ * @returns The numeric value, or null if the text is not an amount
+ */
+export function parseAmount(text: string): number | null {
+  const value = text.trim();
+  if (!value) return null;
+
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) === 0 ? null : Number(fraction[1]) / Number(fraction[2]);
+
+  const unicode = value.match(/^(\d*)(.)$/);
+  if (unicode && UNICODE_FRACTIONS[unicode[2]] !== undefined) {
+    return (unicode[1] ? Number(unicode[1]) : 0) + UNICODE_FRACTIONS[unicode[2]];
+  }
+
+  const decimal = Number(value);
+  return isNaN(decimal) ? null : decimal;
+}
+
+/**
+ * Splits the ingredient text from its note ("garlic, minced" or "salmon fillets (6oz each)")
+ */
+function splitNote(text: string): { ingredient: string; note: string | null } {
+  const notes: string[] = [];
+  let ingredient = text.replace(/\(([^)]*)\)/g, (_, inner: string) => {
+    if (inner.trim()) notes.push(inner.trim());
+    return '';
+  });
+
+  const commaIndex = ingredient.indexOf(',');
+  if (commaIndex !== -1) {
+    const afterComma = ingredient.slice(commaIndex + 1).trim();
+    if (afterComma) notes.push(afterComma);
+    ingredient = ingredient.slice(0, commaIndex);
+  }
+
+  return {
+    ingredient: ingredient.replace(/\s{2,}/g, ' ').trim(),
+    note: notes.length > 0 ? notes.join(', ') : null,
+  };
+}
+
+/**
+ * Parses an ingredient line into quantity, unit, ingredient and note
+ * @param line Ingredient line, e.g. "1/3 cup grated parmesan cheese"
+ */
+export function parseIngredient(line: string): ParsedIngredient {
+  const original = line;
+  let rest = line.trim().replace(/^[-*•]\s*/, '');
+
+  let quantity: number | null = null;
+  let quantityMax: number | null = null;
+
+  const quantityMatch = rest.match(QUANTITY_REGEX);
+  if (quantityMatch) {
+    quantity = parseAmount(quantityMatch[1]);
+    quantityMax = quantityMatch[2] ? parseAmount(quantityMatch[2]) : null;
+    rest = rest.slice(quantityMatch[0].length);
+  }
+
+  // Package sizes sit between quantity and unit: "1 (14 oz) can tomatoes"
+  let sizeNote: string | null = null;
+  const sizeMatch = quantity !== null ? rest.match(/^\(([^)]*)\)\s*/) : null;
+  if (sizeMatch) {
+    sizeNote = sizeMatch[1].trim() || null;
+    rest = rest.slice(sizeMatch[0].length);
+  }
+
+  let unit: string | null = null;
+  const unitMatch = rest.match(UNIT_REGEX);
+  // Require a quantity for one-letter units so "c" or "l" at the start of a word-only line is not eaten
+  if (unitMatch && (quantity !== null || unitMatch[1].length > 1)) {
+    unit = UNIT_LOOKUP[unitMatch[1].toLowerCase()] ?? null;
+    rest = rest.slice(unitMatch[0].length);
+
+    // "Pinch of salt" has an implied quantity of one
+    if (quantity === null && unit) quantity = 1;
+
+    // The size can also follow the unit: "2 cans (14 oz) tomatoes"
+    const trailingSizeMatch = unit && !sizeNote ? rest.match(/^\(([^)]*)\)\s*/) : null;
+    if (trailingSizeMatch) {
+      sizeNote = trailingSizeMatch[1].trim() || null;
+      rest = rest.slice(trailingSizeMatch[0].length);
+    }
+  }
+
+  // "of" only joins unit and ingredient ("2 cups of flour", "pinch of salt")
+  if (unit) rest = rest.replace(/^of\s+/i, '');
+
+  const { ingredient, note } = splitNote(rest);
+
+  return {
+    original,
+    quantity,
+    quantityMax,
+    unit,
+    ingredient: ingredient || rest.trim(),
+    note: [sizeNote, note].filter(Boolean).join(', ') || null,
+    size: sizeNote,
+  };
+}
+
+const NICE_FRACTIONS: Array<[number, string]> = [
+  [0, ''],
+  [1 / 8, '1/8'],
+  [1 / 4, '1/4'],
+  [1 / 3, '1/3'],
+  [3 / 8, '3/8'],
+  [1 / 2, '1/2'],
+  [5 / 8, '5/8'],
+  [2 / 3, '2/3'],
+  [3 / 4, '3/4'],
+  [7 / 8, '7/8'],
+  [1, ''],
+];
+
+/**
+ * Formats a quantity with kitchen-friendly fractions, e.g. 1.5 -> "1 1/2", 0.333 -> "1/3"
+ * Large quantities are rounded to whole numbers, since nobody measures 37 1/3 grams.
+ */
+export function formatQuantity(value: number): string {
+  if (!isFinite(value) || value <= 0) return '0';
+  if (value >= 20) return String(Math.round(value));
+
+  let whole = Math.floor(value);
+  const remainder = value - whole;
+
+  const [fractionValue, fractionText] = NICE_FRACTIONS.reduce((best, candidate) =>
+    Math.abs(candidate[0] - remainder) < Math.abs(best[0] - remainder) ? candidate : best
+  );
+
+  if (fractionValue === 1) whole += 1;
+  if (whole === 0 && !fractionText) return '1/8'; // Never round a real amount down to nothing
+
+  if (!fractionText) return String(whole);
+  return whole > 0 ? `${whole} ${fractionText}` : fractionText;
+}
+
+/**
+ * Metric units are shown with decimals rather than fractions, e.g. "7.5 g" or "1.25 l"
+ */
+const DECIMAL_UNITS = new Set(['g', 'kg', 'ml', 'l']);
+
+function formatDecimal(value: number): string {
+  const rounded = value >= 10 ? Math.round(value) : Math.round(value * 100) / 100;
+  return String(rounded > 0 ? rounded : 0.01);
+}
+
+/**
+ * Formats a canonical unit for display, pluralizing word units when needed
+ */
+export function formatUnit(unit: string, quantity: number | null): string {
+  if (quantity !== null && quantity > 1 && PLURAL_UNITS[unit]) {
+    return PLURAL_UNITS[unit];
+  }
+  return unit;
+}
+
+/**
+ * Formats an amount with its unit, e.g. (1.5, 'cup') -> "1 1/2 cups", (3, null) -> "3"
+ */
+export function formatAmount(quantity: number, unit: string | null): string {
+  const amount = unit && DECIMAL_UNITS.has(unit) ? formatDecimal(quantity) : formatQuantity(quantity);
+  return unit ? `${amount} ${formatUnit(unit, parseAmount(amount))}` : amount;
+}
+
+/**
+ * Turns a parsed ingredient back into a display line
+ */
+export function formatIngredient(parsed: ParsedIngredient): string {
+  if (parsed.quantity === null) return parsed.original;
+
+  const format = parsed.unit && DECIMAL_UNITS.has(parsed.unit) ? formatDecimal : formatQuantity;
+  const largest = format(parsed.quantityMax ?? parsed.quantity);
+  const amount = parsed.quantityMax !== null ? `${format(parsed.quantity)}-${largest}` : largest;
+  // Pluralize from the rounded amount so 1.05 cups reads "1 cup"
+  const unit = parsed.unit ? ` ${formatUnit(parsed.unit, parseAmount(largest))}` : '';
+  const note = parsed.note ? `, ${parsed.note}` : '';
+
+  return `${amount}${unit} ${parsed.ingredient}${note}`;
+}
+
+/**
+ * Rounds counted items (no unit) to amounts you can actually buy or crack:
+ * eggs to whole numbers, everything else to the nearest half
+ */
+function roundCountedQuantity(value: number, ingredient: string): number {
+  if (/\beggs?\b|\byolks?\b|\bwhites?\b/i.test(ingredient)) {
+    return Math.max(1, Math.round(value));
+  }
+  return Math.max(0.5, Math.round(value * 2) / 2);
+}
+
+// Plurals that don't just add "s" or "es"
+const IRREGULAR_PLURALS: Record<string, string> = {
+  leaf: 'leaves',
+  half: 'halves',
+  loaf: 'loaves',
+  tomato: 'tomatoes',
+  potato: 'potatoes',
+};
+const IRREGULAR_SINGULARS: Record<string, string> = Object.fromEntries(
+  Object.entries(IRREGULAR_PLURALS).map(([singular, plural]) => [plural, singular])
+);
+
+function pluralize(word: string): string {
+  const lower = word.toLowerCase();
+  if (IRREGULAR_PLURALS[lower]) return IRREGULAR_PLURALS[lower];
+  if (/s$/.test(lower)) return word; // Already plural, or a word like "asparagus"
+  if (/(x|z|ch|sh)$/.test(lower)) return `${word}es`;
+  if (/[^aeiou]y$/.test(lower)) return `${word.slice(0, -1)}ies`;
+  return `${word}s`;
+}
+
+function singularize(word: string): string {
+  const lower = word.toLowerCase();
+  if (IRREGULAR_SINGULARS[lower]) return IRREGULAR_SINGULARS[lower];
+  if (/[^aeiou]ies$/.test(lower)) return `${word.slice(0, -3)}y`;
+  if (/(x|z|ch|sh)es$/.test(lower)) return word.slice(0, -2);
+  if (/[^s]s$/.test(lower)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Puts the last word of a counted ingredient in the singular or plural,
+ * e.g. "large onion" -> "large onions", "egg yolks" -> "egg yolk"
+ */
+export function inflectCountedIngredient(ingredient: string, plural: boolean): string {
+  return ingredient.replace(/[a-z]+$/i, word => plural ? pluralize(word) : singularize(word));
+}
+
+/**
+ * Multiplies a parsed ingredient's quantity by a factor.
+ * Counted items are re-inflected when the amount crosses one: 1 onion -> 2 onions, 2 lemons -> 1 lemon.
+ */
+export function scaleIngredient(parsed: ParsedIngredient, factor: number): ParsedIngredient {
+  if (parsed.quantity === null || factor === 1) return parsed;
+
+  const scale = (value: number) => parsed.unit
+    ? value * factor
+    : roundCountedQuantity(value * factor, parsed.ingredient);
+
+  const quantity = scale(parsed.quantity);
+  const quantityMax = parsed.quantityMax !== null ? scale(parsed.quantityMax) : null;
+
+  const wasPlural = (parsed.quantityMax ?? parsed.quantity) > 1;
+  const isPlural = (quantityMax ?? quantity) > 1;
+  const ingredient = !parsed.unit && wasPlural !== isPlural
+    ? inflectCountedIngredient(parsed.ingredient, isPlural)
+    : parsed.ingredient;
+
+  return { ...parsed, quantity, quantityMax, ingredient };
+}
+
+/**
+ * Scales an ingredient line for a new number of servings
+ * Lines without a leading quantity ("Salt and pepper to taste") are returned unchanged.
+ */
+export function scaleIngredientLine(line: string, factor: number): string {
+  if (factor === 1) return line;
+  const parsed = parseIngredient(line);
+  if (parsed.quantity === null) return line;
+  return formatIngredient(scaleIngredient(parsed, factor));
+}
@@ -0,0 +1,48 @@
+/**
+ * System notifications, shown through the service worker when it is active
+ * so they also work while the app is in the background
+ */
+
+const NOTIFICATION_ICON = '/icon.svg';
+
+/**
+ * Asks for notification permission if the user hasn't decided yet
+ * @returns Whether notifications may be shown
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!('Notification' in window)) return false;
+  if (Notification.permission === 'default') {
+    try {
+      await Notification.requestPermission();
+    } catch (error) {
+      console.warn('[Notifications] Permission request failed:', error);
+    }
+  }
+  return Notification.permission === 'granted';
+};
+
+/**
+ * Shows a notification if permission was granted; does nothing otherwise
+ * @param title Notification title
+ * @param body Notification text
+ * @param url Page to open when the notification is clicked
+ */
+export const showNotification = async (title: string, body: string, url = '/'): Promise<void> => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const options: NotificationOptions = { body, icon: NOTIFICATION_ICON, badge: NOTIFICATION_ICON, data: { url } };
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, options);
+    } else {
+      const notification = new Notification(title, options);
+      notification.onclick = () => {
+        window.focus();
+        window.location.assign(url);
+      };
+    }
+  } catch (error) {
+    console.warn('[Notifications] Could not show notification:', error);
+  }
+};
@@ -0,0 +1,186 @@
+/**
+ * Nutrition calculations shared by the recipe card and the meal planner
+ */
+
+import type { MacroNutrients } from '@/types/recipe';
+import type { NutritionLabel } from '@/utils/api';
+
+/**
+ * Reference Daily Values (based on a 2000 kcal diet)
+ */
+export interface DailyValues {
+  calories: number;
+  totalFat: number; // g
+  saturatedFat: number; // g
+  sodium: number; // mg
+  carbs: number; // g
+  fiber: number; // g
+  protein: number; // g
+  // Sugar doesn't have an official DV, but we can track it
+}
+
+export const DAILY_VALUES: DailyValues = {
+  calories: 2000,
+  totalFat: 78,
+  saturatedFat: 20,
+  sodium: 2300,
+  carbs: 275,
+  fiber: 28,
+  protein: 50,
+};
+
+/**
+ * Nutrient amounts for some number of servings.
+ * Optional nutrients the recipe does not report are null rather than zero.
+ */
+export interface NutritionAmounts {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  saturatedFat: number | null;
+  fiber: number | null;
+  sugar: number | null;
+  sodium: number | null;
+  netCarbs: number;
+}
+
+export type DailyValuePercent = Record<keyof DailyValues, number | null>;
+
+const optionalAmount = (value: number | undefined, multiplier: number): number | null =>
+  value === undefined || value === null ? null : (value || 0) * multiplier;
+
+/**
+ * Multiplies per-serving macros by a number of servings
+ */
+export function scaleMacros(macros: MacroNutrients, multiplier: number): NutritionAmounts {
+  return {
+    calories: (macros.calories || 0) * multiplier,
+    protein: (macros.protein || 0) * multiplier,
+    carbs: (macros.carbs || 0) * multiplier,
+    fat: (macros.fat || 0) * multiplier,
+    saturatedFat: optionalAmount(macros.saturatedFat, multiplier),
+    fiber: optionalAmount(macros.fiber, multiplier),
+    sugar: optionalAmount(macros.sugar, multiplier),
+    sodium: optionalAmount(macros.sodium, multiplier),
+    netCarbs: (macros.carbs || 0) * multiplier - ((macros.fiber || 0) * multiplier),
+  };
+}
+
+/**
+ * Adds up nutrient amounts, e.g. every meal in a day.
+ * An optional nutrient stays null only if none of the amounts report it.
+ */
+export function sumNutrition(amounts: NutritionAmounts[]): NutritionAmounts {
+  const addOptional = (a: number | null, b: number | null) =>
+    a === null && b === null ? null : (a || 0) + (b || 0);
+
+  return amounts.reduce<NutritionAmounts>(
+    (total, current) => ({
+      calories: total.calories + current.calories,
+      protein: total.protein + current.protein,
+      carbs: total.carbs + current.carbs,
+      fat: total.fat + current.fat,
+      saturatedFat: addOptional(total.saturatedFat, current.saturatedFat),
+      fiber: addOptional(total.fiber, current.fiber),
+      sugar: addOptional(total.sugar, current.sugar),
+      sodium: addOptional(total.sodium, current.sodium),
+      netCarbs: total.netCarbs + current.netCarbs,
+    }),
+    {
+      calories: 0, protein: 0, carbs: 0, fat: 0,
+      saturatedFat: null, fiber: null, sugar: null, sodium: null, netCarbs: 0,
+    }
+  );
+}
+
+/**
+ * Percent of each daily value covered by the given amounts
+ * @param dailyValues Targets to compare against; defaults to the reference Daily Values
+ */
+export function calculateDailyValuePercent(
+  current: NutritionAmounts,
+  dailyValues: DailyValues = DAILY_VALUES
+): DailyValuePercent {
+  const percent = (amount: number | null, target: number) =>
+    target && amount !== null ? Math.round((amount / target) * 100) : null;
+
+  return {
+    calories: percent(current.calories, dailyValues.calories),
+    totalFat: percent(current.fat, dailyValues.totalFat),
+    saturatedFat: percent(current.saturatedFat, dailyValues.saturatedFat),
+    sodium: percent(current.sodium, dailyValues.sodium),
+    carbs: percent(current.carbs, dailyValues.carbs),
+    fiber: percent(current.fiber, dailyValues.fiber),
+    protein: percent(current.protein, dailyValues.protein),
+  };
+}
+
+/**
+ * Share of calories from protein, carbs and fat, in whole percent
+ */
+export function calculateMacroDistribution(current: NutritionAmounts): { protein: number; carbs: number; fat: number } {
+  // Calculate calories from each macronutrient
+  const proteinCalories = current.protein * 4;
+  const carbsCalories = current.carbs * 4;
+  const fatCalories = current.fat * 9;
+  const totalMacroCalories = proteinCalories + carbsCalories + fatCalories;
+
+  return totalMacroCalories > 0 ? {
+    protein: Math.round((proteinCalories / totalMacroCalories) * 100),
+    carbs: Math.round((carbsCalories / totalMacroCalories) * 100),
+    fat: Math.round((fatCalories / totalMacroCalories) * 100),
+  } : { protein: 0, carbs: 0, fat: 0 };
+}
+
+const roundTo = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Ingredient line for a scanned packaged product, e.g. "1.5 servings (83g) Acme Granola"
+ */
+export function formatProductIngredient(label: NutritionLabel, productServings: number): string {
+  const amount = `${roundTo(productServings, 2)} serving${productServings === 1 ? '' : 's'}`;
+  const size = label.servingSizeGrams
+    ? `${Math.round(label.servingSizeGrams * productServings)}g`
+    : productServings === 1 ? label.servingSize : `${label.servingSize} each`;
+  return `${amount} (${size}) ${label.productName}`;
+}
+
+/**
+ * Adds a scanned packaged product to a recipe as an ingredient.
+ * The label's nutrition for the amount used is spread over the recipe's servings and
+ * added to its per-serving macros. A recipe without macros keeps none, since a total
+ * covering only the product would be misleading.
+ * @param productServings How many of the label's servings the recipe uses
+ */
+export function addProductToRecipe<T extends { ingredients: string[]; servings: number; macros?: MacroNutrients | null }>(
+  recipe: T,
+  label: NutritionLabel,
+  productServings: number
+): T {
+  const ingredients = [...recipe.ingredients, formatProductIngredient(label, productServings)];
+  if (!recipe.macros) {
+    return { ...recipe, ingredients };
+  }
+
+  const total = sumNutrition([
+    scaleMacros(recipe.macros, 1),
+    scaleMacros(label.macros, productServings / (recipe.servings || 1)),
+  ]);
+  const optional = (value: number | null, decimals = 1) => value === null ? undefined : roundTo(value, decimals);
+
+  return {
+    ...recipe,
+    ingredients,
+    macros: {
+      calories: Math.round(total.calories),
+      protein: roundTo(total.protein, 1),
+      carbs: roundTo(total.carbs, 1),
+      fat: roundTo(total.fat, 1),
+      saturatedFat: optional(total.saturatedFat),
+      fiber: optional(total.fiber),
+      sugar: optional(total.sugar),
+      sodium: optional(total.sodium, 0),
+    },
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Analysis of photos taken while offline.
+ * Photos wait in IndexedDB (see offlineStore) and are analyzed once the connection returns;
+ * the resulting recipes go to the recipe box.
+ */
+
+import { analyzeFood, ApiResponse, FoodPhoto } from './api';
+import { XaiHttpError, XaiNetworkError, XaiRateLimitError, XaiTimeoutError } from './xaiErrors';
+import { generateId } from './helpers';
+import {
+  getQueuedPhotoAnalyses,
+  queuePhotoAnalysis,
+  removeQueuedPhotoAnalysis,
+  updateQueuedPhotoAnalysis,
+  QueuedPhotoAnalysis,
+} from './offlineStore';
+import { saveRecipe } from '@/lib/savedRecipes';
+import type { Recipe } from '@/components/RecipeCard';
+
+// A photo whose analysis keeps failing for reasons a retry won't fix is dropped after this many tries
+const MAX_ATTEMPTS = 3;
+
+export interface PhotoQueueCallbacks {
+  onRecipeReady?: (recipe: Recipe) => void;
+  onAnalysisFailed?: (entry: QueuedPhotoAnalysis) => void;
+}
+
+let isProcessingQueue = false;
+
+/**
+ * Whether a failed analysis should be queued for later instead of shown as an error.
+ * Only a missing connection counts: an HTTP error response (bad key, server error, rate limit)
+ * would fail the same way on every retry.
+ */
+export const shouldQueueOffline = (error?: unknown): boolean =>
+  !navigator.onLine || error instanceof XaiNetworkError || error instanceof XaiTimeoutError;
+
+/**
+ * Rate limits and server errors pass on their own, so they don't count as failed attempts
+ */
+const isServerTrouble = (error: unknown): boolean =>
+  error instanceof XaiRateLimitError || (error instanceof XaiHttpError && error.status >= 500);
+
+/**
+ * Holds photos for analysis once the connection returns
+ */
+export const queuePhotosForLater = async (photos: FoodPhoto[], dishName?: string): Promise<void> => {
+  const entry = await queuePhotoAnalysis(photos, dishName);
+  console.log(`[OfflineQueue] Queued ${photos.length} photo(s) as ${entry.id}`);
+};
+
+const toQueuedRecipe = ({ recipe }: ApiResponse, photo: string): Recipe => ({
+  id: generateId(),
+  title: recipe.title || 'Homemade Dish',
+  description: recipe.description || 'A delicious homemade recipe.',
+  ingredients: recipe.ingredients,
+  instructions: recipe.instructions,
+  cookTime: recipe.cookTime || '30 mins',
+  servings: recipe.servings || 4,
+  imageUrl: photo,
+  tags: recipe.tags,
+  macros: recipe.macros,
+});
+
+/**
+ * Analyzes every queued photo, oldest first, and saves the recipes to the recipe box.
+ * Stops early if the connection drops again; concurrent calls are ignored.
+ */
+export async function processPhotoQueue({ onRecipeReady, onAnalysisFailed }: PhotoQueueCallbacks = {}): Promise<void> {
+  if (isProcessingQueue || !navigator.onLine) return;
+  isProcessingQueue = true;
+
+  try {
+    const entries = await getQueuedPhotoAnalyses();
+    if (entries.length > 0) {
+      console.log(`[OfflineQueue] Processing ${entries.length} queued analysis(es)`);
+    }
+
+    for (const entry of entries) {
+      try {
+        const result = await analyzeFood(entry.photos, entry.dishName);
+        if (!result.recipe.ingredients?.length) {
+          throw new Error('No ingredients in the queued analysis');
+        }
+
+        const recipe = toQueuedRecipe(result, entry.photos[0].src);
+        if (!(await saveRecipe(recipe))) {
+          throw new Error('Could not save the queued recipe');
+        }
+
+        await removeQueuedPhotoAnalysis(entry.id);
+        onRecipeReady?.(recipe);
+      } catch (error) {
+        if (shouldQueueOffline(error)) {
+          console.warn('[OfflineQueue] Still offline, keeping the queue for later');
+          return;
+        }
+        if (isServerTrouble(error)) {
+          console.warn('[OfflineQueue] The service is busy or failing, keeping the queue for later:', error);
+          return;
+        }
+
+        console.error(`[OfflineQueue] Analysis of ${entry.id} failed:`, error);
+        const attempts = entry.attempts + 1;
+        if (attempts >= MAX_ATTEMPTS) {
+          await removeQueuedPhotoAnalysis(entry.id);
+          onAnalysisFailed?.(entry);
+        } else {
+          await updateQueuedPhotoAnalysis({ ...entry, attempts });
+        }
+      }
+    }
+  } catch (error) {
+    console.error('[OfflineQueue] Error reading the photo queue:', error);
+  } finally {
+    isProcessingQueue = false;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * IndexedDB storage for offline use: photos waiting to be analyzed,
+ * and the last copy of the recipe box so saved recipes open without a connection.
+ */
+
+import type { FoodPhoto } from './api';
+import type { Recipe } from '@/types/recipe';
+import { generateId } from './helpers';
+
+const DB_NAME = 'recipesnap-offline';
+const DB_VERSION = 1;
+const PHOTO_QUEUE_STORE = 'photo-queue';
+const SAVED_RECIPES_STORE = 'saved-recipes';
+const SAVED_RECIPES_KEY = 'recipe-box';
+
+export interface QueuedPhotoAnalysis {
+  id: string;
+  photos: FoodPhoto[];
+  dishName?: string; // Set if the user had already picked the dish
+  queuedAt: string;
+  attempts: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates) the offline database
+ */
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PHOTO_QUEUE_STORE)) {
+          db.createObjectStore(PHOTO_QUEUE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SAVED_RECIPES_STORE)) {
+          db.createObjectStore(SAVED_RECIPES_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against one object store and resolves with its result
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Whether this browser can store data offline
+ */
+export const isOfflineStoreSupported = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Adds photos to the queue, to be analyzed once the connection returns
+ * @returns The queued entry
+ */
+export const queuePhotoAnalysis = async (photos: FoodPhoto[], dishName?: string): Promise<QueuedPhotoAnalysis> => {
+  const entry: QueuedPhotoAnalysis = {
+    id: generateId(),
+    photos,
+    dishName,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  await runRequest(PHOTO_QUEUE_STORE, 'readwrite', store => store.put(entry));
+  return entry;
+};
+
+/**
+ * Queued analyses, oldest first
+ */
+export const getQueuedPhotoAnalyses = async (): Promise<QueuedPhotoAnalysis[]> => {
+  const entries = await runRequest<QueuedPhotoAnalysis[]>(PHOTO_QUEUE_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const updateQueuedPhotoAnalysis = async (entry: QueuedPhotoAnalysis): Promise<void> => {
+  await runRequest(PHOTO_QUEUE_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const removeQueuedPhotoAnalysis = async (id: string): Promise<void> => {
+  await runRequest(PHOTO_QUEUE_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Keeps a copy of the recipe box for offline use
+ */
+export const cacheSavedRecipes = async (recipes: Recipe[]): Promise<void> => {
+  await runRequest(SAVED_RECIPES_STORE, 'readwrite', store => store.put(recipes, SAVED_RECIPES_KEY));
+};
+
+/**
+ * The last recipe box copy, or null if there is none
+ */
+export const getCachedSavedRecipes = async (): Promise<Recipe[] | null> => {
+  const recipes = await runRequest<Recipe[] | undefined>(SAVED_RECIPES_STORE, 'readonly', store => store.get(SAVED_RECIPES_KEY));
+  return recipes ?? null;
+};
@@ -0,0 +1,173 @@
+/**
+ * One-tap recipe adaptations ("make it vegan") and the comparison of an adapted
+ * version with the recipe it came from.
+ *
+ * The model rewrites the whole recipe (see adaptRecipe in api.ts); the result is kept
+ * as a separate recipe that links back to the original through parentRecipeId.
+ */
+
+import type { Recipe as CardRecipe } from '@/components/RecipeCard';
+import type { MacroNutrients } from '@/types/recipe';
+import { generateId } from './helpers';
+
+export interface AdaptationPreset {
+  id: string;
+  /** Menu label, also used as the variant label ("Vegan version") */
+  label: string;
+  /** Requirement sent to the model */
+  instruction: string;
+}
+
+export const ADAPTATION_PRESETS: AdaptationPreset[] = [
+  {
+    id: 'vegan',
+    label: 'Vegan',
+    instruction: 'Make it vegan: no meat, fish, shellfish, dairy, eggs, honey, gelatin or other animal products.',
+  },
+  {
+    id: 'gluten-free',
+    label: 'Gluten-free',
+    instruction: 'Make it gluten-free: no wheat, barley, rye or spelt, and no ingredients that usually contain gluten such as regular soy sauce, breadcrumbs or beer.',
+  },
+  {
+    id: 'dairy-free',
+    label: 'Dairy-free',
+    instruction: 'Make it dairy-free: no milk, butter, cream, cheese, yogurt, ghee or whey.',
+  },
+  {
+    id: 'keto',
+    label: 'Keto',
+    instruction: 'Make it keto: at most 20 g net carbs per serving, with no sugar, grains, starchy vegetables or legumes.',
+  },
+  {
+    id: 'lower-sodium',
+    label: 'Lower sodium',
+    instruction: 'Cut the sodium by at least a third: less added salt, low-sodium stock, sauces and canned goods, and more herbs, spices and acidity for flavor.',
+  },
+  {
+    id: 'kid-friendly',
+    label: 'Kid-friendly',
+    instruction: 'Make it kid-friendly: mild spice, no alcohol, familiar flavors, bite-sized pieces, and steps an older child could help with.',
+  },
+];
+
+// Custom adaptations are labeled with the user's own text, cut to fit a badge
+const MAX_CUSTOM_LABEL_LENGTH = 40;
+
+/**
+ * Label for a free-text adaptation, e.g. "no mushrooms"
+ */
+export function getCustomAdaptationLabel(text: string): string {
+  const label = text.trim().replace(/\s+/g, ' ');
+  return label.length > MAX_CUSTOM_LABEL_LENGTH ? `${label.slice(0, MAX_CUSTOM_LABEL_LENGTH - 1)}…` : label;
+}
+
+/**
+ * Turns an adapted recipe (the model's rewrite, or a recipe with a substitution applied)
+ * into a new card recipe linked to the one it was adapted from.
+ * Adapting a version again links to the same original and combines the labels.
+ * @param base The recipe that was adapted
+ * @param adapted The changed recipe
+ * @param label What it was adapted for, e.g. "Vegan"
+ */
+export function createRecipeVariant(
+  base: CardRecipe,
+  adapted: Pick<CardRecipe, 'title' | 'description' | 'cookTime' | 'servings' | 'ingredients' | 'instructions' | 'tags' | 'macros'>,
+  label: string
+): CardRecipe {
+  const labels = base.variantLabel ? base.variantLabel.split(', ') : [];
+
+  return {
+    id: generateId(),
+    title: adapted.title,
+    description: adapted.description,
+    imageUrl: base.imageUrl,
+    cookTime: adapted.cookTime,
+    servings: adapted.servings,
+    ingredients: adapted.ingredients,
+    instructions: adapted.instructions,
+    tags: adapted.tags,
+    macros: adapted.macros,
+    parentRecipeId: base.parentRecipeId || base.id,
+    variantLabel: labels.includes(label) ? base.variantLabel : [...labels, label].join(', '),
+  };
+}
+
+export type LineChange = 'unchanged' | 'added' | 'removed';
+
+export interface LineDiff {
+  change: LineChange;
+  text: string;
+}
+
+const normalizeLine = (line: string) => line.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Line-by-line diff of two lists (ingredients or steps), based on their longest common subsequence.
+ * Lines are compared ignoring case and spacing; a changed line shows as removed, then added.
+ * @returns The lines of both lists in order, each marked unchanged, added or removed
+ */
+export function diffLines(before: string[], after: string[]): LineDiff[] {
+  const a = before.map(normalizeLine);
+  const b = after.map(normalizeLine);
+
+  // lengths[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const diff: LineDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ change: 'unchanged', text: after[j] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      diff.push({ change: 'removed', text: before[i++] });
+    } else {
+      diff.push({ change: 'added', text: after[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ change: 'removed', text: before[i++] });
+  while (j < b.length) diff.push({ change: 'added', text: after[j++] });
+
+  return diff;
+}
+
+export interface MacroComparison {
+  key: keyof MacroNutrients;
+  label: string;
+  unit: string;
+  before: number | null;
+  after: number | null;
+}
+
+const COMPARED_MACROS: Pick<MacroComparison, 'key' | 'label' | 'unit'>[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'saturatedFat', label: 'Saturated fat', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+  { key: 'sugar', label: 'Sugar', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' },
+];
+
+/**
+ * Per-serving nutrition of the original next to the adapted version.
+ * Nutrients that neither recipe has are left out.
+ */
+export function compareMacros(before?: MacroNutrients | null, after?: MacroNutrients | null): MacroComparison[] {
+  return COMPARED_MACROS
+    .map(macro => ({
+      ...macro,
+      before: typeof before?.[macro.key] === 'number' ? Math.round(before[macro.key]) : null,
+      after: typeof after?.[macro.key] === 'number' ? Math.round(after[macro.key]) : null,
+    }))
+    .filter(macro => macro.before !== null || macro.after !== null);
+}
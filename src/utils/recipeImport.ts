@@ -0,0 +1,103 @@
+/**
+ * Recipe import from pasted text or a saved web page.
+ * Structured schema.org data is used when the input has it; anything else goes to the model.
+ */
+
+import { normalizeRecipeText } from './api';
+import { ImportedRecipe, parseRecipeJsonLd } from './recipeJsonLd';
+
+export type RecipeImportSource = 'json-ld' | 'model';
+
+export interface RecipeImportResult {
+  recipe: ImportedRecipe;
+  source: RecipeImportSource;
+}
+
+const MAX_HTML_FILE_BYTES = 5 * 1024 * 1024;
+
+export class RecipeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeImportError';
+  }
+}
+
+/**
+ * Whether the input looks like an HTML document rather than plain text
+ */
+export const isHtml = (input: string): boolean => /<(html|head|body|div|p|script|article)\b/i.test(input);
+
+/**
+ * Reads the readable text of an HTML page, without scripts, styles and navigation
+ */
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, svg, nav, header, footer, aside, form, iframe').forEach(node => node.remove());
+
+  // Prefer the main content if the page marks it
+  const root = doc.querySelector('[itemtype*="Recipe"], article, main') || doc.body;
+  root.querySelectorAll('br, p, div, li, h1, h2, h3, h4, h5, h6, tr').forEach(node => {
+    node.append('\n');
+  });
+
+  return (root.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * Reads the page's preview image (og:image), used when the recipe itself has none
+ */
+const getPageImage = (html: string): string | undefined => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const content = doc.querySelector('meta[property="og:image"], meta[name="twitter:image"]')?.getAttribute('content');
+  return content && /^https?:\/\//.test(content) ? content : undefined;
+};
+
+/**
+ * Reads an uploaded .html file as text
+ * @throws RecipeImportError if the file is not HTML or is too large
+ */
+export const readHtmlFile = async (file: File): Promise<string> => {
+  if (!/\.html?$/i.test(file.name) && file.type !== 'text/html') {
+    throw new RecipeImportError('Please choose an .html file (a web page saved from your browser).');
+  }
+  if (file.size > MAX_HTML_FILE_BYTES) {
+    throw new RecipeImportError('That file is too large. Saved recipe pages are usually well under 5 MB.');
+  }
+  return file.text();
+};
+
+/**
+ * Turns pasted text, JSON-LD or page HTML into a recipe
+ * @param input Free recipe text, a JSON-LD blob, or the HTML of a recipe page
+ * @returns The recipe and whether it came from structured data or the model
+ * @throws RecipeImportError if there is nothing to import; model errors are passed through
+ */
+export const importRecipe = async (input: string): Promise<RecipeImportResult> => {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new RecipeImportError('Paste a recipe or choose a file to import.');
+  }
+
+  const structured = parseRecipeJsonLd(trimmed);
+  if (structured) {
+    console.log('[RecipeImport] Recipe read from schema.org JSON-LD');
+    return { recipe: structured, source: 'json-ld' };
+  }
+
+  const html = isHtml(trimmed);
+  const text = html ? htmlToText(trimmed) : trimmed;
+  if (text.length < 20) {
+    throw new RecipeImportError('There is not enough text here to find a recipe.');
+  }
+
+  console.log('[RecipeImport] No JSON-LD found, normalizing text with the model');
+  const { recipe } = await normalizeRecipeText(text);
+  return {
+    recipe: { ...recipe, imageUrl: recipe.imageUrl || (html ? getPageImage(trimmed) : undefined) },
+    source: 'model',
+  };
+};
@@ -0,0 +1,339 @@
+/**
+ * schema.org Recipe JSON-LD export and import
+ * @see https://schema.org/Recipe
+ */
+
+import { z } from 'zod';
+import type { Recipe } from '@/components/RecipeCard';
+import type { ApiResponse } from './api';
+import { recipeResponseSchema } from './api';
+import { getSectionHeading, HEADER_MARKER } from './recipePrint';
+
+type JsonLdNode = Record<string, unknown>;
+
+/**
+ * Fields a recipe page may leave out. The model schema fills them with guesses;
+ * an import keeps them missing instead of saving made-up times.
+ */
+type OptionalImportField = 'cookTime' | 'prepTime' | 'totalTime' | 'difficulty';
+
+export type ImportedRecipe = Omit<ApiResponse['recipe'], OptionalImportField> &
+  Partial<Pick<ApiResponse['recipe'], OptionalImportField>>;
+
+const importedRecipeSchema = recipeResponseSchema.extend({
+  cookTime: z.string().optional(),
+  prepTime: z.string().optional(),
+  totalTime: z.string().optional(),
+  difficulty: z.string().optional(),
+});
+
+/**
+ * Recipe fields the export reads. Both recipe types satisfy it.
+ */
+export type ExportableRecipe = Pick<
+  Recipe,
+  'title' | 'description' | 'imageUrl' | 'cookTime' | 'servings' | 'ingredients' | 'instructions' | 'tags' | 'macros'
+> & { created_at?: string };
+
+// --- Durations ---
+
+/**
+ * Reads a cook time such as "30 mins", "1 hour 15 mins" or "1.5 hours" as minutes
+ * @returns Minutes, or null if the text has no duration
+ */
+export const parseDurationMinutes = (text: string): number | null => {
+  if (!text) return null;
+
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/i);
+  const minutes = text.match(/(\d+)\s*(?:m|min|mins|minute|minutes)\b/i);
+  if (hours || minutes) {
+    return Math.round((hours ? Number(hours[1]) * 60 : 0) + (minutes ? Number(minutes[1]) : 0));
+  }
+
+  // A bare number is taken as minutes
+  const bare = text.match(/\d+/);
+  return bare ? Number(bare[0]) : null;
+};
+
+/**
+ * Converts a cook time to an ISO 8601 duration ("1 hour 15 mins" -> "PT1H15M")
+ */
+export const toIsoDuration = (text: string): string | null => {
+  const total = parseDurationMinutes(text);
+  if (total === null) return null;
+
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return `PT${hours ? `${hours}H` : ''}${minutes || !hours ? `${minutes}M` : ''}`;
+};
+
+/**
+ * Converts an ISO 8601 duration to the app's cook time format ("PT1H15M" -> "1 hr 15 mins")
+ */
+export const fromIsoDuration = (duration: string): string | null => {
+  const match = duration?.trim().match(/^P(?:(\d+)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:\d+(?:\.\d+)?S)?)?$/i);
+  if (!match) return null;
+
+  const total = Math.round(Number(match[1] || 0) * 1440 + Number(match[2] || 0) * 60 + Number(match[3] || 0));
+  if (total === 0) return null;
+
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  const parts = [];
+  if (hours) parts.push(`${hours} ${hours === 1 ? 'hr' : 'hrs'}`);
+  if (minutes) parts.push(`${minutes} ${minutes === 1 ? 'min' : 'mins'}`);
+  return parts.join(' ');
+};
+
+// --- Export ---
+
+/**
+ * Serializes a recipe as a schema.org Recipe JSON-LD object
+ * @param recipe Recipe to export
+ * @param url Canonical URL of the recipe, if it has one
+ */
+export const recipeToJsonLd = (recipe: ExportableRecipe, url?: string): JsonLdNode => {
+  // ##HEADER## lines become HowToSections; steps before the first header stay top-level
+  const instructions: JsonLdNode[] = [];
+  let section: JsonLdNode[] | null = null;
+  recipe.instructions.forEach(line => {
+    const heading = getSectionHeading(line);
+    if (heading !== null) {
+      section = [];
+      instructions.push({ '@type': 'HowToSection', name: heading, itemListElement: section });
+      return;
+    }
+    const step = { '@type': 'HowToStep', text: line.trim().replace(/^\d+[.)]\s+/, '') };
+    (section || instructions).push(step);
+  });
+
+  const jsonLd: JsonLdNode = {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.title,
+    description: recipe.description,
+    recipeIngredient: recipe.ingredients.filter(line => !line.startsWith(HEADER_MARKER)),
+    recipeInstructions: instructions,
+    recipeYield: [String(recipe.servings), `${recipe.servings} servings`],
+  };
+
+  // Inline photos (data: URLs) are too large to be useful here
+  if (recipe.imageUrl && !recipe.imageUrl.startsWith('data:')) jsonLd.image = [recipe.imageUrl];
+  if (url) jsonLd.url = url;
+  if (recipe.created_at) jsonLd.datePublished = recipe.created_at;
+
+  const cookTime = toIsoDuration(recipe.cookTime);
+  if (cookTime) jsonLd.cookTime = cookTime;
+
+  if (recipe.tags?.length) jsonLd.keywords = recipe.tags.join(', ');
+
+  if (recipe.macros) {
+    const { macros } = recipe;
+    const nutrition: JsonLdNode = {
+      '@type': 'NutritionInformation',
+      servingSize: '1 serving',
+      calories: `${Math.round(macros.calories || 0)} calories`,
+      proteinContent: `${macros.protein || 0} g`,
+      carbohydrateContent: `${macros.carbs || 0} g`,
+      fatContent: `${macros.fat || 0} g`,
+    };
+    if (macros.saturatedFat !== undefined) nutrition.saturatedFatContent = `${macros.saturatedFat} g`;
+    if (macros.fiber !== undefined) nutrition.fiberContent = `${macros.fiber} g`;
+    if (macros.sugar !== undefined) nutrition.sugarContent = `${macros.sugar} g`;
+    if (macros.sodium !== undefined) nutrition.sodiumContent = `${macros.sodium} mg`;
+    jsonLd.nutrition = nutrition;
+  }
+
+  return jsonLd;
+};
+
+// --- Import ---
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', frac12: '½', frac14: '¼', frac34: '¾', deg: '°',
+};
+
+/**
+ * Strips tags and decodes HTML entities (recipe sites often put HTML inside JSON-LD strings)
+ */
+const toPlainText = (value: unknown): string =>
+  typeof value !== 'string' && typeof value !== 'number'
+    ? ''
+    : String(value)
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+        .replace(/&([a-z0-9]+);/gi, (entity, name) => ENTITIES[name.toLowerCase()] ?? entity)
+        .replace(/[ \t]+/g, ' ')
+        .trim();
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const isRecipeNode = (node: unknown): node is JsonLdNode =>
+  typeof node === 'object' && node !== null &&
+  asArray((node as JsonLdNode)['@type']).some(type => typeof type === 'string' && /(^|[/:])Recipe$/.test(type));
+
+/**
+ * Finds Recipe nodes anywhere in a JSON-LD document (top level, arrays, @graph, mainEntity)
+ */
+const findRecipeNodes = (value: unknown, found: JsonLdNode[] = []): JsonLdNode[] => {
+  if (Array.isArray(value)) {
+    value.forEach(item => findRecipeNodes(item, found));
+  } else if (typeof value === 'object' && value !== null) {
+    if (isRecipeNode(value)) {
+      found.push(value);
+    } else {
+      const node = value as JsonLdNode;
+      findRecipeNodes(node['@graph'], found);
+      findRecipeNodes(node.mainEntity, found);
+    }
+  }
+  return found;
+};
+
+/**
+ * Returns the contents of every <script type="application/ld+json"> block in an HTML page
+ */
+export const extractJsonLdBlocks = (html: string): string[] => {
+  const blocks: string[] = [];
+  const pattern = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    blocks.push(match[1].trim());
+  }
+  return blocks;
+};
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Some sites leave raw newlines inside strings
+    try {
+      return JSON.parse(text.replace(/[\r\n]+/g, ' '));
+    } catch {
+      return null;
+    }
+  }
+};
+
+const parseInstructions = (value: unknown): string[] => {
+  if (typeof value === 'string') {
+    return toPlainText(value).split(/\n+/).map(line => line.trim()).filter(Boolean);
+  }
+
+  return asArray(value).flatMap(item => {
+    if (typeof item === 'string') return parseInstructions(item);
+    if (typeof item !== 'object' || item === null) return [];
+
+    const node = item as JsonLdNode;
+    if (asArray(node['@type']).includes('HowToSection')) {
+      const steps = parseInstructions(node.itemListElement);
+      const name = toPlainText(node.name);
+      return name ? [`${HEADER_MARKER} ${name}`, ...steps] : steps;
+    }
+    const text = toPlainText(node.text || node.name || node.description);
+    return text ? [text] : [];
+  });
+};
+
+// "500 calories", "1,250 calories", "20 g", "1.2 g" or "1,2 g" (sodium given in grams is converted to mg).
+// A comma followed by exactly three digits is a thousands separator, any other comma a decimal point.
+const parseNutrient = (value: unknown, unit: 'g' | 'mg' | 'kcal'): number | undefined => {
+  const text = toPlainText(value);
+  const match = text.match(/(\d{1,3}(?:,\d{3})+(?![\d.,])|\d+(?:[.,]\d+)?)\s*(mg|g|kcal|cal|calories)?/i);
+  if (!match) return undefined;
+
+  const amount = Number(/,\d{3}$/.test(match[1]) ? match[1].replace(/,/g, '') : match[1].replace(',', '.'));
+  if (unit === 'mg' && match[2]?.toLowerCase() === 'g') return Math.round(amount * 1000);
+  return amount;
+};
+
+const parseYield = (value: unknown): number | undefined => {
+  for (const item of asArray(value)) {
+    const match = toPlainText(item).match(/\d+/);
+    if (match && Number(match[0]) > 0) return Number(match[0]);
+  }
+  return undefined;
+};
+
+const parseImage = (value: unknown): string | undefined => {
+  for (const item of asArray(value)) {
+    if (typeof item === 'string' && item) return item;
+    if (typeof item === 'object' && item !== null) {
+      const url = (item as JsonLdNode).url || (item as JsonLdNode).contentUrl;
+      if (typeof url === 'string' && url) return url;
+    }
+  }
+  return undefined;
+};
+
+const parseKeywords = (node: JsonLdNode): string[] => {
+  const values = [
+    ...asArray(node.recipeCuisine),
+    ...asArray(node.recipeCategory),
+    ...asArray(node.suitableForDiet).map(diet => String(diet).replace(/^.*\//, '').replace(/Diet$/, '')),
+    ...asArray(node.keywords).flatMap(keywords => String(keywords).split(',')),
+  ];
+  const tags = values.map(value => toPlainText(value).toLowerCase()).filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, 10);
+};
+
+/**
+ * Maps a schema.org Recipe node onto the app's recipe shape
+ * @returns The recipe, or null if it lacks a name, ingredients or instructions
+ */
+export const jsonLdToRecipe = (node: JsonLdNode): ImportedRecipe | null => {
+  const nutrition = (node.nutrition || {}) as JsonLdNode;
+  const hasNutrition = nutrition.calories !== undefined;
+
+  const candidate = {
+    title: toPlainText(node.name || node.headline),
+    description: toPlainText(node.description),
+    ingredients: asArray(node.recipeIngredient || node.ingredients).map(toPlainText).filter(Boolean),
+    instructions: parseInstructions(node.recipeInstructions),
+    cookTime: fromIsoDuration(String(node.cookTime || '')) ?? fromIsoDuration(String(node.totalTime || '')) ?? undefined,
+    prepTime: fromIsoDuration(String(node.prepTime || '')) ?? undefined,
+    totalTime: fromIsoDuration(String(node.totalTime || '')) ?? undefined,
+    servings: parseYield(node.recipeYield),
+    tags: parseKeywords(node),
+    macros: hasNutrition ? {
+      calories: parseNutrient(nutrition.calories, 'kcal') ?? 0,
+      protein: parseNutrient(nutrition.proteinContent, 'g') ?? 0,
+      carbs: parseNutrient(nutrition.carbohydrateContent, 'g') ?? 0,
+      fat: parseNutrient(nutrition.fatContent, 'g') ?? 0,
+      saturatedFat: parseNutrient(nutrition.saturatedFatContent, 'g'),
+      fiber: parseNutrient(nutrition.fiberContent, 'g'),
+      sugar: parseNutrient(nutrition.sugarContent, 'g'),
+      sodium: parseNutrient(nutrition.sodiumContent, 'mg'),
+    } : undefined,
+  };
+
+  const result = importedRecipeSchema.safeParse(candidate);
+  if (!result.success) {
+    console.warn('[RecipeJsonLd] Recipe node is missing required fields:', result.error.issues);
+    return null;
+  }
+
+  return { ...result.data, imageUrl: parseImage(node.image) } as ImportedRecipe;
+};
+
+/**
+ * Reads the first schema.org Recipe from a JSON-LD blob or from an HTML page containing one
+ * @param input JSON-LD text, or the HTML source of a recipe page
+ * @returns The recipe, or null if none was found
+ */
+export const parseRecipeJsonLd = (input: string): ImportedRecipe | null => {
+  const trimmed = input.trim();
+  const blocks = /^[[{]/.test(trimmed) ? [trimmed] : extractJsonLdBlocks(trimmed);
+
+  for (const block of blocks) {
+    for (const node of findRecipeNodes(parseJson(block))) {
+      const recipe = jsonLdToRecipe(node);
+      if (recipe) return recipe;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,306 @@
+/**
+ * Client-side PDF export of a recipe.
+ * jsPDF is loaded on demand so it stays out of the main bundle.
+ */
+
+import type { jsPDF } from 'jspdf';
+import {
+  getNutritionFactsRows,
+  getRecipeFileName,
+  PrintableRecipe,
+  toSectionLines,
+} from './recipePrint';
+
+const PAGE_MARGIN = 18; // mm
+const FOOTER_HEIGHT = 10; // mm
+const MAX_IMAGE_HEIGHT = 90; // mm
+const MAX_IMAGE_PIXELS = 1600;
+const PT_TO_MM = 0.3528;
+
+const TEXT_COLOR: [number, number, number] = [33, 33, 33];
+const MUTED_COLOR: [number, number, number] = [110, 110, 110];
+
+// The built-in PDF fonts only cover Windows-1252, so spell out the fractions it lacks
+const FRACTION_TEXT: Record<string, string> = {
+  '⅓': '1/3', '⅔': '2/3', '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5',
+  '⅙': '1/6', '⅚': '5/6', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+const WIN_1252_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+/**
+ * Makes text safe for the standard PDF fonts
+ */
+const toPdfText = (text: string): string =>
+  text
+    .replace(/(\d)?([⅓⅔⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, whole, fraction) =>
+      (whole ? `${whole} ` : '') + FRACTION_TEXT[fraction])
+    .replace(/[−‐‑]/g, '-')
+    .replace(/[^\n\x20-\xFF]/g, char => (WIN_1252_EXTRAS.includes(char) ? char : ''));
+
+/**
+ * Loads an image and re-encodes it as a JPEG data URL (also downscales large photos).
+ * Resolves to null if the image can't be loaded or the host doesn't allow reading it.
+ */
+const loadImageAsJpeg = (url: string): Promise<{ dataUrl: string; width: number; height: number } | null> =>
+  new Promise(resolve => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      try {
+        const scale = Math.min(1, MAX_IMAGE_PIXELS / Math.max(image.naturalWidth, image.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.naturalWidth * scale);
+        canvas.height = Math.round(image.naturalHeight * scale);
+        const context = canvas.getContext('2d');
+        if (!context) {
+          resolve(null);
+          return;
+        }
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        resolve({ dataUrl: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height });
+      } catch (error) {
+        // Cross-origin images without CORS headers taint the canvas
+        console.warn('[RecipePdf] Could not embed recipe image:', error);
+        resolve(null);
+      }
+    };
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+
+/**
+ * Small layout helper that tracks the cursor and starts new pages as needed
+ */
+class PdfLayout {
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  readonly contentWidth: number;
+  y = PAGE_MARGIN;
+
+  constructor(private doc: jsPDF) {
+    this.pageWidth = doc.internal.pageSize.getWidth();
+    this.pageHeight = doc.internal.pageSize.getHeight();
+    this.contentWidth = this.pageWidth - PAGE_MARGIN * 2;
+  }
+
+  lineHeight(fontSize: number): number {
+    return fontSize * PT_TO_MM * 1.35;
+  }
+
+  /**
+   * Starts a new page unless the next `height` mm fit on this one
+   */
+  ensureSpace(height: number): void {
+    if (this.y + height > this.pageHeight - PAGE_MARGIN - FOOTER_HEIGHT) {
+      this.doc.addPage();
+      this.y = PAGE_MARGIN;
+    }
+  }
+
+  setFont(style: 'normal' | 'bold', fontSize: number, color = TEXT_COLOR, family = 'helvetica'): void {
+    this.doc.setFont(family, style);
+    this.doc.setFontSize(fontSize);
+    this.doc.setTextColor(...color);
+  }
+
+  /**
+   * Writes wrapped text at the current font, breaking across pages line by line
+   */
+  paragraph(text: string, x = PAGE_MARGIN, width = this.contentWidth, spacingAfter = 2): void {
+    const fontSize = this.doc.getFontSize();
+    const lineHeight = this.lineHeight(fontSize);
+    const lines: string[] = this.doc.splitTextToSize(toPdfText(text), width);
+
+    lines.forEach(line => {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, x, this.y + fontSize * PT_TO_MM);
+      this.y += lineHeight;
+    });
+    this.y += spacingAfter;
+  }
+
+  /**
+   * Section title such as "Ingredients", kept on the same page as the first lines below it
+   */
+  sectionTitle(text: string): void {
+    this.y += 4;
+    this.setFont('bold', 15, TEXT_COLOR, 'times');
+    this.ensureSpace(this.lineHeight(15) + this.lineHeight(11) * 2);
+    this.paragraph(text, PAGE_MARGIN, this.contentWidth, 1);
+    this.doc.setDrawColor(200, 200, 200);
+    this.doc.setLineWidth(0.3);
+    this.doc.line(PAGE_MARGIN, this.y, PAGE_MARGIN + this.contentWidth, this.y);
+    this.y += 3;
+  }
+
+  /**
+   * Bulleted or numbered list with ##HEADER## lines rendered as subheadings
+   */
+  list(lines: string[], numbered: boolean): void {
+    const indent = numbered ? 8 : 5;
+
+    toSectionLines(lines).forEach(line => {
+      if (line.type === 'heading') {
+        this.y += 2;
+        this.setFont('bold', 12);
+        this.ensureSpace(this.lineHeight(12) + this.lineHeight(11) * 2);
+        this.paragraph(line.text, PAGE_MARGIN, this.contentWidth, 1);
+        return;
+      }
+
+      this.setFont('normal', 11);
+      const lineHeight = this.lineHeight(11);
+      const wrapped: string[] = this.doc.splitTextToSize(toPdfText(line.text), this.contentWidth - indent);
+      // Keep short items together; long ones may break after their first two lines
+      this.ensureSpace(lineHeight * Math.min(wrapped.length, 2));
+
+      this.doc.setFont('helvetica', numbered ? 'bold' : 'normal');
+      this.doc.text(numbered ? `${line.number}.` : '•', PAGE_MARGIN, this.y + 11 * PT_TO_MM);
+      this.doc.setFont('helvetica', 'normal');
+      this.paragraph(line.text, PAGE_MARGIN + indent, this.contentWidth - indent, numbered ? 2.5 : 1);
+    });
+  }
+
+  image(dataUrl: string, width: number, height: number): void {
+    const scale = Math.min(this.contentWidth / width, MAX_IMAGE_HEIGHT / height);
+    const drawWidth = width * scale;
+    const drawHeight = height * scale;
+
+    this.ensureSpace(drawHeight);
+    this.doc.addImage(dataUrl, 'JPEG', PAGE_MARGIN + (this.contentWidth - drawWidth) / 2, this.y, drawWidth, drawHeight);
+    this.y += drawHeight + 6;
+  }
+
+  /**
+   * US-style "Nutrition Facts" panel; never split across pages
+   */
+  nutritionFacts(recipe: PrintableRecipe): void {
+    if (!recipe.macros) return;
+
+    const rows = getNutritionFactsRows(recipe.macros);
+    const width = 80;
+    const padding = 3;
+    const rowHeight = 6;
+    const height = 36 + rows.length * rowHeight + 12;
+    const left = PAGE_MARGIN;
+    const right = left + width - padding;
+
+    this.y += 8;
+    this.ensureSpace(height);
+    const top = this.y;
+
+    this.doc.setDrawColor(0, 0, 0);
+    this.doc.setLineWidth(0.4);
+    this.doc.rect(left, top, width, height);
+
+    let y = top + padding;
+    this.setFont('bold', 18, [0, 0, 0]);
+    this.doc.text('Nutrition Facts', left + padding, y + 18 * PT_TO_MM);
+    y += 9;
+
+    this.setFont('normal', 9, [0, 0, 0]);
+    this.doc.text(`${recipe.servings} servings per recipe`, left + padding, y + 9 * PT_TO_MM);
+    y += 5;
+    this.doc.setLineWidth(2);
+    this.doc.line(left + padding, y, right, y);
+    y += 2;
+
+    this.setFont('bold', 9, [0, 0, 0]);
+    this.doc.text('Amount per serving', left + padding, y + 9 * PT_TO_MM);
+    y += 4;
+    this.setFont('bold', 16, [0, 0, 0]);
+    this.doc.text('Calories', left + padding, y + 16 * PT_TO_MM);
+    this.doc.text(String(Math.round(recipe.macros.calories || 0)), right, y + 16 * PT_TO_MM, { align: 'right' });
+    y += 8;
+    this.doc.setLineWidth(1);
+    this.doc.line(left + padding, y, right, y);
+    y += 1;
+
+    this.setFont('bold', 8, [0, 0, 0]);
+    this.doc.text('% Daily Value*', right, y + 8 * PT_TO_MM, { align: 'right' });
+    y += 4;
+
+    this.doc.setLineWidth(0.2);
+    rows.forEach(row => {
+      this.doc.line(left + padding, y, right, y);
+      const baseline = y + 1 + 9 * PT_TO_MM;
+      const labelX = left + padding + (row.indent ? 4 : 0);
+
+      this.setFont(row.indent ? 'normal' : 'bold', 9, [0, 0, 0]);
+      this.doc.text(row.label, labelX, baseline);
+      const amountX = labelX + this.doc.getTextWidth(`${row.label} `);
+      this.setFont('normal', 9, [0, 0, 0]);
+      this.doc.text(row.amount, amountX, baseline);
+      if (row.dailyValue !== null) {
+        this.setFont('bold', 9, [0, 0, 0]);
+        this.doc.text(`${row.dailyValue}%`, right, baseline, { align: 'right' });
+      }
+      y += rowHeight;
+    });
+
+    this.doc.setLineWidth(1);
+    this.doc.line(left + padding, y, right, y);
+    y += 2;
+    this.setFont('normal', 7, [0, 0, 0]);
+    const footnote: string[] = this.doc.splitTextToSize(
+      '* The % Daily Value tells you how much a nutrient in a serving contributes to a daily diet. 2,000 calories a day is used for general nutrition advice.',
+      width - padding * 2
+    );
+    this.doc.text(footnote, left + padding, y + 7 * PT_TO_MM);
+
+    this.y = top + height + 4;
+  }
+
+  footer(title: string): void {
+    const pageCount = this.doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      this.doc.setPage(page);
+      this.setFont('normal', 8, MUTED_COLOR);
+      const baseline = this.pageHeight - PAGE_MARGIN / 2;
+      this.doc.text(toPdfText(`RecipeSnap · ${title}`), PAGE_MARGIN, baseline);
+      this.doc.text(`Page ${page} of ${pageCount}`, this.pageWidth - PAGE_MARGIN, baseline, { align: 'right' });
+    }
+  }
+}
+
+/**
+ * Builds an A4 PDF of the recipe and downloads it
+ * @param recipe Recipe as shown on the card (scaled and unit-converted)
+ */
+export const exportRecipePdf = async (recipe: PrintableRecipe): Promise<void> => {
+  const [{ jsPDF }, image] = await Promise.all([
+    import('jspdf'),
+    recipe.imageUrl ? loadImageAsJpeg(recipe.imageUrl) : Promise.resolve(null),
+  ]);
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const layout = new PdfLayout(doc);
+
+  layout.setFont('bold', 24, TEXT_COLOR, 'times');
+  layout.paragraph(recipe.title, undefined, undefined, 1);
+
+  layout.setFont('normal', 11, MUTED_COLOR);
+  layout.paragraph(recipe.description, undefined, undefined, 2);
+
+  const details = [`Cook time: ${recipe.cookTime}`, `Serves ${recipe.servings}`];
+  if (recipe.tags?.length) details.push(recipe.tags.join(', '));
+  layout.setFont('normal', 9, MUTED_COLOR);
+  layout.paragraph(details.join('  ·  '), undefined, undefined, 5);
+
+  if (image) {
+    layout.image(image.dataUrl, image.width, image.height);
+  }
+
+  layout.sectionTitle('Ingredients');
+  layout.list(recipe.ingredients, false);
+
+  layout.sectionTitle('Instructions');
+  layout.list(recipe.instructions, true);
+
+  layout.nutritionFacts(recipe);
+
+  layout.footer(recipe.title);
+  doc.save(getRecipeFileName(recipe.title, 'pdf'));
+};
@@ -0,0 +1,116 @@
+/**
+ * Shared model for the printable recipe view and the PDF export.
+ * Both render the recipe as currently shown on the card: scaled servings and converted units.
+ */
+
+import type { MacroNutrients } from '@/types/recipe';
+import { calculateDailyValuePercent, scaleMacros } from './nutrition';
+
+/**
+ * Marker the recipe generator puts in front of section titles ("##HEADER## For the sauce")
+ */
+export const HEADER_MARKER = '##HEADER##';
+
+export interface PrintableRecipe {
+  title: string;
+  description: string;
+  imageUrl?: string;
+  cookTime: string;
+  servings: number;
+  tags?: string[];
+  /** Ingredient lines ready to display, including any ##HEADER## lines */
+  ingredients: string[];
+  /** Instruction lines ready to display, including any ##HEADER## lines */
+  instructions: string[];
+  /** Per-serving macros */
+  macros?: MacroNutrients | null;
+}
+
+export type RecipeSectionLine =
+  | { type: 'heading'; text: string }
+  | { type: 'item'; text: string; number: number };
+
+export interface NutritionFactsRow {
+  label: string;
+  amount: string;
+  /** Percent Daily Value, or null when there is none */
+  dailyValue: number | null;
+  /** Sub-nutrients (saturated fat, fiber, sugars) are indented under their parent */
+  indent?: boolean;
+}
+
+/**
+ * Returns the section title if the line is a section header, otherwise null.
+ * Accepts the ##HEADER## marker as well as short lines ending in a colon ("For the dough:").
+ */
+export const getSectionHeading = (line: string): string | null => {
+  const trimmed = line.trim();
+  if (trimmed.startsWith(HEADER_MARKER)) {
+    return trimmed.substring(HEADER_MARKER.length).trim().replace(/:$/, '');
+  }
+  if (trimmed.length < 40 && trimmed.endsWith(':') && !/^\d+[.)]/.test(trimmed)) {
+    return trimmed.slice(0, -1).trim();
+  }
+  return null;
+};
+
+/**
+ * Splits lines into headings and items. Items are numbered continuously across
+ * headings, and any "1." / "2)" numbering already in the text is dropped.
+ */
+export const toSectionLines = (lines: string[]): RecipeSectionLine[] => {
+  let number = 0;
+
+  return lines
+    .filter(line => line.trim() !== '')
+    .map<RecipeSectionLine>(line => {
+      const heading = getSectionHeading(line);
+      if (heading !== null) {
+        return { type: 'heading', text: heading };
+      }
+      number += 1;
+      return { type: 'item', text: line.trim().replace(/^\d+[.)]\s+/, ''), number };
+    });
+};
+
+const grams = (value: number) => `${Math.round(value)}g`;
+
+/**
+ * Rows of a "Nutrition Facts" panel for one serving, in label order
+ */
+export const getNutritionFactsRows = (macros: MacroNutrients): NutritionFactsRow[] => {
+  const amounts = scaleMacros(macros, 1);
+  const dv = calculateDailyValuePercent(amounts);
+
+  const rows: NutritionFactsRow[] = [
+    { label: 'Total Fat', amount: grams(amounts.fat), dailyValue: dv.totalFat },
+  ];
+  if (amounts.saturatedFat !== null) {
+    rows.push({ label: 'Saturated Fat', amount: grams(amounts.saturatedFat), dailyValue: dv.saturatedFat, indent: true });
+  }
+  if (amounts.sodium !== null) {
+    rows.push({ label: 'Sodium', amount: `${Math.round(amounts.sodium)}mg`, dailyValue: dv.sodium });
+  }
+  rows.push({ label: 'Total Carbohydrate', amount: grams(amounts.carbs), dailyValue: dv.carbs });
+  if (amounts.fiber !== null) {
+    rows.push({ label: 'Dietary Fiber', amount: grams(amounts.fiber), dailyValue: dv.fiber, indent: true });
+  }
+  if (amounts.sugar !== null) {
+    rows.push({ label: 'Total Sugars', amount: grams(amounts.sugar), dailyValue: null, indent: true });
+  }
+  rows.push({ label: 'Protein', amount: grams(amounts.protein), dailyValue: dv.protein });
+
+  return rows;
+};
+
+/**
+ * File name for an exported recipe, e.g. "creamy-tomato-pasta.pdf"
+ */
+export const getRecipeFileName = (title: string, extension: string): string => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'recipe'}.${extension}`;
+};
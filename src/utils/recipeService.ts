@@ -1,9 +1,12 @@
-import { getXaiApiKey } from '@/utils/env';
+import { chatCompletion } from '@/utils/xaiClient';
+import { RecipeGenerationError } from '@/utils/xaiErrors';
 import { Recipe } from '@/components/RecipeCard';
 import { generateImageFromPrompt } from '@/utils/imageService';
 import { sleep, setCachedData } from '@/utils/helpers.ts';
 import { storeRecipe, getPopularRecipes as getSupabasePopularRecipes } from '@/lib/recipes'
 import type { Recipe as SupabaseRecipe } from '@/types/recipe'
+import { getSettings } from '@/utils/settings';
+import { DietaryProfile, findDietaryConflicts, formatDietaryProfileForPrompt } from '@/utils/dietaryProfile';
 
 // Cache Key Definition
 export const CACHE_KEY_POPULAR_RECIPES = 'popular_recipes'
@@ -82,31 +85,15 @@ const DIFFICULTY_LEVELS = [
   'medium difficulty', 'advanced', 'challenging', 'expert'
 ];
 
-// Rate limiting configuration
-const API_RATE_LIMIT = 3; // requests per second
-const API_RATE_WINDOW = 1000; // 1 second in milliseconds
-let lastApiCall = 0;
+// Error types live in xaiErrors; re-exported for existing imports
+export { RecipeGenerationError };
 
-// Error types for better error handling
-export class RecipeGenerationError extends Error {
-  constructor(message: string, public details?: any) {
-    super(message);
-    this.name = 'RecipeGenerationError';
-  }
-}
-
-// Helper function to enforce rate limiting
-async function enforceRateLimit() {
-  const now = Date.now();
-  const timeSinceLastCall = now - lastApiCall;
-  const minDelay = API_RATE_WINDOW / API_RATE_LIMIT;
-
-  if (timeSinceLastCall < minDelay) {
-    const delay = minDelay - timeSinceLastCall;
-    await sleep(delay);
-  }
-
-  lastApiCall = Date.now();
+/**
+ * Leaves out options that conflict with the dietary profile (e.g. shrimp for a shellfish allergy)
+ */
+function getAllowedOptions(options: string[], profile: DietaryProfile): string[] {
+  const allowed = options.filter(option => findDietaryConflicts([option], profile).length === 0);
+  return allowed.length > 0 ? allowed : options;
 }
 
 /**
@@ -114,17 +101,15 @@ async function enforceRateLimit() {
  * @returns Promise with the generated recipe
  */
 async function _generateSingleRecipe(): Promise<Recipe> {
-  const apiKey = getXaiApiKey();
-
-  if (!apiKey) {
-    throw new RecipeGenerationError('API key is required for recipe generation');
-  }
+  const { dietaryProfile } = getSettings();
+  const recipeTypes = getAllowedOptions(RECIPE_TYPES, dietaryProfile);
+  const mainIngredients = getAllowedOptions(MAIN_INGREDIENTS, dietaryProfile);
 
   // Select random elements for variety
-  const recipeType = RECIPE_TYPES[Math.floor(Math.random() * RECIPE_TYPES.length)];
+  const recipeType = recipeTypes[Math.floor(Math.random() * recipeTypes.length)];
   const cuisine = CUISINES[Math.floor(Math.random() * CUISINES.length)];
   // ADDED: Select from new arrays
-  const mainIngredient = MAIN_INGREDIENTS[Math.floor(Math.random() * MAIN_INGREDIENTS.length)];
+  const mainIngredient = mainIngredients[Math.floor(Math.random() * mainIngredients.length)];
   const cookingMethod = COOKING_METHODS[Math.floor(Math.random() * COOKING_METHODS.length)];
   const difficulty = DIFFICULTY_LEVELS[Math.floor(Math.random() * DIFFICULTY_LEVELS.length)];
 
@@ -143,9 +128,12 @@ Generate recipes that are:
 7. Ensure the description is engaging and appetizing.
 8. IMPORTANT: Always respond ONLY with the JSON object containing the recipe details as specified in the user prompt format. Do not include any introductory text, explanations, or markdown formatting outside the JSON structure.`;
 
-  try {
-    await enforceRateLimit();
+  const profilePrompt = formatDietaryProfileForPrompt(dietaryProfile);
+  const dietaryRequirements = profilePrompt
+    ? `\n\n${profilePrompt}\nThe recipe must fit this profile; if the requested style would normally break it, adapt the dish rather than the profile.`
+    : '';
 
+  try {
     // UPDATED: Construct a more detailed user prompt
     const userPrompt = `Generate a detailed recipe JSON object for a ${difficulty} ${recipeType} inspired by ${cuisine} cuisine. The recipe should prominently feature ${mainIngredient} and primarily use the ${cookingMethod} cooking method.
 
@@ -170,37 +158,24 @@ Return ONLY the JSON object with the following structure:
     "sugar": Number (optional),
     "sodium": Number (optional)
   }
-}`;
-
-    const response = await fetch('https://api.x.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: "grok-3-latest",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ]
-      })
+}${dietaryRequirements}`;
+
+    // Rate limiting, retries and timeouts are handled by the shared XAI client
+    const content = await chatCompletion('generate-recipe', {
+      model: "grok-3-latest",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ]
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new RecipeGenerationError(`Recipe generation failed with status: ${response.status}`, errorData);
-    }
-
-    const data = await response.json();
     console.log('[RecipeService] Successfully received recipe data');
 
     let recipeData;
     try {
-      recipeData = JSON.parse(data.choices[0].message.content);
+      recipeData = JSON.parse(content);
     } catch (e) {
       console.error('[RecipeService] Failed to parse recipe data:', e);
-      throw new RecipeGenerationError('Failed to parse recipe response', { content: data.choices[0].message.content });
+      throw new RecipeGenerationError('Failed to parse recipe response', { content });
     }
 
     // Validate required fields
@@ -213,7 +188,6 @@ Return ONLY the JSON object with the following structure:
     // Generate Image URL separately after validating core recipe data
     let imageUrl = 'https://via.placeholder.com/400'; // Default fallback
     try {
-      await enforceRateLimit(); // Rate limit before image call too
       console.log('[RecipeService] Starting image generation for:', recipeData.title);
       // UPDATED: More descriptive image prompt
       imageUrl = await generateImageFromPrompt(`${recipeData.title} - ${cuisine} ${recipeType} dish featuring ${mainIngredient}, using ${cookingMethod} method`);
@@ -381,11 +355,6 @@ export async function generateRecipes(
 }
 
 export async function generateRecipe(imageData: string): Promise<Recipe> {
-  const apiKey = getXaiApiKey();
-  if (!apiKey) {
-    throw new Error('API key is required for recipe generation');
-  }
-
   try {
     // Your existing recipe generation logic here...
     const recipe = await _generateSingleRecipe();
@@ -0,0 +1,94 @@
+/**
+ * User settings persisted in localStorage
+ *
+ * Components read settings through the useSettings hook, which re-renders
+ * whenever they change (in this tab or another one).
+ */
+
+import type { UnitSystem } from '@/utils/unitConversion';
+import { DAILY_VALUES, DailyValues } from '@/utils/nutrition';
+import { EMPTY_DIETARY_PROFILE, type DietaryProfile } from '@/utils/dietaryProfile';
+
+export interface AppSettings {
+  /** Measurement system ingredient quantities and temperatures are shown in */
+  unitSystem: UnitSystem;
+  /** Daily nutrition targets the meal planner compares against */
+  nutritionTargets: DailyValues;
+  /** Allergies, diets and dislikes the AI features and recipe cards respect */
+  dietaryProfile: DietaryProfile;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  unitSystem: 'us',
+  nutritionTargets: DAILY_VALUES,
+  dietaryProfile: EMPTY_DIETARY_PROFILE,
+};
+
+const SETTINGS_KEY = 'recipesnap_settings';
+
+type SettingsListener = (settings: AppSettings) => void;
+
+const listeners = new Set<SettingsListener>();
+let currentSettings: AppSettings | null = null;
+
+function readSettings(): AppSettings {
+  if (typeof window === 'undefined' || !window.localStorage) return DEFAULT_SETTINGS;
+
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    // Merge over the defaults so settings added later get a value for existing users
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error('[Settings] Error reading settings:', e);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Returns the current settings. The same object is returned until settings change.
+ */
+export function getSettings(): AppSettings {
+  if (!currentSettings) {
+    currentSettings = readSettings();
+  }
+  return currentSettings;
+}
+
+/**
+ * Merges the given values into the settings, persists them and notifies subscribers
+ * @param changes Settings to change
+ * @returns The updated settings
+ */
+export function updateSettings(changes: Partial<AppSettings>): AppSettings {
+  currentSettings = { ...getSettings(), ...changes };
+
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(currentSettings));
+  } catch (e) {
+    console.error('[Settings] Error storing settings:', e);
+  }
+
+  listeners.forEach(listener => listener(currentSettings));
+  return currentSettings;
+}
+
+/**
+ * Subscribes to settings changes
+ * @returns A function that removes the subscription
+ */
+export function subscribeToSettings(listener: SettingsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Keep tabs in sync when settings are changed elsewhere
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== SETTINGS_KEY) return;
+    currentSettings = readSettings();
+    listeners.forEach(listener => listener(currentSettings));
+  });
+}
@@ -0,0 +1,337 @@
+/**
+ * Shopping list built from the ingredients of several recipes
+ *
+ * Ingredient lines are parsed (see ingredientParser.ts), duplicates are merged with
+ * their quantities summed, and items are grouped by store aisle. The chosen recipes
+ * and checked items are kept in localStorage so the list survives a trip to the shop.
+ */
+
+import type { Recipe } from '@/types/recipe';
+import { formatAmount, formatQuantity, formatUnit, inflectCountedIngredient, parseAmount, parseIngredient } from '@/utils/ingredientParser';
+import { convertAmount } from '@/utils/unitConversion';
+
+/**
+ * The parts of a recipe the shopping list needs. Both recipe types satisfy it.
+ */
+export type ShoppingListRecipe = Pick<Recipe, 'id' | 'title' | 'ingredients'>;
+
+export interface ShoppingListAmount {
+  quantity: number;
+  unit: string | null;
+  /** Package size, e.g. "14 oz" for "1 (14 oz) can"; packs of different sizes are separate items */
+  size?: string | null;
+}
+
+export interface ShoppingListItem {
+  /** Normalized ingredient name, used to merge duplicates and remember checked items */
+  key: string;
+  /** Display name, taken from the first recipe that uses the ingredient */
+  name: string;
+  /** Summed amounts, one per unit that could not be converted into another */
+  amounts: ShoppingListAmount[];
+  /** Titles of the recipes that need this item */
+  recipes: string[];
+}
+
+export interface ShoppingListGroup {
+  aisle: Aisle;
+  items: ShoppingListItem[];
+}
+
+export const AISLES = [
+  'Produce',
+  'Meat & Seafood',
+  'Dairy & Eggs',
+  'Bakery',
+  'Pantry',
+  'Baking',
+  'Spices & Seasonings',
+  'Frozen',
+  'Other',
+] as const;
+
+export type Aisle = typeof AISLES[number];
+
+/**
+ * Aisle keywords, checked in order. Exceptions come before the general rule,
+ * e.g. "coconut milk" is a pantry item even though "milk" is dairy.
+ */
+const AISLE_RULES: Array<[Aisle, RegExp]> = [
+  ['Frozen', /\bfrozen\b/],
+  ['Pantry', /\b(coconut milk|coconut cream|peanut butter|almond butter|almond milk|oat milk|soy milk|soy sauce|fish sauce|tomato paste|tomato sauce|tomato puree|passata|canned|stock|broth)\b/],
+  ['Baking', /\b(flour|sugar|baking powder|baking soda|yeast|cocoa|chocolate|vanilla|cornstarch|corn starch|honey|maple syrup)\b/],
+  ['Spices & Seasonings', /\b(salt|(black|white|ground) pepper|peppercorns?|pepper flakes|paprika|cumin|cinnamon|nutmeg|turmeric|cayenne|chili powder|garlic powder|onion powder|curry powder|bay leaf|bay leaves|dried \w+|seasoning|spices?)\b|^pepper$/],
+  ['Produce', /\b(onions?|shallots?|garlic|ginger|tomato(es)?|potato(es)?|carrots?|celery|peppers?|jalapeños?|jalapenos?|chilies|chillies|chili|zucchini|courgettes?|eggplants?|aubergines?|cucumbers?|lettuce|spinach|kale|cabbage|broccoli|cauliflower|mushrooms?|avocados?|lemons?|limes?|oranges?|apples?|bananas?|berries|strawberries|blueberries|raspberries|grapes|peas|corn|bean sprouts|asparagus|leeks?|scallions?|green onions?|spring onions?|herbs?|basil|parsley|cilantro|coriander|mint|dill|rosemary|thyme|chives|sage|squash|pumpkin|sweet potato(es)?|beets?|radish(es)?|arugula|rocket)\b/],
+  ['Meat & Seafood', /\b(chicken|beef|pork|lamb|turkey|duck|bacon|pancetta|prosciutto|sausages?|ham|steaks?|mince|ground meat|veal|salmon|tuna|cod|halibut|tilapia|fish|shrimp|prawns?|scallops?|crab|lobster|mussels|clams|anchov(y|ies))\b/],
+  ['Pantry', /\b(pasta|spaghetti|penne|linguine|fettuccine|noodles|rice|quinoa|couscous|oats|oil|vinegar|sauce|mustard|ketchup|mayonnaise|beans|chickpeas|lentils|nuts|almonds|walnuts|pecans|cashews|peanuts|pine nuts|seeds|raisins|wine|sesame|tahini|capers|olives)\b/],
+  ['Dairy & Eggs', /\b(milk|cream|butter|buttermilk|cheese|parmesan|mozzarella|cheddar|feta|ricotta|mascarpone|pecorino|yogurt|yoghurt|sour cream|crème fraîche|creme fraiche|eggs?|egg yolks?|egg whites?|yolks?)\b/],
+  ['Bakery', /\b(bread|buns?|rolls?|baguette|tortillas?|pita|naan|croissants?|brioche|breadcrumbs|panko)\b/],
+];
+
+/**
+ * Words that describe how an ingredient is prepared or picked, not what to buy
+ */
+const DESCRIPTOR_WORDS = new Set([
+  'fresh', 'freshly', 'large', 'small', 'medium', 'ripe', 'chopped', 'minced', 'diced',
+  'sliced', 'grated', 'shredded', 'crushed', 'peeled', 'finely', 'roughly', 'thinly',
+  'whole', 'boneless', 'skinless', 'room-temperature', 'softened', 'melted', 'high-quality',
+]);
+
+/**
+ * Count units sometimes written after the ingredient, as in "2 garlic cloves" or "3 thyme sprigs"
+ */
+const TRAILING_UNIT_PATTERN = /\s+(clove|sprig|slice|head|stick|bunch|can|jar|tin)(?:e?s)?$/i;
+
+/**
+ * Units of shelf-stable packs: "1 can diced tomatoes" is shopped in the pantry aisle, not with fresh tomatoes
+ */
+const CONTAINER_UNITS = new Set(['can', 'jar', 'tin']);
+
+const SHOPPING_LIST_KEY = 'recipesnap_shopping_list';
+
+interface StoredShoppingList {
+  recipes: ShoppingListRecipe[];
+  checked: string[];
+}
+
+/**
+ * Reduces a word to its singular form for matching ("tomatoes" -> "tomato")
+ */
+function singularize(word: string): string {
+  if (/ies$/.test(word)) return word.slice(0, -3) + 'y';
+  if (/leaves$/.test(word)) return word.slice(0, -6) + 'leaf';
+  if (/(oes|ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Normalizes an ingredient name so "Fresh basil leaves" and "basil leaf" merge
+ */
+export function normalizeIngredientName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/[^a-zà-ÿ\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !DESCRIPTOR_WORDS.has(word));
+
+  if (words.length === 0) return name.toLowerCase().trim();
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(' ');
+}
+
+/**
+ * Picks the store aisle for an ingredient
+ */
+export function getAisle(name: string): Aisle {
+  const normalized = name.toLowerCase();
+  const rule = AISLE_RULES.find(([, pattern]) => pattern.test(normalized));
+  return rule ? rule[0] : 'Other';
+}
+
+/**
+ * Adds an amount to an item, summing with an existing amount of the same or a convertible unit
+ */
+function addAmount(amounts: ShoppingListAmount[], quantity: number, unit: string | null, size: string | null) {
+  for (const amount of amounts) {
+    if ((amount.size ?? null) !== size) continue;
+    if (amount.unit === unit) {
+      amount.quantity += quantity;
+      return;
+    }
+    if (amount.unit && unit) {
+      const converted = convertAmount(quantity, unit, amount.unit);
+      if (converted !== null) {
+        amount.quantity += converted;
+        return;
+      }
+    }
+  }
+  amounts.push({ quantity, unit, size });
+}
+
+/**
+ * Merges the ingredients of several recipes into one list grouped by aisle
+ * @param recipes Recipes to shop for
+ * @returns Non-empty aisle groups in store order, items sorted by name
+ */
+export function buildShoppingList(recipes: ShoppingListRecipe[]): ShoppingListGroup[] {
+  const items = new Map<string, ShoppingListItem>();
+
+  recipes.forEach(recipe => {
+    recipe.ingredients.forEach(line => {
+      if (!line.trim() || line.startsWith('##HEADER##')) return;
+
+      const parsed = parseIngredient(line);
+      // Lines like "Salt and pepper to taste" have no quantity; keep them whole
+      let name = (parsed.quantity === null ? parsed.original.trim() : parsed.ingredient) || line.trim();
+      let unit = parsed.unit;
+
+      // "2 garlic cloves" is the same item as "4 cloves garlic"
+      const trailingUnit = parsed.quantity !== null && !unit ? name.match(TRAILING_UNIT_PATTERN) : null;
+      if (trailingUnit) {
+        unit = trailingUnit[1].toLowerCase();
+        name = name.slice(0, trailingUnit.index);
+      }
+
+      // Canned tomatoes are a different item from fresh ones, and 14 oz cans from 28 oz cans
+      const pack = [parsed.size, CONTAINER_UNITS.has(unit) ? unit : null].filter(Boolean).join(' ');
+      const key = pack ? `${normalizeIngredientName(name)} (${pack})` : normalizeIngredientName(name);
+
+      let item = items.get(key);
+      if (!item) {
+        item = { key, name, amounts: [], recipes: [] };
+        items.set(key, item);
+      }
+
+      if (parsed.quantity !== null) {
+        // Buy for the top of a range
+        addAmount(item.amounts, parsed.quantityMax ?? parsed.quantity, unit, parsed.size);
+      }
+      if (!item.recipes.includes(recipe.title)) {
+        item.recipes.push(recipe.title);
+      }
+    });
+  });
+
+  const groups = new Map<Aisle, ShoppingListItem[]>();
+  items.forEach(item => {
+    const aisle = item.amounts.some(amount => CONTAINER_UNITS.has(amount.unit)) ? 'Pantry' : getAisle(item.name);
+    groups.set(aisle, [...(groups.get(aisle) || []), item]);
+  });
+
+  return AISLES
+    .filter(aisle => groups.has(aisle))
+    .map(aisle => ({
+      aisle,
+      items: groups.get(aisle).sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+}
+
+/**
+ * Formats one amount, with its package size if it has one: "2 (14 oz) cans"
+ */
+function formatListAmount({ quantity, unit, size }: ShoppingListAmount): string {
+  if (!size) return formatAmount(quantity, unit);
+  const amount = formatQuantity(quantity);
+  return unit ? `${amount} (${size}) ${formatUnit(unit, parseAmount(amount))}` : `${amount} (${size})`;
+}
+
+/**
+ * Formats an item for display or export, e.g. "2 cups + 100 g flour".
+ * Counted items follow the summed count: "1 bay leaf" and "2 bay leaves" make "3 bay leaves".
+ */
+export function formatShoppingListItem(item: ShoppingListItem): string {
+  if (item.amounts.length === 0) return item.name;
+  const amounts = item.amounts.map(formatListAmount).join(' + ');
+  const counted = item.amounts.find(amount => !amount.unit);
+  const name = counted ? inflectCountedIngredient(item.name, parseAmount(formatQuantity(counted.quantity)) > 1) : item.name;
+  return `${amounts} ${name}`;
+}
+
+/**
+ * Exports the list as plain text, one aisle per block
+ * @param checked Keys of items already bought; these are left out
+ */
+export function formatShoppingListText(groups: ShoppingListGroup[], checked: string[] = []): string {
+  return groups
+    .map(group => {
+      const items = group.items.filter(item => !checked.includes(item.key));
+      if (items.length === 0) return '';
+      return `${group.aisle.toUpperCase()}\n${items.map(item => `- ${formatShoppingListItem(item)}`).join('\n')}`;
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Exports the list as a Markdown task list, keeping checked items ticked
+ */
+export function formatShoppingListMarkdown(groups: ShoppingListGroup[], checked: string[] = []): string {
+  const sections = groups.map(group => {
+    const items = group.items
+      .map(item => `- [${checked.includes(item.key) ? 'x' : ' '}] ${formatShoppingListItem(item)}`)
+      .join('\n');
+    return `## ${group.aisle}\n\n${items}`;
+  });
+  return `# Shopping List\n\n${sections.join('\n\n')}\n`;
+}
+
+function readShoppingList(): StoredShoppingList {
+  const empty: StoredShoppingList = { recipes: [], checked: [] };
+  if (typeof window === 'undefined' || !window.localStorage) return empty;
+
+  try {
+    const stored = localStorage.getItem(SHOPPING_LIST_KEY);
+    return stored ? { ...empty, ...JSON.parse(stored) } : empty;
+  } catch (e) {
+    console.error('[ShoppingList] Error reading shopping list:', e);
+    return empty;
+  }
+}
+
+function writeShoppingList(list: StoredShoppingList) {
+  try {
+    localStorage.setItem(SHOPPING_LIST_KEY, JSON.stringify(list));
+  } catch (e) {
+    console.error('[ShoppingList] Error storing shopping list:', e);
+  }
+}
+
+/**
+ * Recipes currently on the shopping list
+ */
+export function getShoppingListRecipes(): ShoppingListRecipe[] {
+  return readShoppingList().recipes;
+}
+
+/**
+ * Adds recipes to the shopping list. Recipes already on it are skipped.
+ * Only id, title and ingredients are stored, so snapped recipes that were never saved work too.
+ */
+export function addRecipesToShoppingList(recipes: ShoppingListRecipe[]): ShoppingListRecipe[] {
+  const list = readShoppingList();
+  recipes.forEach(({ id, title, ingredients }) => {
+    if (!list.recipes.some(recipe => recipe.id === id)) {
+      list.recipes.push({ id, title, ingredients });
+    }
+  });
+  writeShoppingList(list);
+  return list.recipes;
+}
+
+/**
+ * Removes a recipe from the shopping list
+ */
+export function removeRecipeFromShoppingList(recipeId: string): ShoppingListRecipe[] {
+  const list = readShoppingList();
+  list.recipes = list.recipes.filter(recipe => recipe.id !== recipeId);
+  writeShoppingList(list);
+  return list.recipes;
+}
+
+/**
+ * Keys of the items that have been checked off
+ */
+export function getCheckedItems(): string[] {
+  return readShoppingList().checked;
+}
+
+/**
+ * Checks an item off or back on
+ */
+export function setItemChecked(key: string, checked: boolean): string[] {
+  const list = readShoppingList();
+  list.checked = checked
+    ? [...list.checked.filter(item => item !== key), key]
+    : list.checked.filter(item => item !== key);
+  writeShoppingList(list);
+  return list.checked;
+}
+
+/**
+ * Empties the shopping list
+ */
+export function clearShoppingList() {
+  writeShoppingList({ recipes: [], checked: [] });
+}
@@ -0,0 +1,714 @@
+/**
+ * Ingredient substitutions ("no buttermilk? use milk and lemon juice")
+ *
+ * A curated table of common swaps answers instantly and offline. Ingredients the table
+ * doesn't know are sent to the model (suggestSubstitutions in api.ts). Either way a
+ * suggestion comes with the replacement ingredient lines for the recipe's amount, so
+ * applying it can rewrite the ingredient line, the steps that mention it and the macros.
+ */
+
+import type { Recipe as CardRecipe } from '@/components/RecipeCard';
+import type { MacroNutrients } from '@/types/recipe';
+import { suggestSubstitutions } from './api';
+import { findDietaryConflicts } from './dietaryProfile';
+import { formatAmount, parseIngredient, ParsedIngredient } from './ingredientParser';
+import { getSettings } from './settings';
+import { convertAmount } from './unitConversion';
+
+export type SubstitutionSource = 'local' | 'model';
+
+export interface Substitution {
+  /** Short name of the swap, e.g. "Milk + lemon juice" */
+  replacement: string;
+  /** How much to use, e.g. "1 cup buttermilk = 1 cup milk + 1 tbsp lemon juice" */
+  ratio: string;
+  texture: string;
+  flavor: string;
+  /** Ingredient lines that replace the original line, for the recipe's amount */
+  lines: string[];
+  /** Words the recipe's steps use for the original ingredient, e.g. ["buttermilk"] */
+  terms: string[];
+  /** Words that, right before a term, mean a different ingredient, e.g. "brown" for sugar */
+  excludes: string[];
+  /** What the steps call the replacement, e.g. "soured milk" */
+  mention: string;
+  /** Change in nutrition for the whole line (all servings), or null if unknown */
+  macroDelta: Partial<MacroNutrients> | null;
+  source: SubstitutionSource;
+}
+
+type SubstitutePart =
+  /** A multiple of the original amount, in the original unit */
+  | { ingredient: string; ratio: number }
+  /** A fixed amount for each `per` of the original */
+  | { ingredient: string; quantity: number; unit: string | null };
+
+interface SubstitutionOption {
+  replacement: string;
+  mention: string;
+  ratio: string;
+  texture: string;
+  flavor: string;
+  /** The amount of the original that `parts` and `macroDelta` are given for; a null unit counts items */
+  per: { quantity: number; unit: string | null };
+  parts: SubstitutePart[];
+  /** Nutrition change for `per` of the original, from USDA values for typical products */
+  macroDelta: Partial<MacroNutrients>;
+}
+
+interface SubstitutionRule {
+  /** Names of the ingredient, most specific first; plurals are matched too */
+  names: string[];
+  /** Words that mean a different ingredient, e.g. "peanut" for butter */
+  excludes?: string[];
+  options: SubstitutionOption[];
+}
+
+const SUBSTITUTION_RULES: SubstitutionRule[] = [
+  {
+    names: ['buttermilk'],
+    options: [
+      {
+        replacement: 'Milk + lemon juice',
+        mention: 'soured milk',
+        ratio: '1 cup buttermilk = 1 cup milk + 1 tbsp lemon juice, left to stand for 5 minutes',
+        texture: 'Thinner than buttermilk, but reacts with baking soda the same way',
+        flavor: 'Slightly less tangy',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'milk', ratio: 1 }, { ingredient: 'lemon juice', quantity: 1, unit: 'tbsp' }],
+        macroDelta: { calories: 54, fat: 5.7, carbs: 1, sodium: -152 },
+      },
+      {
+        replacement: 'Thinned yogurt',
+        mention: 'thinned yogurt',
+        ratio: '1 cup buttermilk = 3/4 cup plain yogurt + 1/4 cup milk',
+        texture: 'Thick and tender in baking, close to buttermilk',
+        flavor: 'Tangy, very close to buttermilk',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'plain yogurt', ratio: 0.75 }, { ingredient: 'milk', ratio: 0.25 }],
+        macroDelta: { calories: 51, fat: 5.8, sodium: -146 },
+      },
+    ],
+  },
+  {
+    names: ['egg white'],
+    options: [
+      {
+        replacement: 'Aquafaba',
+        mention: 'aquafaba',
+        ratio: '1 egg white = 3 tbsp aquafaba (liquid from a can of chickpeas)',
+        texture: 'Whips to soft peaks like egg white; meringues are more fragile',
+        flavor: 'Neutral once baked',
+        per: { quantity: 1, unit: null },
+        parts: [{ ingredient: 'aquafaba (liquid from canned chickpeas)', quantity: 3, unit: 'tbsp' }],
+        macroDelta: { calories: -12, protein: -3.3, carbs: 0.8, sodium: -35 },
+      },
+    ],
+  },
+  {
+    names: ['egg'],
+    excludes: ['yolk', 'white', 'wash', 'noodle', 'plant'],
+    options: [
+      {
+        replacement: 'Flax egg',
+        mention: 'flax egg',
+        ratio: '1 egg = 1 tbsp ground flaxseed + 3 tbsp water, rested for 5 minutes',
+        texture: 'Binds well but does not rise; best in muffins, cookies and quick breads',
+        flavor: 'Mildly nutty',
+        per: { quantity: 1, unit: null },
+        parts: [{ ingredient: 'ground flaxseed', quantity: 1, unit: 'tbsp' }, { ingredient: 'water', quantity: 3, unit: 'tbsp' }],
+        macroDelta: { calories: -35, protein: -5, carbs: 1.6, fat: -1.8, fiber: 1.9, sodium: -71 },
+      },
+      {
+        replacement: 'Chia egg',
+        mention: 'chia egg',
+        ratio: '1 egg = 1 tbsp chia seeds + 3 tbsp water, rested for 10 minutes',
+        texture: 'Binds well, slightly gel-like, with visible seeds',
+        flavor: 'Neutral',
+        per: { quantity: 1, unit: null },
+        parts: [{ ingredient: 'chia seeds', quantity: 1, unit: 'tbsp' }, { ingredient: 'water', quantity: 3, unit: 'tbsp' }],
+        macroDelta: { calories: -14, protein: -4.3, carbs: 4.6, fat: -1.1, fiber: 4.1, sodium: -71 },
+      },
+      {
+        replacement: 'Applesauce',
+        mention: 'applesauce',
+        ratio: '1 egg = 1/4 cup unsweetened applesauce',
+        texture: 'Moist and dense; works in cakes and brownies, not for binding savory dishes',
+        flavor: 'Slightly fruity and sweet',
+        per: { quantity: 1, unit: null },
+        parts: [{ ingredient: 'unsweetened applesauce', quantity: 0.25, unit: 'cup' }],
+        macroDelta: { calories: -46, protein: -6.2, carbs: 6.6, fat: -4.8, sugar: 5.5, sodium: -71 },
+      },
+    ],
+  },
+  {
+    names: ['unsalted butter', 'salted butter', 'butter'],
+    excludes: ['peanut', 'almond', 'cashew', 'nut', 'apple', 'cocoa', 'shea', 'vegan', 'plant'],
+    options: [
+      {
+        replacement: 'Olive oil',
+        mention: 'olive oil',
+        ratio: '1 tbsp butter = 3/4 tbsp olive oil',
+        texture: 'Good for sautéing and roasting; baked goods come out denser and less flaky',
+        flavor: 'Fruity, without the dairy richness',
+        per: { quantity: 1, unit: 'tbsp' },
+        parts: [{ ingredient: 'olive oil', ratio: 0.75 }],
+        macroDelta: { calories: -12, fat: -1.4, saturatedFat: -5.9 },
+      },
+      {
+        replacement: 'Coconut oil',
+        mention: 'coconut oil',
+        ratio: '1 tbsp butter = 1 tbsp coconut oil',
+        texture: 'Solid when cold like butter, so it suits pastry and cookies',
+        flavor: 'Neutral if refined, coconutty if virgin',
+        per: { quantity: 1, unit: 'tbsp' },
+        parts: [{ ingredient: 'coconut oil', ratio: 1 }],
+        macroDelta: { calories: 19, fat: 2, saturatedFat: 3.9 },
+      },
+      {
+        replacement: 'Vegan butter',
+        mention: 'vegan butter',
+        ratio: '1 tbsp butter = 1 tbsp vegan butter',
+        texture: 'Behaves like butter in most recipes',
+        flavor: 'Close to butter, slightly less rich',
+        per: { quantity: 1, unit: 'tbsp' },
+        parts: [{ ingredient: 'vegan butter', ratio: 1 }],
+        macroDelta: { saturatedFat: -3.5 },
+      },
+    ],
+  },
+  {
+    names: ['heavy whipping cream', 'heavy cream', 'whipping cream', 'double cream'],
+    options: [
+      {
+        replacement: 'Milk + melted butter',
+        mention: 'milk and butter mixture',
+        ratio: '1 cup heavy cream = 3/4 cup milk + 1/4 cup melted butter',
+        texture: 'Works in sauces, soups and baking; it will not whip',
+        flavor: 'Rich and close to cream',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'whole milk', ratio: 0.75 }, { ingredient: 'butter, melted', ratio: 0.25 }],
+        macroDelta: { calories: -289, protein: -0.4, carbs: 2, fat: -34, saturatedFat: -22.6 },
+      },
+      {
+        replacement: 'Coconut cream',
+        mention: 'coconut cream',
+        ratio: '1 cup heavy cream = 1 cup full-fat coconut cream',
+        texture: 'Creamy and whips when well chilled',
+        flavor: 'Noticeable coconut flavor',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'full-fat coconut cream', ratio: 1 }],
+        macroDelta: { calories: -16, protein: 2, carbs: 9, fat: -3, saturatedFat: 19 },
+      },
+    ],
+  },
+  {
+    names: ['sour cream'],
+    options: [
+      {
+        replacement: 'Greek yogurt',
+        mention: 'Greek yogurt',
+        ratio: '1 cup sour cream = 1 cup full-fat Greek yogurt',
+        texture: 'Slightly thicker; stir it in off the heat so it doesn\'t split',
+        flavor: 'Tangier',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'full-fat Greek yogurt', ratio: 1 }],
+        macroDelta: { calories: -237, protein: 14.6, carbs: -1.6, fat: -33.5, saturatedFat: -19 },
+      },
+    ],
+  },
+  {
+    names: ['mayonnaise', 'mayo'],
+    excludes: ['vegan'],
+    options: [
+      {
+        replacement: 'Greek yogurt',
+        mention: 'Greek yogurt',
+        ratio: '1 cup mayonnaise = 1 cup full-fat Greek yogurt',
+        texture: 'Creamy but less glossy; fine for dressings and salads',
+        flavor: 'Tangier and lighter',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'full-fat Greek yogurt', ratio: 1 }],
+        macroDelta: { calories: -1276, protein: 18, carbs: 7.7, fat: -154, saturatedFat: -19, sodium: -1320 },
+      },
+    ],
+  },
+  {
+    names: ['whole milk', 'milk'],
+    excludes: ['coconut', 'almond', 'oat', 'soy', 'rice', 'cashew', 'condensed', 'evaporated', 'powder', 'powdered', 'chocolate'],
+    options: [
+      {
+        replacement: 'Oat milk',
+        mention: 'oat milk',
+        ratio: '1 cup milk = 1 cup unsweetened oat milk',
+        texture: 'Creamy; works in baking, sauces and coffee',
+        flavor: 'Mild and slightly sweet',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'unsweetened oat milk', ratio: 1 }],
+        macroDelta: { calories: -29, protein: -4.7, carbs: 4.3, fat: -2.9, saturatedFat: -4.1 },
+      },
+      {
+        replacement: 'Soy milk',
+        mention: 'soy milk',
+        ratio: '1 cup milk = 1 cup unsweetened soy milk',
+        texture: 'Closest to dairy milk in protein, so custards and sauces still set',
+        flavor: 'Faintly beany',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'unsweetened soy milk', ratio: 1 }],
+        macroDelta: { calories: -69, protein: -0.7, carbs: -7.7, fat: -3.9, saturatedFat: -4.1 },
+      },
+    ],
+  },
+  {
+    names: ['all-purpose flour', 'plain flour', 'wheat flour', 'flour'],
+    excludes: ['almond', 'coconut', 'rice', 'chickpea', 'buckwheat', 'oat', 'corn', 'tapioca', 'cassava', 'gluten', 'potato'],
+    options: [
+      {
+        replacement: 'Gluten-free flour blend',
+        mention: 'gluten-free flour',
+        ratio: '1 cup flour = 1 cup 1-to-1 gluten-free baking flour (with xanthan gum)',
+        texture: 'Slightly more crumbly; let batters rest 15 minutes before baking',
+        flavor: 'Neutral',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'gluten-free 1-to-1 baking flour', ratio: 1 }],
+        macroDelta: { calories: 20, protein: -5, carbs: 8, fat: 1 },
+      },
+      {
+        replacement: 'Cornstarch (for thickening)',
+        mention: 'cornstarch',
+        ratio: '2 tbsp flour = 1 tbsp cornstarch, only for thickening sauces and gravies',
+        texture: 'Glossier, clearer sauce; not suitable for baking',
+        flavor: 'Neutral',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'cornstarch', ratio: 0.5 }],
+        macroDelta: { calories: -211, protein: -12.7, carbs: -37, fat: -1.2 },
+      },
+    ],
+  },
+  {
+    names: ['light brown sugar', 'dark brown sugar', 'brown sugar'],
+    options: [
+      {
+        replacement: 'White sugar + molasses',
+        mention: 'sugar and molasses',
+        ratio: '1 cup brown sugar = 1 cup white sugar + 1 tbsp molasses',
+        texture: 'The same moist, chewy result',
+        flavor: 'The same; use 2 tbsp molasses for dark brown sugar',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'granulated sugar', ratio: 1 }, { ingredient: 'molasses', quantity: 1, unit: 'tbsp' }],
+        macroDelta: { calories: -4, carbs: -1 },
+      },
+    ],
+  },
+  {
+    names: ['granulated sugar', 'white sugar', 'caster sugar', 'sugar'],
+    excludes: ['brown', 'powdered', 'icing', 'confectioners', 'coconut', 'free', 'substitute'],
+    options: [
+      {
+        replacement: 'Honey',
+        mention: 'honey',
+        ratio: '1 cup sugar = 3/4 cup honey; cut other liquids by 3 tbsp and bake 25°F (15°C) cooler',
+        texture: 'Moister and denser, browns faster',
+        flavor: 'Floral honey notes',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'honey', ratio: 0.75 }],
+        macroDelta: { calories: 2, protein: 0.8, carbs: 10, sugar: 6 },
+      },
+      {
+        replacement: 'Maple syrup',
+        mention: 'maple syrup',
+        ratio: '1 cup sugar = 3/4 cup maple syrup; cut other liquids by 3 tbsp',
+        texture: 'Moister and softer',
+        flavor: 'Caramel and maple notes',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'maple syrup', ratio: 0.75 }],
+        macroDelta: { calories: -148, carbs: -39, sugar: -58 },
+      },
+    ],
+  },
+  {
+    names: ['soy sauce', 'shoyu'],
+    excludes: ['low sodium', 'reduced sodium'],
+    options: [
+      {
+        replacement: 'Tamari',
+        mention: 'tamari',
+        ratio: '1 tbsp soy sauce = 1 tbsp tamari',
+        texture: 'The same',
+        flavor: 'Slightly richer and less sharp; most tamari is gluten-free',
+        per: { quantity: 1, unit: 'tbsp' },
+        parts: [{ ingredient: 'tamari', ratio: 1 }],
+        macroDelta: { calories: 2, protein: 0.6, carbs: 0.2, sodium: 50 },
+      },
+      {
+        replacement: 'Coconut aminos',
+        mention: 'coconut aminos',
+        ratio: '1 tbsp soy sauce = 1 tbsp coconut aminos',
+        texture: 'Slightly thinner',
+        flavor: 'Sweeter and much less salty; soy- and gluten-free',
+        per: { quantity: 1, unit: 'tbsp' },
+        parts: [{ ingredient: 'coconut aminos', ratio: 1 }],
+        macroDelta: { calories: 6, protein: -1.3, carbs: 2.2, sodium: -610 },
+      },
+    ],
+  },
+  {
+    names: ['panko breadcrumbs', 'breadcrumbs', 'bread crumbs', 'panko'],
+    options: [
+      {
+        replacement: 'Rolled oats',
+        mention: 'oats',
+        ratio: '1 cup breadcrumbs = 1 cup rolled oats, pulsed briefly in a blender',
+        texture: 'A little chewier as a binder, less crisp as a coating',
+        flavor: 'Mildly nutty',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'rolled oats, pulsed', ratio: 1 }],
+        macroDelta: { calories: -120, protein: -3.7, carbs: -23, fat: -0.5, fiber: 3.4, sodium: -786 },
+      },
+      {
+        replacement: 'Almond flour',
+        mention: 'almond flour',
+        ratio: '1 cup breadcrumbs = 1 cup almond flour',
+        texture: 'Crisp coating that browns quickly; softer as a binder',
+        flavor: 'Nutty and rich',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'almond flour', ratio: 1 }],
+        macroDelta: { calories: 213, protein: 9.6, carbs: -54, fat: 50, fiber: 7, sodium: -791 },
+      },
+    ],
+  },
+  {
+    names: ['dry white wine', 'white wine'],
+    excludes: ['vinegar'],
+    options: [
+      {
+        replacement: 'Broth + white wine vinegar',
+        mention: 'broth',
+        ratio: '1 cup white wine = 1 cup chicken or vegetable broth + 1 tbsp white wine vinegar',
+        texture: 'The same',
+        flavor: 'Savory, with the acidity of the wine but not its fruitiness',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'chicken or vegetable broth', ratio: 1 }, { ingredient: 'white wine vinegar', quantity: 1, unit: 'tbsp' }],
+        macroDelta: { calories: -176, protein: 1.4, carbs: -5, sodium: 850 },
+      },
+    ],
+  },
+  {
+    names: ['dry red wine', 'red wine'],
+    excludes: ['vinegar'],
+    options: [
+      {
+        replacement: 'Broth + red wine vinegar',
+        mention: 'broth',
+        ratio: '1 cup red wine = 1 cup beef or vegetable broth + 1 tbsp red wine vinegar',
+        texture: 'The same',
+        flavor: 'Savory, less deep; a spoon of tomato paste helps',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'beef or vegetable broth', ratio: 1 }, { ingredient: 'red wine vinegar', quantity: 1, unit: 'tbsp' }],
+        macroDelta: { calories: -185, protein: 2.6, carbs: -5, sodium: 830 },
+      },
+    ],
+  },
+  {
+    names: ['cornstarch', 'corn starch', 'cornflour'],
+    options: [
+      {
+        replacement: 'All-purpose flour',
+        mention: 'flour',
+        ratio: '1 tbsp cornstarch = 2 tbsp all-purpose flour',
+        texture: 'Thickens to an opaque, less glossy sauce; simmer a few minutes longer',
+        flavor: 'Neutral once cooked',
+        per: { quantity: 1, unit: 'tbsp' },
+        parts: [{ ingredient: 'all-purpose flour', ratio: 2 }],
+        macroDelta: { calories: 27, protein: 1.6, carbs: 4.6, fat: 0.2 },
+      },
+      {
+        replacement: 'Arrowroot',
+        mention: 'arrowroot',
+        ratio: '1 tbsp cornstarch = 1 tbsp arrowroot powder',
+        texture: 'Glossy like cornstarch; add it at the end, it thins if boiled long',
+        flavor: 'Neutral',
+        per: { quantity: 1, unit: 'tbsp' },
+        parts: [{ ingredient: 'arrowroot powder', ratio: 1 }],
+        macroDelta: {},
+      },
+    ],
+  },
+  {
+    names: ['baking powder'],
+    options: [
+      {
+        replacement: 'Baking soda + cream of tartar',
+        mention: 'leavening',
+        ratio: '1 tsp baking powder = 1/4 tsp baking soda + 1/2 tsp cream of tartar',
+        texture: 'The same rise; bake soon after mixing',
+        flavor: 'The same',
+        per: { quantity: 1, unit: 'tsp' },
+        parts: [{ ingredient: 'baking soda', ratio: 0.25 }, { ingredient: 'cream of tartar', ratio: 0.5 }],
+        macroDelta: { sodium: -173 },
+      },
+    ],
+  },
+  {
+    names: ['lemon juice'],
+    options: [
+      {
+        replacement: 'Lime juice',
+        mention: 'lime juice',
+        ratio: '1 tbsp lemon juice = 1 tbsp lime juice',
+        texture: 'The same',
+        flavor: 'Slightly more bitter and floral',
+        per: { quantity: 1, unit: 'tbsp' },
+        parts: [{ ingredient: 'lime juice', ratio: 1 }],
+        macroDelta: {},
+      },
+      {
+        replacement: 'White wine vinegar',
+        mention: 'white wine vinegar',
+        ratio: '1 tbsp lemon juice = 1/2 tbsp white wine vinegar',
+        texture: 'The same',
+        flavor: 'Sharper, without the citrus aroma',
+        per: { quantity: 1, unit: 'tbsp' },
+        parts: [{ ingredient: 'white wine vinegar', ratio: 0.5 }],
+        macroDelta: { calories: -2, carbs: -1 },
+      },
+    ],
+  },
+  {
+    names: ['ground beef', 'minced beef', 'beef mince'],
+    options: [
+      {
+        replacement: 'Ground turkey',
+        mention: 'ground turkey',
+        ratio: '1 lb ground beef = 1 lb 93% lean ground turkey',
+        texture: 'Leaner and a little drier; add a splash of oil when browning',
+        flavor: 'Milder; season a little more',
+        per: { quantity: 1, unit: 'lb' },
+        parts: [{ ingredient: 'lean ground turkey', ratio: 1 }],
+        macroDelta: { calories: -472, protein: 7, fat: -54, saturatedFat: -24.5 },
+      },
+      {
+        replacement: 'Cooked lentils',
+        mention: 'lentils',
+        ratio: '1 lb ground beef = 2 1/2 cups cooked brown or green lentils',
+        texture: 'Softer; works in sauces, chili and tacos rather than patties',
+        flavor: 'Earthy; a little soy sauce or smoked paprika adds depth',
+        per: { quantity: 1, unit: 'lb' },
+        parts: [{ ingredient: 'cooked brown or green lentils', quantity: 2.5, unit: 'cup' }],
+        macroDelta: { calories: -577, protein: -33, carbs: 100, fat: -89, saturatedFat: -34, fiber: 39 },
+      },
+    ],
+  },
+  {
+    names: ['parmesan cheese', 'parmigiano reggiano', 'parmesan'],
+    excludes: ['vegan'],
+    options: [
+      {
+        replacement: 'Nutritional yeast',
+        mention: 'nutritional yeast',
+        ratio: '1/4 cup grated parmesan = 1/4 cup nutritional yeast',
+        texture: 'Flaky rather than melting',
+        flavor: 'Savory and cheesy, less salty',
+        per: { quantity: 1, unit: 'cup' },
+        parts: [{ ingredient: 'nutritional yeast', ratio: 1 }],
+        macroDelta: { calories: -180, protein: -6, carbs: 17, fat: -26, saturatedFat: -17.6, sodium: -1580 },
+      },
+    ],
+  },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Matches any of the names as whole words, including simple plurals ("egg" matches "eggs"),
+ * optionally with a word before them that is then part of the match ("granulated sugar")
+ */
+const namePattern = (names: string[], flags?: string, qualifier?: string) => {
+  const alternatives = [...names]
+    .sort((a, b) => b.length - a.length)
+    .map(name => escapeRegExp(name.toLowerCase()))
+    .join('|');
+  const prefix = qualifier ? `(?:${escapeRegExp(qualifier)}[\\s-]+)?` : '';
+  return new RegExp(`(^|[^a-z])(${prefix}(?:${alternatives}))(e?s)?(?=$|[^a-z])`, flags);
+};
+
+function findRule(ingredient: string): { rule: SubstitutionRule; name: string } | null {
+  const text = ingredient.toLowerCase();
+  for (const rule of SUBSTITUTION_RULES) {
+    if (rule.excludes?.some(exclude => text.includes(exclude))) continue;
+    const name = rule.names.find(candidate => namePattern([candidate]).test(text));
+    if (name) return { rule, name };
+  }
+  return null;
+}
+
+/**
+ * How many times `per` fits into the line's amount, or null if the units can't be compared
+ */
+function countPer(parsed: ParsedIngredient, per: SubstitutionOption['per']): number | null {
+  if (parsed.quantity === null) return null;
+  if (per.unit === null) return parsed.unit === null ? parsed.quantity / per.quantity : null;
+  if (parsed.unit === null) return null;
+  const amount = convertAmount(parsed.quantity, parsed.unit, per.unit);
+  return amount === null ? null : amount / per.quantity;
+}
+
+/**
+ * Writes the replacement lines for the line's amount. Without a usable amount the
+ * replacement is named with the ratio, so the cook can work it out.
+ */
+function toReplacementLines(parsed: ParsedIngredient, option: SubstitutionOption, perCount: number | null): string[] {
+  const hasFixedParts = option.parts.some(part => !('ratio' in part));
+  if (parsed.quantity === null || (hasFixedParts && perCount === null)) {
+    return [`${option.replacement} in place of ${parsed.ingredient} (${option.ratio})`];
+  }
+
+  // The original's preparation note ("softened", "cubed") usually doesn't fit the replacement, so it is dropped
+  return option.parts.map(part => {
+    const amount = 'ratio' in part
+      ? formatPartAmount(parsed.quantity * part.ratio, parsed.unit)
+      : formatPartAmount(part.quantity * perCount, part.unit);
+    return `${amount} ${part.ingredient}`;
+  });
+}
+
+/**
+ * Formats an amount, moving fractions of a spoon or cup to the next smaller measure
+ * ("1/8 tbsp" reads "3/8 tsp")
+ */
+function formatPartAmount(quantity: number, unit: string | null): string {
+  if (unit === 'tbsp' && quantity < 1) return formatAmount(quantity * 3, 'tsp');
+  if (unit === 'cup' && quantity < 0.25) return formatAmount(quantity * 16, 'tbsp');
+  return formatAmount(quantity, unit);
+}
+
+function scaleDelta(delta: Partial<MacroNutrients>, factor: number): Partial<MacroNutrients> {
+  return Object.fromEntries(
+    Object.entries(delta).map(([key, value]) => [key, value * factor])
+  ) as Partial<MacroNutrients>;
+}
+
+/**
+ * Looks up substitutions for an ingredient line in the curated table
+ * @param line Ingredient line as written in the recipe
+ * @returns The table's suggestions, or [] if the ingredient isn't in it
+ */
+export function getLocalSubstitutions(line: string): Substitution[] {
+  const parsed = parseIngredient(line);
+  const match = findRule(parsed.ingredient);
+  if (!match) return [];
+
+  return match.rule.options.map(option => {
+    const perCount = countPer(parsed, option.per);
+    return {
+      replacement: option.replacement,
+      ratio: option.ratio,
+      texture: option.texture,
+      flavor: option.flavor,
+      lines: toReplacementLines(parsed, option, perCount),
+      terms: match.rule.names,
+      excludes: match.rule.excludes ?? [],
+      mention: option.mention,
+      macroDelta: perCount === null ? null : scaleDelta(option.macroDelta, perCount),
+      source: 'local',
+    };
+  });
+}
+
+// Model suggestions by ingredient line, so reopening a row doesn't ask again
+const modelSuggestionCache = new Map<string, Substitution[]>();
+
+/**
+ * Finds substitutions for an ingredient: the curated table first, the model only for
+ * ingredients the table doesn't cover. Suggestions that conflict with the user's
+ * dietary profile are left out.
+ * @param line Ingredient line as written in the recipe
+ * @param recipe The recipe the line belongs to, for context
+ * @returns Suggestions, or [] if there are none (or none offline)
+ */
+export async function findSubstitutions(line: string, recipe: Pick<CardRecipe, 'title' | 'ingredients' | 'servings'>): Promise<Substitution[]> {
+  const profile = getSettings().dietaryProfile;
+  const fitsProfile = (substitution: Substitution) => findDietaryConflicts(substitution.lines, profile).length === 0;
+
+  const local = getLocalSubstitutions(line).filter(fitsProfile);
+  if (local.length > 0) return local;
+
+  if (!modelSuggestionCache.has(line)) {
+    if (!navigator.onLine) return [];
+    modelSuggestionCache.set(line, await suggestSubstitutions(line, recipe));
+  }
+  return modelSuggestionCache.get(line).filter(fitsProfile);
+}
+
+/**
+ * The word written right before a term in an ingredient line, e.g. "brown" in "1/2 cup brown sugar"
+ */
+function findQualifier(line: string, terms: string[]): string | null {
+  const match = parseIngredient(line).ingredient.match(new RegExp(`([a-z]+)[\\s-]*${namePattern(terms).source}`, 'i'));
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Replaces mentions of the original ingredient in a step, keeping plurals and capitals
+ * ("Whisk the eggs" -> "Whisk the flax eggs"). The swapped line's own qualifier is replaced
+ * along with the name ("the granulated sugar" -> "the honey"), while mentions after another
+ * line's qualifier are a different ingredient and stay ("the brown sugar", "the peanut butter").
+ */
+function replaceMentions(step: string, terms: string[], mention: string, ownQualifier: string | null, otherQualifiers: string[]): string {
+  if (terms.length === 0) return step;
+  return step.replace(namePattern(terms, 'gi', ownQualifier), (match: string, before: string, found: string, plural = '', offset: number) => {
+    const preceding = step.slice(0, offset + before.length).toLowerCase();
+    if (otherQualifiers.some(qualifier => new RegExp(`(^|[^a-z])${escapeRegExp(qualifier)}[\\s-]*$`).test(preceding))) {
+      return match;
+    }
+
+    const replacement = found[0] === found[0].toUpperCase()
+      ? mention.charAt(0).toUpperCase() + mention.slice(1)
+      : mention;
+    return `${before}${replacement}${plural}`;
+  });
+}
+
+/**
+ * Applies a substitution to one ingredient line of a recipe
+ * @param recipe The recipe as shown
+ * @param index Position of the ingredient line
+ * @param substitution The chosen suggestion
+ * @returns The new ingredients, instructions and per-serving macros
+ */
+export function applySubstitution(
+  recipe: CardRecipe,
+  index: number,
+  substitution: Substitution
+): Pick<CardRecipe, 'ingredients' | 'instructions' | 'macros'> {
+  const ingredients = [
+    ...recipe.ingredients.slice(0, index),
+    ...substitution.lines,
+    ...recipe.ingredients.slice(index + 1),
+  ];
+  const ownQualifier = findQualifier(recipe.ingredients[index], substitution.terms);
+  const otherQualifiers = [
+    ...substitution.excludes,
+    ...recipe.ingredients
+      .filter((_, other) => other !== index)
+      .map(line => findQualifier(line, substitution.terms))
+      .filter(qualifier => qualifier && qualifier !== ownQualifier),
+  ];
+  const instructions = recipe.instructions.map(step =>
+    replaceMentions(step, substitution.terms, substitution.mention, ownQualifier, otherQualifiers)
+  );
+
+  let macros = recipe.macros;
+  if (macros && substitution.macroDelta) {
+    const servings = recipe.servings || 1;
+    macros = { ...macros };
+    Object.entries(substitution.macroDelta).forEach(([key, delta]) => {
+      const current = macros[key as keyof MacroNutrients];
+      if (typeof current === 'number' && typeof delta === 'number') {
+        macros[key as keyof MacroNutrients] = Math.max(0, Math.round((current + delta / servings) * 10) / 10);
+      }
+    });
+  }
+
+  return { ingredients, instructions, macros };
+}
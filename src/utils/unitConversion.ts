@@ -0,0 +1,226 @@
+/**
+ * Unit system conversion for recipes
+ *
+ * Converts parsed ingredient quantities (see ingredientParser.ts) and oven
+ * temperatures in instruction text between US customary, metric and UK units.
+ * Cup measures of common dry staples such as flour, sugar and butter are
+ * converted by weight, since that is how metric and UK recipes measure them.
+ */
+
+import { ParsedIngredient } from '@/utils/ingredientParser';
+
+export type UnitSystem = 'us' | 'metric' | 'uk';
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  us: 'US',
+  metric: 'Metric',
+  uk: 'UK',
+};
+
+/** Millilitres per unit. UK pints and quarts are imperial, which only matters when reading UK recipes. */
+const VOLUME_ML: Record<string, number> = {
+  tsp: 4.929,
+  tbsp: 14.787,
+  'fl oz': 29.574,
+  cup: 236.588,
+  pint: 473.176,
+  quart: 946.353,
+  ml: 1,
+  l: 1000,
+};
+
+/** Grams per unit */
+const WEIGHT_G: Record<string, number> = {
+  oz: 28.35,
+  lb: 453.592,
+  g: 1,
+  kg: 1000,
+};
+
+/**
+ * Grams per millilitre for staples usually weighed in metric recipes.
+ * Checked in order, so specific entries ("brown sugar") come before general ones ("sugar").
+ */
+const INGREDIENT_DENSITIES: Array<[RegExp, number]> = [
+  [/\bbread flour\b/i, 0.55],
+  [/\b(whole ?wheat|wholemeal) flour\b/i, 0.51],
+  [/\b(almond flour|ground almonds)\b/i, 0.41],
+  [/\bflour\b/i, 0.53],
+  [/\bbrown sugar\b/i, 0.93],
+  [/\b(powdered|icing|confectioners'?) sugar\b/i, 0.51],
+  [/\bsugar\b/i, 0.85],
+  [/\bbutter\b/i, 0.96],
+  [/\bcocoa\b/i, 0.42],
+  [/\b(rolled )?oats\b/i, 0.38],
+  [/\brice\b/i, 0.79],
+  [/\bhoney\b/i, 1.42],
+  [/\b(parmesan|pecorino)\b/i, 0.42],
+  [/\bshredded\b.*\bcheese\b|\bcheese\b.*\bshredded\b/i, 0.47],
+];
+
+/** Spoon measures stay as they are in every system; metric and UK kitchens use them too */
+const SPOON_UNITS = new Set(['tsp', 'tbsp']);
+
+/**
+ * Converts an amount between two units of the same kind (volume to volume, weight to weight)
+ * @returns The amount in `toUnit`, or null if the units cannot be converted directly
+ */
+export function convertAmount(amount: number, fromUnit: string, toUnit: string): number | null {
+  if (fromUnit === toUnit) return amount;
+  if (VOLUME_ML[fromUnit] !== undefined && VOLUME_ML[toUnit] !== undefined) {
+    return (amount * VOLUME_ML[fromUnit]) / VOLUME_ML[toUnit];
+  }
+  if (WEIGHT_G[fromUnit] !== undefined && WEIGHT_G[toUnit] !== undefined) {
+    return (amount * WEIGHT_G[fromUnit]) / WEIGHT_G[toUnit];
+  }
+  return null;
+}
+
+function getDensity(ingredient: string): number | null {
+  const match = INGREDIENT_DENSITIES.find(([pattern]) => pattern.test(ingredient));
+  return match ? match[1] : null;
+}
+
+/**
+ * Rounds metric amounts to what a scale or jug can show: nearest 5 above 100, whole numbers above 10
+ */
+function roundMetric(value: number): number {
+  if (value >= 100) return Math.round(value / 5) * 5;
+  if (value >= 10) return Math.round(value);
+  return Math.round(value * 10) / 10;
+}
+
+function toMetricWeight(grams: number): { value: number; unit: string } {
+  return grams >= 1000
+    ? { value: Math.round(grams / 10) / 100, unit: 'kg' }
+    : { value: roundMetric(grams), unit: 'g' };
+}
+
+function toMetricVolume(ml: number): { value: number; unit: string } {
+  return ml >= 1000
+    ? { value: Math.round(ml / 10) / 100, unit: 'l' }
+    : { value: roundMetric(ml), unit: 'ml' };
+}
+
+function toUsWeight(grams: number): { value: number; unit: string } {
+  const ounces = grams / WEIGHT_G.oz;
+  return ounces >= 16
+    ? { value: ounces / 16, unit: 'lb' }
+    : { value: ounces, unit: 'oz' };
+}
+
+function toUsVolume(ml: number): { value: number; unit: string } {
+  if (ml >= VOLUME_ML.cup / 4) return { value: ml / VOLUME_ML.cup, unit: 'cup' };
+  if (ml >= VOLUME_ML.tbsp) return { value: ml / VOLUME_ML.tbsp, unit: 'tbsp' };
+  return { value: ml / VOLUME_ML.tsp, unit: 'tsp' };
+}
+
+/**
+ * Converts a parsed ingredient to the given unit system
+ * @returns The converted ingredient, or the same object if nothing needed converting
+ */
+export function convertIngredient(parsed: ParsedIngredient, system: UnitSystem): ParsedIngredient {
+  const { quantity, quantityMax, unit } = parsed;
+  if (quantity === null || !unit || SPOON_UNITS.has(unit)) return parsed;
+
+  const isVolume = VOLUME_ML[unit] !== undefined;
+  const isWeight = WEIGHT_G[unit] !== undefined;
+  if (!isVolume && !isWeight) return parsed;
+
+  const isMetricUnit = ['g', 'kg', 'ml', 'l'].includes(unit);
+  const density = getDensity(parsed.ingredient);
+
+  // Converts one amount, returning the value in the target unit
+  let convert: (amount: number) => { value: number; unit: string };
+
+  if (system === 'us') {
+    if (!isMetricUnit) return parsed;
+    if (isWeight && density) {
+      convert = (amount) => toUsVolume((amount * WEIGHT_G[unit]) / density);
+    } else if (isWeight) {
+      convert = (amount) => toUsWeight(amount * WEIGHT_G[unit]);
+    } else {
+      convert = (amount) => toUsVolume(amount * VOLUME_ML[unit]);
+    }
+  } else {
+    if (isMetricUnit) return parsed;
+    if (isVolume && density) {
+      convert = (amount) => toMetricWeight(amount * VOLUME_ML[unit] * density);
+    } else if (isWeight) {
+      convert = (amount) => toMetricWeight(amount * WEIGHT_G[unit]);
+    } else {
+      convert = (amount) => toMetricVolume(amount * VOLUME_ML[unit]);
+    }
+  }
+
+  const converted = convert(quantity);
+  const convertedMax = quantityMax !== null ? convert(quantityMax) : null;
+
+  return {
+    ...parsed,
+    quantity: converted.value,
+    // Keep both ends of a range in one unit so "1-2 lb" does not become "455 g-0.91 kg"
+    quantityMax: convertedMax === null
+      ? null
+      : convertedMax.unit === converted.unit
+        ? convertedMax.value
+        : (converted.value / quantity) * quantityMax,
+    unit: converted.unit,
+  };
+}
+
+// Gas marks by their nominal Celsius temperature
+const GAS_MARKS: Array<[number, string]> = [
+  [110, '1/4'], [120, '1/2'], [140, '1'], [150, '2'], [170, '3'], [180, '4'],
+  [190, '5'], [200, '6'], [220, '7'], [230, '8'], [240, '9'],
+];
+
+function toGasMark(celsius: number): string {
+  return GAS_MARKS.reduce((best, mark) =>
+    Math.abs(mark[0] - celsius) < Math.abs(best[0] - celsius) ? mark : best
+  )[1];
+}
+
+/**
+ * Rounds a temperature the way oven dials are marked: 25°F or 10°C steps for oven
+ * temperatures (350°F, 180°C), 5° steps for anything cooler
+ */
+function roundTemperature(value: number, scale: 'F' | 'C'): number {
+  const isOven = scale === 'F' ? value >= 300 : value >= 150;
+  const step = isOven ? (scale === 'F' ? 25 : 10) : 5;
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Formats an oven temperature for a unit system.
+ * UK recipes give the fan oven temperature (20°C lower) and the gas mark alongside.
+ */
+function formatTemperature(celsius: number, system: UnitSystem): string {
+  if (system === 'us') return `${roundTemperature((celsius * 9) / 5 + 32, 'F')}°F`;
+  const rounded = roundTemperature(celsius, 'C');
+  if (system === 'metric' || rounded < 100) return `${rounded}°C`; // No fan or gas mark below oven temperatures
+  return `${rounded}°C (${rounded - 20}°C fan, gas mark ${toGasMark(rounded)})`;
+}
+
+// "425°F", "425 °F", "425 degrees F", "220ºC", optionally followed by its equivalent in parentheses
+const DEGREES = '\\s*(?:°|º|˚|degrees?\\s*)\\s*';
+const TEMPERATURE_REGEX = new RegExp(
+  `(-?\\d{2,3})${DEGREES}([FC])\\b(?:\\s*\\((?:or\\s+)?-?\\d{2,3}${DEGREES}[FC]\\b[^)]*\\))?`,
+  'gi'
+);
+
+/**
+ * Rewrites temperatures in instruction text for a unit system,
+ * e.g. "Preheat oven to 425°F (220°C)" -> "Preheat oven to 220°C" for metric
+ */
+export function convertTemperatures(text: string, system: UnitSystem): string {
+  if (!text) return text;
+  return text.replace(TEMPERATURE_REGEX, (_, value: string, scale: string) => {
+    const degrees = Number(value);
+    const celsius = scale.toUpperCase() === 'F' ? ((degrees - 32) * 5) / 9 : degrees;
+    // Keep the author's exact number when it is already in the target scale
+    if (system === 'us' && scale.toUpperCase() === 'F') return `${degrees}°F`;
+    if (system === 'metric' && scale.toUpperCase() === 'C') return `${degrees}°C`;
+    return formatTemperature(celsius, system);
+  });
+}
@@ -0,0 +1,364 @@
+/**
+ * Typed client for XAI chat, vision, streaming and image calls
+ *
+ * All requests go through the AI gateway (see aiGateway.ts) and share:
+ * - one token-bucket rate limiter
+ * - exponential backoff on 429 and 5xx responses and on network failures
+ * - per-request timeouts and caller cancellation through AbortSignal
+ * - the error hierarchy in xaiErrors.ts
+ */
+
+import { postToGateway, type GatewayRoute } from '@/utils/aiGateway';
+import { sleep } from '@/utils/helpers';
+import {
+  XaiAbortError,
+  XaiError,
+  XaiHttpError,
+  XaiNetworkError,
+  XaiRateLimitError,
+  XaiResponseError,
+  XaiTimeoutError,
+} from '@/utils/xaiErrors';
+
+/**
+ * Message content parts accepted by the XAI chat API
+ */
+export type XaiContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } };
+
+export interface XaiMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | XaiContentPart[];
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: XaiMessage[];
+  response_format?: { type: 'json_object' | 'text' };
+  temperature?: number;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  model: string;
+  response_format: 'url' | 'b64_json';
+  n: number;
+}
+
+export interface ImageGenerationResponse {
+  data: Array<{
+    url?: string;
+    b64_json?: string;
+    revised_prompt?: string;
+  }>;
+}
+
+export interface XaiRequestOptions {
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal;
+  /** Milliseconds before a request attempt is aborted (for streams: max silence between chunks) */
+  timeoutMs?: number;
+  /** Retries after the first attempt for 429, 5xx and network failures */
+  maxRetries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8_000;
+
+/**
+ * Token bucket shared by every XAI call made from this tab.
+ * Allows short bursts up to `capacity`, then settles at `refillPerSecond`.
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  async take(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      if (signal?.aborted) throw new XaiAbortError();
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = ((1 - this.tokens) / this.refillPerSecond) * 1000;
+      await sleepUnlessAborted(Math.ceil(waitMs), signal);
+    }
+  }
+}
+
+const rateLimiter = new TokenBucket(3, 3);
+
+/**
+ * Waits like sleep(), but rejects with XaiAbortError as soon as the caller cancels
+ */
+function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) return sleep(ms);
+  if (signal.aborted) return Promise.reject(new XaiAbortError());
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new XaiAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Backoff delay for a retry attempt, honouring Retry-After when the server sends it
+ */
+function getBackoffDelay(attempt: number, retryAfterHeader?: string | null): number {
+  const retryAfterSeconds = retryAfterHeader ? Number(retryAfterHeader) : NaN;
+  if (!isNaN(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return Math.min(retryAfterSeconds * 1000, BACKOFF_MAX_MS);
+  }
+  const exponential = BACKOFF_BASE_MS * 2 ** attempt;
+  const jitter = Math.random() * BACKOFF_BASE_MS;
+  return Math.min(exponential + jitter, BACKOFF_MAX_MS);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Links an attempt's AbortController to the caller's signal and to a timeout.
+ * `resetTimer` restarts the timeout, which streaming uses as an idle timeout.
+ */
+function createAttemptController(timeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const resetTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const onCallerAbort = () => controller.abort();
+
+  signal?.addEventListener('abort', onCallerAbort);
+  resetTimer();
+
+  return {
+    signal: controller.signal,
+    resetTimer,
+    didTimeOut: () => timedOut,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onCallerAbort);
+    },
+  };
+}
+
+/**
+ * Sends a request with rate limiting, timeouts and retries, and returns the successful Response.
+ * The caller must call `dispose` once it has finished reading the body.
+ */
+async function sendWithRetries(
+  route: GatewayRoute,
+  payload: object,
+  options: XaiRequestOptions = {}
+): Promise<{ response: Response; resetTimer: () => void; didTimeOut: () => boolean; dispose: () => void }> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    await rateLimiter.take(options.signal);
+    const attemptController = createAttemptController(timeoutMs, options.signal);
+
+    let response: Response;
+    try {
+      response = await postToGateway(route, payload, attemptController.signal);
+    } catch (error) {
+      attemptController.dispose();
+      if (options.signal?.aborted) throw new XaiAbortError();
+
+      const failure = attemptController.didTimeOut()
+        ? new XaiTimeoutError(`Request to /${route} timed out after ${timeoutMs}ms`, timeoutMs)
+        : new XaiNetworkError(`Request to /${route} failed`, error);
+
+      if (attempt >= maxRetries) throw failure;
+      console.warn(`[XaiClient] ${failure.message}, retrying (attempt ${attempt + 1}/${maxRetries})`);
+      await sleepUnlessAborted(getBackoffDelay(attempt), options.signal);
+      continue;
+    }
+
+    if (response.ok) {
+      return { response, ...attemptController };
+    }
+
+    attemptController.dispose();
+    const errorBody = await response.text().catch(() => '');
+
+    if (isRetryableStatus(response.status) && attempt < maxRetries) {
+      const delay = getBackoffDelay(attempt, response.headers.get('retry-after'));
+      console.warn(`[XaiClient] /${route} returned ${response.status}, retrying in ${Math.round(delay)}ms`);
+      await sleepUnlessAborted(delay, options.signal);
+      continue;
+    }
+
+    if (response.status === 429) {
+      throw new XaiRateLimitError(`Rate limited by /${route}`, errorBody);
+    }
+    throw new XaiHttpError(`Request to /${route} failed with status: ${response.status}`, response.status, errorBody);
+  }
+}
+
+/**
+ * Sends a chat completion (text or vision) and returns the assistant message content
+ */
+export async function chatCompletion(
+  route: GatewayRoute,
+  request: ChatCompletionRequest,
+  options?: XaiRequestOptions
+): Promise<string> {
+  const { response, dispose } = await sendWithRetries(route, { ...request, stream: false }, options);
+
+  try {
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new XaiResponseError(`Response from /${route} had no message content`, data);
+    }
+    return content;
+  } catch (error) {
+    if (error instanceof XaiError) throw error;
+    throw new XaiResponseError(`Response from /${route} was not valid JSON`, error);
+  } finally {
+    dispose();
+  }
+}
+
+// Leading base64 characters of each format's file signature
+const BASE64_SIGNATURES: [string, string][] = [
+  ['/9j/', 'image/jpeg'],
+  ['iVBORw0KGgo', 'image/png'],
+  ['UklGR', 'image/webp'],
+  ['R0lGOD', 'image/gif'],
+];
+
+/**
+ * Detects the image type of a bare base64 string from its file signature
+ */
+const getBase64MimeType = (base64: string): string =>
+  BASE64_SIGNATURES.find(([signature]) => base64.startsWith(signature))?.[1] ?? 'image/jpeg';
+
+/**
+ * Builds an image part for a vision request from a data URL or bare base64 string.
+ * Data URLs keep their own MIME type; bare base64 is labeled by its file signature.
+ */
+export function imagePart(imageData: string, detail: 'low' | 'high' | 'auto' = 'high'): XaiContentPart {
+  const url = imageData.startsWith('data:') ? imageData : `data:${getBase64MimeType(imageData)};base64,${imageData}`;
+  return { type: 'image_url', image_url: { url, detail } };
+}
+
+/**
+ * Streams a chat completion, calling `onDelta` with the accumulated text as chunks arrive
+ * @returns The full response text once the stream completes
+ */
+export async function streamChatCompletion(
+  route: GatewayRoute,
+  request: ChatCompletionRequest,
+  onDelta: (accumulated: string, delta: string) => void,
+  options?: XaiRequestOptions
+): Promise<string> {
+  const timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const { response, resetTimer, didTimeOut, dispose } = await sendWithRetries(
+    route,
+    { ...request, stream: true },
+    options
+  );
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    dispose();
+    throw new XaiResponseError(`Response from /${route} has no readable body`);
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let accumulated = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      resetTimer();
+
+      // Server-sent events may be split across chunks, so only parse complete lines
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const data = trimmed.slice('data:'.length).trim();
+        if (data === '[DONE]') continue;
+
+        try {
+          const delta: string = JSON.parse(data).choices?.[0]?.delta?.content || '';
+          if (delta) {
+            accumulated += delta;
+            onDelta(accumulated, delta);
+          }
+        } catch (e) {
+          console.error('[XaiClient] Error parsing stream chunk:', e, 'Line:', trimmed);
+        }
+      }
+    }
+  } catch (error) {
+    if (options?.signal?.aborted) throw new XaiAbortError();
+    if (didTimeOut()) throw new XaiTimeoutError(`Stream from /${route} stalled for ${timeoutMs}ms`, timeoutMs);
+    throw new XaiNetworkError(`Stream from /${route} was interrupted`, error);
+  } finally {
+    dispose();
+  }
+
+  return accumulated;
+}
+
+/**
+ * Generates images from a prompt
+ */
+export async function generateImage(
+  request: ImageGenerationRequest,
+  options?: XaiRequestOptions
+): Promise<ImageGenerationResponse> {
+  const { response, dispose } = await sendWithRetries('generate-image', request, options);
+
+  try {
+    const data = await response.json();
+    if (!Array.isArray(data?.data)) {
+      throw new XaiResponseError('Image response had no data array', data);
+    }
+    return data as ImageGenerationResponse;
+  } catch (error) {
+    if (error instanceof XaiError) throw error;
+    throw new XaiResponseError('Image response was not valid JSON', error);
+  } finally {
+    dispose();
+  }
+}
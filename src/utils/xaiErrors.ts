@@ -0,0 +1,86 @@
+/**
+ * Error hierarchy for everything that talks to the XAI API through the gateway
+ *
+ * XaiError
+ * ├── XaiHttpError          non-2xx response (status and body attached)
+ * │   └── XaiRateLimitError 429 after all retries were used
+ * ├── XaiTimeoutError       request exceeded its timeout
+ * ├── XaiAbortError         request was cancelled by the caller
+ * ├── XaiNetworkError       fetch itself failed (offline, DNS, CORS)
+ * ├── XaiResponseError      response arrived but was malformed
+ * ├── RecipeGenerationError recipe generation failed (recipeService)
+ * └── ImageGenerationError  image generation failed (imageService)
+ */
+
+export class XaiError extends Error {
+  constructor(message: string, public details?: unknown) {
+    super(message);
+    this.name = 'XaiError';
+  }
+}
+
+export class XaiHttpError extends XaiError {
+  constructor(message: string, public status: number, details?: unknown) {
+    super(message, details);
+    this.name = 'XaiHttpError';
+  }
+}
+
+export class XaiRateLimitError extends XaiHttpError {
+  constructor(message: string, details?: unknown) {
+    super(message, 429, details);
+    this.name = 'XaiRateLimitError';
+  }
+}
+
+export class XaiTimeoutError extends XaiError {
+  constructor(message: string, public timeoutMs: number) {
+    super(message);
+    this.name = 'XaiTimeoutError';
+  }
+}
+
+export class XaiAbortError extends XaiError {
+  constructor(message = 'Request was cancelled') {
+    super(message);
+    this.name = 'XaiAbortError';
+  }
+}
+
+export class XaiNetworkError extends XaiError {
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = 'XaiNetworkError';
+  }
+}
+
+export class XaiResponseError extends XaiError {
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = 'XaiResponseError';
+  }
+}
+
+export class RecipeGenerationError extends XaiError {
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = 'RecipeGenerationError';
+  }
+}
+
+export class ImageGenerationError extends XaiError {
+  constructor(message: string, details?: unknown) {
+    super(message, details);
+    this.name = 'ImageGenerationError';
+  }
+}
+
+/**
+ * Whether an error means the AI service could not be reached or answered with a failure,
+ * as opposed to a bad model output. Used to show "check your connection" style messages.
+ */
+export function isXaiConnectionError(error: unknown): boolean {
+  return error instanceof XaiHttpError ||
+    error instanceof XaiNetworkError ||
+    error instanceof XaiTimeoutError;
+}
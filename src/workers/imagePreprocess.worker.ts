@@ -0,0 +1,24 @@
+/**
+ * Web Worker that runs image preprocessing off the main thread (see src/utils/imagePreprocess.ts)
+ */
+
+import { PreprocessOptions, renderPreprocessedImage } from '@/utils/imagePreprocess';
+
+interface PreprocessRequest {
+  id: number;
+  source: Blob;
+  options: PreprocessOptions;
+}
+
+// The DOM lib types `self` as Window; in a dedicated worker it has the Worker messaging API
+const ctx = self as unknown as Worker;
+
+ctx.addEventListener('message', async (event: MessageEvent<PreprocessRequest>) => {
+  const { id, source, options } = event.data;
+  try {
+    const result = await renderPreprocessedImage(source, options);
+    ctx.postMessage({ id, result });
+  } catch (error) {
+    ctx.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
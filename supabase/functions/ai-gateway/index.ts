@@ -0,0 +1,251 @@
+/**
+ * AI gateway Edge Function
+ *
+ * Holds the XAI API key server-side and forwards requests from the browser to the XAI API.
+ * Each route only accepts the models the matching client module uses, so the gateway
+ * cannot be used as a general-purpose proxy for the key.
+ *
+ * Routes (POST, JSON body in XAI request format):
+ *   /analyze          -> /chat/completions   (food image analysis)
+ *   /chat             -> /chat/completions   (chef assistant, streaming)
+ *   /expert           -> /chat/completions   (culinary expert, streaming)
+ *   /generate-recipe  -> /chat/completions   (popular recipe generation)
+ *   /import-recipe    -> /chat/completions   (normalizing imported recipe text)
+ *   /generate-image   -> /images/generations (recipe images)
+ *
+ * Requests must come from an allowed browser origin, bodies are capped at MAX_BODY_BYTES,
+ * and each client IP gets a limited number of requests per minute.
+ *
+ * Environment:
+ *   XAI_API_KEY             XAI API key (required), set with `supabase secrets set XAI_API_KEY=...`
+ *   XAI_API_BASE_URL        Upstream base URL, defaults to https://api.x.ai/v1.
+ *                           Point it at mock_xai.ts to run the gateway without a real key.
+ *   ALLOWED_ORIGINS         Comma-separated origins of the app, defaults to http://localhost:8080
+ *   GATEWAY_RATE_LIMIT      Requests per minute per client IP, defaults to 30
+ */
+
+interface GatewayRoute {
+  upstreamPath: string;
+  allowedModels: string[];
+}
+
+export interface GatewayConfig {
+  apiKey: string;
+  baseUrl: string;
+  /** Browser origins allowed to call the gateway, e.g. ["https://recipesnap.app"] */
+  allowedOrigins: string[];
+  /** Per-IP request limit; requests are not limited without one */
+  rateLimiter?: ClientRateLimiter;
+  fetchImpl?: typeof fetch;
+}
+
+export const GATEWAY_ROUTES: Record<string, GatewayRoute> = {
+  'analyze': { upstreamPath: '/chat/completions', allowedModels: ['grok-2-vision-1212'] },
+  'chat': { upstreamPath: '/chat/completions', allowedModels: ['grok-3-latest'] },
+  'expert': { upstreamPath: '/chat/completions', allowedModels: ['grok-3-latest', 'grok-2-vision-1212'] },
+  'generate-recipe': { upstreamPath: '/chat/completions', allowedModels: ['grok-3-latest'] },
+  'import-recipe': { upstreamPath: '/chat/completions', allowedModels: ['grok-3-latest'] },
+  'generate-image': { upstreamPath: '/images/generations', allowedModels: ['grok-2-image'] },
+};
+
+const DEFAULT_BASE_URL = 'https://api.x.ai/v1';
+const DEFAULT_ALLOWED_ORIGINS = 'http://localhost:8080';
+const DEFAULT_REQUESTS_PER_MINUTE = 30;
+
+// Up to MAX_FOOD_PHOTOS (4) preprocessed photos as base64, with room to spare
+export const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Fixed one-minute window of requests per client IP.
+ * State lives in the function instance, so the limit is per instance rather than global;
+ * it stops a single client from running up the bill, not a distributed attack.
+ */
+export class ClientRateLimiter {
+  private windows = new Map<string, { startedAt: number; count: number }>();
+
+  constructor(private requestsPerMinute: number) {}
+
+  /**
+   * Records a request and returns how many seconds the client must wait, or 0 if it may proceed
+   */
+  take(clientId: string, now = Date.now()): number {
+    const window = this.windows.get(clientId);
+    if (!window || now - window.startedAt >= 60_000) {
+      this.windows.set(clientId, { startedAt: now, count: 1 });
+      this.prune(now);
+      return 0;
+    }
+    if (window.count >= this.requestsPerMinute) {
+      return Math.ceil((window.startedAt + 60_000 - now) / 1000);
+    }
+    window.count += 1;
+    return 0;
+  }
+
+  private prune(now: number) {
+    for (const [clientId, window] of this.windows) {
+      if (now - window.startedAt >= 60_000) this.windows.delete(clientId);
+    }
+  }
+}
+
+function getCorsHeaders(req: Request, config: GatewayConfig): Record<string, string> {
+  const origin = req.headers.get('origin');
+  return {
+    ...(origin && config.allowedOrigins.includes(origin) ? { 'Access-Control-Allow-Origin': origin } : {}),
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Vary': 'Origin',
+  };
+}
+
+function jsonResponse(
+  status: number,
+  body: Record<string, unknown>,
+  corsHeaders: Record<string, string>,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * The caller's IP as reported by the Supabase edge proxy
+ */
+function getClientId(req: Request): string {
+  return req.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown';
+}
+
+/**
+ * Reads the request body as text, or returns null once it grows past maxBytes
+ */
+async function readBodyWithLimit(req: Request, maxBytes: number): Promise<string | null> {
+  if (Number(req.headers.get('content-length') ?? 0) > maxBytes) return null;
+  if (!req.body) return '';
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(body);
+}
+
+/**
+ * Resolves the route name from the request path.
+ * Supabase serves functions under /functions/v1/ai-gateway/<route>, local runs may use /<route>.
+ */
+function getRouteName(url: URL): string {
+  const segments = url.pathname.split('/').filter(Boolean);
+  return segments[segments.length - 1] || '';
+}
+
+/**
+ * Handles a single gateway request. Exported separately from the server so it can be
+ * exercised against a mock upstream by passing a different baseUrl or fetchImpl.
+ */
+export async function handleGatewayRequest(req: Request, config: GatewayConfig): Promise<Response> {
+  const corsHeaders = getCorsHeaders(req, config);
+  const origin = req.headers.get('origin');
+
+  if (!origin || !config.allowedOrigins.includes(origin)) {
+    return jsonResponse(403, { error: 'Origin not allowed' }, corsHeaders);
+  }
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(405, { error: 'Method not allowed' }, corsHeaders);
+  }
+
+  const routeName = getRouteName(new URL(req.url));
+  const route = GATEWAY_ROUTES[routeName];
+  if (!route) {
+    return jsonResponse(404, { error: `Unknown route: ${routeName}` }, corsHeaders);
+  }
+
+  if (!config.apiKey) {
+    console.error('[AiGateway] XAI_API_KEY is not configured');
+    return jsonResponse(500, { error: 'Gateway is not configured' }, corsHeaders);
+  }
+
+  const retryAfterSeconds = config.rateLimiter?.take(getClientId(req)) ?? 0;
+  if (retryAfterSeconds > 0) {
+    return jsonResponse(429, { error: 'Too many requests' }, corsHeaders, { 'Retry-After': String(retryAfterSeconds) });
+  }
+
+  const body = await readBodyWithLimit(req, MAX_BODY_BYTES);
+  if (body === null) {
+    return jsonResponse(413, { error: `Request body is larger than ${MAX_BODY_BYTES} bytes` }, corsHeaders);
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return jsonResponse(400, { error: 'Request body must be JSON' }, corsHeaders);
+  }
+
+  if (typeof payload?.model !== 'string' || !route.allowedModels.includes(payload.model)) {
+    return jsonResponse(400, { error: `Model not allowed for /${routeName}` }, corsHeaders);
+  }
+
+  const fetchImpl = config.fetchImpl ?? fetch;
+
+  try {
+    const upstream = await fetchImpl(`${config.baseUrl}${route.upstreamPath}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify(payload),
+      signal: req.signal,
+    });
+
+    // Pass the upstream body through untouched so server-sent events stream to the client as they arrive
+    return new Response(upstream.body, {
+      status: upstream.status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': upstream.headers.get('content-type') ?? 'application/json',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    console.error(`[AiGateway] Upstream request for /${routeName} failed:`, error);
+    return jsonResponse(502, { error: 'Upstream request failed' }, corsHeaders);
+  }
+}
+
+if (import.meta.main) {
+  const config: GatewayConfig = {
+    apiKey: Deno.env.get('XAI_API_KEY') ?? '',
+    baseUrl: (Deno.env.get('XAI_API_BASE_URL') ?? DEFAULT_BASE_URL).replace(/\/$/, ''),
+    allowedOrigins: (Deno.env.get('ALLOWED_ORIGINS') ?? DEFAULT_ALLOWED_ORIGINS)
+      .split(',')
+      .map((origin) => origin.trim().replace(/\/$/, ''))
+      .filter(Boolean),
+    rateLimiter: new ClientRateLimiter(Number(Deno.env.get('GATEWAY_RATE_LIMIT')) || DEFAULT_REQUESTS_PER_MINUTE),
+  };
+  Deno.serve((req) => handleGatewayRequest(req, config));
+}
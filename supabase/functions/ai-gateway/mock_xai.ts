@@ -0,0 +1,88 @@
+/**
+ * Local mock of the XAI API for exercising the AI gateway without a real key.
+ *
+ *   deno run --allow-net --allow-env supabase/functions/ai-gateway/mock_xai.ts
+ *   XAI_API_KEY=test XAI_API_BASE_URL=http://localhost:8787/v1 \
+ *     deno run --allow-net --allow-env supabase/functions/ai-gateway/index.ts
+ *
+ * Implements /v1/chat/completions (plain and `stream: true` server-sent events)
+ * and /v1/images/generations. Requests without a bearer token get a 401, and
+ * with MOCK_XAI_RATE_LIMIT=1 every request gets a 429, to test error pass-through.
+ * (The gateway only forwards allowlisted model names, so the trigger can't come from the request.)
+ */
+
+const PORT = Number(Deno.env.get('MOCK_XAI_PORT') ?? 8787);
+const RATE_LIMITED = Deno.env.get('MOCK_XAI_RATE_LIMIT') === '1';
+
+const MOCK_RECIPE = {
+  title: 'Mock Tomato Soup',
+  description: 'A simple tomato soup returned by the mock XAI server.',
+  ingredients: ['2 cups crushed tomatoes', '1 cup vegetable stock', '1 tbsp olive oil', 'Salt to taste'],
+  instructions: ['Warm the oil in a pot.', 'Add tomatoes and stock and simmer for 15 minutes.', 'Blend and season.'],
+  prepTime: '5 mins',
+  cookTime: '20 mins',
+  totalTime: '25 mins',
+  servings: 2,
+  difficulty: 'Easy',
+  tags: ['soup', 'vegetarian'],
+  macros: { calories: 180, protein: 4, carbs: 22, fat: 8 },
+};
+
+// 1x1 transparent PNG
+const MOCK_IMAGE_B64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function streamCompletion(text: string): Response {
+  const encoder = new TextEncoder();
+  const words = text.split(' ');
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const [index, word] of words.entries()) {
+        const delta = { choices: [{ delta: { content: (index === 0 ? '' : ' ') + word } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(delta)}\n\n`));
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function handleMockRequest(req: Request): Promise<Response> {
+  const { pathname } = new URL(req.url);
+
+  if (!req.headers.get('authorization')?.startsWith('Bearer ')) {
+    return json(401, { error: 'Missing bearer token' });
+  }
+
+  if (RATE_LIMITED) {
+    return json(429, { error: 'Rate limit exceeded' });
+  }
+
+  const payload = await req.json().catch(() => ({}));
+
+  if (pathname === '/v1/chat/completions') {
+    const wantsJson = payload.response_format?.type === 'json_object';
+    const content = wantsJson
+      ? JSON.stringify(MOCK_RECIPE)
+      : 'This is a mock reply from the local XAI server. Simmer gently and season to taste.';
+
+    if (payload.stream) {
+      return streamCompletion(content);
+    }
+    return json(200, { choices: [{ message: { role: 'assistant', content } }] });
+  }
+
+  if (pathname === '/v1/images/generations') {
+    return json(200, { data: [{ b64_json: MOCK_IMAGE_B64 }] });
+  }
+
+  return json(404, { error: `Mock has no handler for ${pathname}` });
+}
+
+console.log(`[MockXai] Listening on http://localhost:${PORT}/v1${RATE_LIMITED ? ' (rate limiting every request)' : ''}`);
+Deno.serve({ port: PORT }, handleMockRequest);
@@ -0,0 +1,31 @@
+-- Create saved_recipes table (the user's recipe box)
+-- Recipes are snapshotted so snapped recipes that never reach popular_recipes can still be saved.
+CREATE TABLE IF NOT EXISTS saved_recipes (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id text NOT NULL,
+  recipe_id text NOT NULL,
+  title text NOT NULL,
+  description text DEFAULT '',
+  ingredients text[] DEFAULT '{}',
+  instructions text[] DEFAULT '{}',
+  image_url text,
+  cook_time text DEFAULT '30 mins',
+  servings integer DEFAULT 4,
+  tags text[] DEFAULT '{}',
+  macros JSONB DEFAULT NULL,
+  saved_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+  UNIQUE (owner_id, recipe_id)
+);
+
+-- Create index for listing a single owner's recipe box, newest first
+CREATE INDEX IF NOT EXISTS saved_recipes_owner_saved_at_idx ON saved_recipes (owner_id, saved_at DESC);
+
+ALTER TABLE saved_recipes ENABLE ROW LEVEL SECURITY;
+
+-- A recipe box is only visible to its owner. There are no accounts yet: the client sends its
+-- owner id in the x-owner-id header (src/lib/savedRecipes.ts), and rows can't be listed or
+-- changed without knowing that id.
+CREATE POLICY "Owners can manage their own saved recipes" ON saved_recipes
+  FOR ALL
+  USING (owner_id = current_setting('request.headers', true)::json->>'x-owner-id')
+  WITH CHECK (owner_id = current_setting('request.headers', true)::json->>'x-owner-id');
@@ -0,0 +1,28 @@
+-- Create meal_plan_entries table (the weekly planner)
+-- One row per recipe placed in a day/meal slot. Like saved_recipes, the recipe is snapshotted
+-- so the plan keeps working if the popular recipe it came from is regenerated.
+CREATE TABLE IF NOT EXISTS meal_plan_entries (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id text NOT NULL,
+  week_start date NOT NULL,
+  day smallint NOT NULL CHECK (day BETWEEN 0 AND 6),
+  slot text NOT NULL CHECK (slot IN ('breakfast', 'lunch', 'dinner', 'snack')),
+  recipe_id text NOT NULL,
+  title text NOT NULL,
+  image_url text,
+  ingredients text[] DEFAULT '{}',
+  macros JSONB DEFAULT NULL,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Create index for loading one owner's week
+CREATE INDEX IF NOT EXISTS meal_plan_entries_owner_week_idx ON meal_plan_entries (owner_id, week_start);
+
+ALTER TABLE meal_plan_entries ENABLE ROW LEVEL SECURITY;
+
+-- A plan is only visible to its owner, who is identified by the x-owner-id header
+-- (src/lib/mealPlans.ts), as for saved_recipes
+CREATE POLICY "Owners can manage their own meal plan" ON meal_plan_entries
+  FOR ALL
+  USING (owner_id = current_setting('request.headers', true)::json->>'x-owner-id')
+  WITH CHECK (owner_id = current_setting('request.headers', true)::json->>'x-owner-id');
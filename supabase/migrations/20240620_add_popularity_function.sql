@@ -0,0 +1,13 @@
+-- Create the function incrementPopularity() in src/lib/recipes.ts calls when a recipe is opened
+CREATE OR REPLACE FUNCTION increment_recipe_popularity(recipe_id uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE popular_recipes
+  SET popularity_score = popularity_score + 1
+  WHERE id = recipe_id;
+$$;
+
+-- Create indexes for the /discover page: newest-first sorting and tag filtering
+CREATE INDEX IF NOT EXISTS popular_recipes_created_at_idx ON popular_recipes (created_at DESC);
+CREATE INDEX IF NOT EXISTS popular_recipes_tags_idx ON popular_recipes USING GIN (tags);
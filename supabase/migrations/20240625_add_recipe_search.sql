@@ -0,0 +1,200 @@
+-- Full-text and faceted search over popular_recipes (see searchRecipes in src/lib/recipes.ts)
+
+-- Parse cook times such as "30 mins", "1 hour 15 mins" or "1.5 hours" into minutes.
+-- Marked IMMUTABLE so it can back a generated column.
+CREATE OR REPLACE FUNCTION parse_cook_time_minutes(cook_time text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN cook_time IS NULL THEN NULL
+    WHEN cook_time ~* '\d+(\.\d+)?\s*(h|hr|hrs|hour|hours)\y' OR cook_time ~* '\d+\s*(m|min|mins|minute|minutes)\y' THEN
+      round(
+        coalesce(substring(cook_time FROM '(?i)(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\M')::numeric, 0) * 60 +
+        coalesce(substring(cook_time FROM '(?i)(\d+)\s*(?:m|min|mins|minute|minutes)\M')::numeric, 0)
+      )::integer
+    -- A bare number is taken as minutes
+    ELSE substring(cook_time FROM '(\d+)')::integer
+  END;
+$$;
+
+ALTER TABLE popular_recipes
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(content, '')), 'B')
+) STORED,
+ADD COLUMN IF NOT EXISTS cook_time_minutes integer GENERATED ALWAYS AS (parse_cook_time_minutes(cook_time)) STORED;
+
+-- Create GIN index for full-text search
+CREATE INDEX IF NOT EXISTS popular_recipes_search_vector_idx ON popular_recipes USING GIN (search_vector);
+
+-- Case-insensitive regex matching an ingredient as whole words, plurals included:
+-- "egg" matches "2 large eggs" but not "eggplant". Regex characters in the term are escaped.
+CREATE OR REPLACE FUNCTION ingredient_match_pattern(wanted text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '\m' || regexp_replace(trim(wanted), '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '(e?s)?\M';
+$$;
+
+-- Recipes matching the text query and, with have_ingredients set, using at least one of those
+-- ingredients. Unordered and unpaginated: search_recipes filters, sorts and pages these rows,
+-- and search_recipe_facets counts all of them.
+CREATE OR REPLACE FUNCTION recipe_search_matches(
+  search_query text DEFAULT NULL,
+  have_ingredients text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  text_rank real,
+  matched integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT m.id, m.text_rank, m.matched
+  FROM (
+    SELECT
+      r.id,
+      CASE
+        WHEN coalesce(search_query, '') = '' THEN 0
+        ELSE ts_rank(r.search_vector, websearch_to_tsquery('english', search_query))
+      END AS text_rank,
+      CASE
+        WHEN have_ingredients IS NULL THEN 0
+        ELSE (
+          SELECT count(*)::integer
+          FROM unnest(have_ingredients) AS wanted
+          WHERE EXISTS (
+            SELECT 1 FROM unnest(r.ingredients) AS line
+            WHERE line ~* ingredient_match_pattern(wanted)
+          )
+        )
+      END AS matched
+    FROM popular_recipes r
+    WHERE coalesce(search_query, '') = '' OR r.search_vector @@ websearch_to_tsquery('english', search_query)
+  ) m
+  WHERE have_ingredients IS NULL OR m.matched > 0;
+$$;
+
+-- Search with optional facet filters.
+-- Text searches are ranked by relevance. With have_ingredients set, recipes are ranked
+-- by how many of them they use and then by how few other ingredients they need.
+CREATE OR REPLACE FUNCTION search_recipes(
+  search_query text DEFAULT NULL,
+  tag_filter text[] DEFAULT NULL,
+  min_cook_minutes integer DEFAULT NULL,
+  max_cook_minutes integer DEFAULT NULL,
+  min_calories numeric DEFAULT NULL,
+  max_calories numeric DEFAULT NULL,
+  have_ingredients text[] DEFAULT NULL,
+  result_limit integer DEFAULT 24,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  content text,
+  ingredients text[],
+  instructions text[],
+  image_url text,
+  cook_time text,
+  servings integer,
+  created_at timestamp with time zone,
+  popularity_score integer,
+  tags text[],
+  macros jsonb,
+  rank real,
+  matched_ingredients integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    r.id, r.title, r.description, r.content, r.ingredients, r.instructions, r.image_url,
+    r.cook_time, r.servings, r.created_at, r.popularity_score, r.tags, r.macros,
+    m.text_rank, m.matched
+  FROM recipe_search_matches(search_query, have_ingredients) m
+  JOIN popular_recipes r ON r.id = m.id
+  WHERE (tag_filter IS NULL OR r.tags @> tag_filter)
+    AND (min_cook_minutes IS NULL OR r.cook_time_minutes >= min_cook_minutes)
+    AND (max_cook_minutes IS NULL OR r.cook_time_minutes < max_cook_minutes)
+    AND (min_calories IS NULL OR (r.macros->>'calories')::numeric >= min_calories)
+    AND (max_calories IS NULL OR (r.macros->>'calories')::numeric < max_calories)
+  ORDER BY
+    CASE WHEN have_ingredients IS NULL THEN 0 ELSE m.matched END DESC,
+    CASE WHEN have_ingredients IS NULL THEN 0 ELSE coalesce(array_length(r.ingredients, 1), 0) - m.matched END ASC,
+    m.text_rank DESC,
+    r.popularity_score DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
+
+-- Facet counts for a search. Each facet's counts apply the filters picked in the other facets
+-- but not its own, so every option shows how many results picking it would give, and the total
+-- matches the result list.
+CREATE OR REPLACE FUNCTION search_recipe_facets(
+  search_query text DEFAULT NULL,
+  have_ingredients text[] DEFAULT NULL,
+  tag_filter text[] DEFAULT NULL,
+  min_cook_minutes integer DEFAULT NULL,
+  max_cook_minutes integer DEFAULT NULL,
+  min_calories numeric DEFAULT NULL,
+  max_calories numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH timed AS (
+    SELECT r.cook_time_minutes AS minutes, (r.macros->>'calories')::numeric AS calories, r.tags
+    FROM recipe_search_matches(search_query, have_ingredients) m
+    JOIN popular_recipes r ON r.id = m.id
+  ),
+  filtered AS (
+    SELECT
+      minutes,
+      calories,
+      tags,
+      (tag_filter IS NULL OR tags @> tag_filter) AS tags_ok,
+      ((min_cook_minutes IS NULL OR minutes >= min_cook_minutes)
+        AND (max_cook_minutes IS NULL OR minutes < max_cook_minutes)) AS cook_time_ok,
+      ((min_calories IS NULL OR calories >= min_calories)
+        AND (max_calories IS NULL OR calories < max_calories)) AS calories_ok
+    FROM timed
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM filtered WHERE tags_ok AND cook_time_ok AND calories_ok),
+    'cook_time', (
+      SELECT jsonb_build_object(
+        'under_15', count(*) FILTER (WHERE minutes < 15),
+        '15_30', count(*) FILTER (WHERE minutes >= 15 AND minutes < 30),
+        '30_60', count(*) FILTER (WHERE minutes >= 30 AND minutes < 60),
+        'over_60', count(*) FILTER (WHERE minutes >= 60)
+      ) FROM filtered WHERE tags_ok AND calories_ok
+    ),
+    'calories', (
+      SELECT jsonb_build_object(
+        'under_300', count(*) FILTER (WHERE calories < 300),
+        '300_500', count(*) FILTER (WHERE calories >= 300 AND calories < 500),
+        '500_800', count(*) FILTER (WHERE calories >= 500 AND calories < 800),
+        'over_800', count(*) FILTER (WHERE calories >= 800)
+      ) FROM filtered WHERE tags_ok AND cook_time_ok
+    ),
+    -- Tags narrow each other (a recipe must have all picked tags), so tag counts apply every filter
+    'tags', (
+      SELECT coalesce(jsonb_object_agg(tag, tag_count), '{}'::jsonb)
+      FROM (
+        SELECT tag, count(*) AS tag_count
+        FROM filtered, unnest(tags) AS tag
+        WHERE tags_ok AND cook_time_ok AND calories_ok
+        GROUP BY tag
+        ORDER BY tag_count DESC
+        LIMIT 20
+      ) top_tags
+    )
+  );
+$$;
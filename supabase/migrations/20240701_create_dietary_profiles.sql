@@ -0,0 +1,19 @@
+-- Create dietary_profiles table (allergies, diets and dislikes)
+-- Optional backup of the profile kept in the browser's settings; one row per owner.
+CREATE TABLE IF NOT EXISTS dietary_profiles (
+  owner_id text PRIMARY KEY,
+  allergies text[] DEFAULT '{}',
+  diets text[] DEFAULT '{}',
+  dislikes text[] DEFAULT '{}',
+  updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE dietary_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Allergies are health data, so unlike popular_recipes a row is only visible to its owner.
+-- There are no accounts yet: the client sends its owner id in the x-owner-id header
+-- (src/lib/dietaryProfiles.ts), and rows can't be listed or read without knowing that id.
+CREATE POLICY "Owners can manage their own dietary profile" ON dietary_profiles
+  FOR ALL
+  USING (owner_id = current_setting('request.headers', true)::json->>'x-owner-id')
+  WITH CHECK (owner_id = current_setting('request.headers', true)::json->>'x-owner-id');
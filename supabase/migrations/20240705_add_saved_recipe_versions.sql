@@ -0,0 +1,7 @@
+-- Link adapted recipes (e.g. a vegan version) to the recipe they were adapted from
+ALTER TABLE saved_recipes
+ADD COLUMN IF NOT EXISTS parent_recipe_id text DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS variant_label text DEFAULT NULL;
+
+-- Create index for finding the saved versions of a recipe
+CREATE INDEX IF NOT EXISTS saved_recipes_owner_parent_idx ON saved_recipes (owner_id, parent_recipe_id);
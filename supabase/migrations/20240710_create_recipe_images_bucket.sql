@@ -0,0 +1,19 @@
+-- Public bucket for the photos of published recipes (see src/lib/recipeImages.ts).
+-- popular_recipes.image_url points here instead of holding the photo as a data: URL.
+-- Uploads are capped at 5 MB and limited to the image types the app produces.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('recipe-images', 'recipe-images', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO UPDATE SET
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Anyone can add a photo under published/ with an image extension;
+-- nobody can change or delete one through the API
+CREATE POLICY "Anyone can upload recipe images" ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'recipe-images'
+    AND (storage.foldername(name))[1] = 'published'
+    AND array_length(storage.foldername(name), 1) = 1
+    AND lower(storage.extension(name)) IN ('jpg', 'png', 'webp')
+  );
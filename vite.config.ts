@@ -23,6 +23,10 @@ export default defineConfig(({ mode }) => {
         "@": path.resolve(__dirname, "./src"),
       },
     },
+    // Module workers, so the image worker can lazily import the HEIC decoder
+    worker: {
+      format: 'es',
+    },
     // Define environment variables to be accessible
     define: {
       // Expose env variables prefixed with VITE_